@@ -1,4 +1,5 @@
 import type { FSConstants } from './types.js'
+import { createEINVAL } from './errors.js'
 
 /**
  * File system constants matching Node.js fs.constants
@@ -23,6 +24,11 @@ export const constants: FSConstants = {
   O_EXCL: 128,
   O_TRUNC: 512,
   O_APPEND: 1024,
+  O_NOCTTY: 256,
+  O_DSYNC: 4096,
+  O_NOFOLLOW: 131072,
+  O_NOATIME: 262144,
+  O_SYNC: 1052672,
 
   // File type masks
   S_IFMT: 61440,
@@ -32,21 +38,84 @@ export const constants: FSConstants = {
 }
 
 /**
- * Convert numeric flags to string representation
+ * Open behaviour described by a flags argument
  */
-export function flagsToString(flags: number | string): string {
-  if (typeof flags === 'string') return flags
-
-  const map: Record<number, string> = {
-    [constants.O_RDONLY]: 'r',
-    [constants.O_WRONLY]: 'w',
-    [constants.O_RDWR]: 'r+',
-    [constants.O_CREAT | constants.O_WRONLY]: 'w',
-    [constants.O_CREAT | constants.O_WRONLY | constants.O_TRUNC]: 'w',
-    [constants.O_CREAT | constants.O_RDWR]: 'w+',
-    [constants.O_APPEND | constants.O_WRONLY]: 'a',
-    [constants.O_APPEND | constants.O_RDWR]: 'a+'
+export interface OpenFlags {
+  readable: boolean
+  writable: boolean
+  /** Create the file if it doesn't exist */
+  create: boolean
+  /** Fail with EEXIST if the file exists (only together with create) */
+  exclusive: boolean
+  truncate: boolean
+  /** Every write goes to the end of the file */
+  append: boolean
+  /** Flush after every write */
+  sync: boolean
+  /** Fail with ELOOP if the path is a symlink */
+  noFollow: boolean
+}
+
+/**
+ * String flags as accepted by Node.js, in their numeric form
+ */
+const STRING_FLAGS: Record<string, number> = {
+  'r': constants.O_RDONLY,
+  'rs': constants.O_RDONLY | constants.O_SYNC,
+  'sr': constants.O_RDONLY | constants.O_SYNC,
+  'r+': constants.O_RDWR,
+  'rs+': constants.O_RDWR | constants.O_SYNC,
+  'sr+': constants.O_RDWR | constants.O_SYNC,
+  'w': constants.O_TRUNC | constants.O_CREAT | constants.O_WRONLY,
+  'wx': constants.O_TRUNC | constants.O_CREAT | constants.O_WRONLY | constants.O_EXCL,
+  'xw': constants.O_TRUNC | constants.O_CREAT | constants.O_WRONLY | constants.O_EXCL,
+  'w+': constants.O_TRUNC | constants.O_CREAT | constants.O_RDWR,
+  'wx+': constants.O_TRUNC | constants.O_CREAT | constants.O_RDWR | constants.O_EXCL,
+  'xw+': constants.O_TRUNC | constants.O_CREAT | constants.O_RDWR | constants.O_EXCL,
+  'a': constants.O_APPEND | constants.O_CREAT | constants.O_WRONLY,
+  'ax': constants.O_APPEND | constants.O_CREAT | constants.O_WRONLY | constants.O_EXCL,
+  'xa': constants.O_APPEND | constants.O_CREAT | constants.O_WRONLY | constants.O_EXCL,
+  'as': constants.O_APPEND | constants.O_CREAT | constants.O_WRONLY | constants.O_SYNC,
+  'sa': constants.O_APPEND | constants.O_CREAT | constants.O_WRONLY | constants.O_SYNC,
+  'a+': constants.O_APPEND | constants.O_CREAT | constants.O_RDWR,
+  'ax+': constants.O_APPEND | constants.O_CREAT | constants.O_RDWR | constants.O_EXCL,
+  'xa+': constants.O_APPEND | constants.O_CREAT | constants.O_RDWR | constants.O_EXCL,
+  'as+': constants.O_APPEND | constants.O_CREAT | constants.O_RDWR | constants.O_SYNC,
+  'sa+': constants.O_APPEND | constants.O_CREAT | constants.O_RDWR | constants.O_SYNC
+}
+
+const ACCESS_MODE_MASK = 3
+
+const KNOWN_FLAGS =
+  ACCESS_MODE_MASK | constants.O_CREAT | constants.O_EXCL | constants.O_TRUNC | constants.O_APPEND |
+  constants.O_NOCTTY | constants.O_DSYNC | constants.O_NOFOLLOW | constants.O_NOATIME | constants.O_SYNC
+
+/**
+ * Parse string or numeric open flags
+ * Throws EINVAL for unknown strings, unknown bits or an invalid access mode.
+ */
+export function parseFlags(flags: number | string, path: string): OpenFlags {
+  const value = typeof flags === 'string' ? STRING_FLAGS[flags] : flags
+  if (
+    value === undefined ||
+    !Number.isInteger(value) ||
+    (value & ~KNOWN_FLAGS) !== 0 ||
+    (value & ACCESS_MODE_MASK) === ACCESS_MODE_MASK
+  ) {
+    throw createEINVAL(path, 'open')
   }
 
-  return map[flags] || 'r'
+  const accessMode = value & ACCESS_MODE_MASK
+  const writable = accessMode !== constants.O_RDONLY
+  return {
+    readable: accessMode !== constants.O_WRONLY,
+    writable,
+    create: (value & constants.O_CREAT) !== 0,
+    exclusive: (value & constants.O_CREAT) !== 0 && (value & constants.O_EXCL) !== 0,
+    // O_TRUNC on a read-only handle is unspecified, Node.js leaves the file alone
+    truncate: writable && (value & constants.O_TRUNC) !== 0,
+    append: (value & constants.O_APPEND) !== 0,
+    sync: (value & (constants.O_SYNC | constants.O_DSYNC)) !== 0,
+    noFollow: (value & constants.O_NOFOLLOW) !== 0
+  }
 }
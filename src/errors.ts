@@ -1,8 +1,70 @@
+/**
+ * Numeric errno for each code, as Node.js reports them on Linux
+ */
+export const ERRNO: Record<string, number> = {
+  EPERM: -1,
+  ENOENT: -2,
+  EIO: -5,
+  EBADF: -9,
+  EACCES: -13,
+  EBUSY: -16,
+  EEXIST: -17,
+  EXDEV: -18,
+  ENOTDIR: -20,
+  EISDIR: -21,
+  EINVAL: -22,
+  EMFILE: -24,
+  ENOSPC: -28,
+  EPIPE: -32,
+  ENOTEMPTY: -39,
+  ELOOP: -40,
+  ENOTSUP: -95,
+  ETIMEDOUT: -110
+}
+
+/**
+ * Codes for the DOMExceptions thrown by the File System Access API
+ */
+const DOM_EXCEPTION_CODES: Record<string, string> = {
+  NotFoundError: 'ENOENT',
+  TypeMismatchError: 'ENOTDIR', // Refined to EISDIR where a file was expected
+  InvalidModificationError: 'ENOTEMPTY', // removeEntry() of a non-empty directory
+  NoModificationAllowedError: 'EBUSY', // Another sync access handle holds the file
+  QuotaExceededError: 'ENOSPC',
+  NotAllowedError: 'EACCES',
+  SecurityError: 'EACCES',
+  InvalidStateError: 'EBADF' // The handle was closed or the file changed underneath it
+}
+
+/**
+ * Node.js error descriptions for codes that don't have a factory of their own
+ */
+const DESCRIPTIONS: Record<string, string> = {
+  ENOENT: 'no such file or directory',
+  ENOTDIR: 'not a directory',
+  ENOTEMPTY: 'directory not empty',
+  EBUSY: 'resource busy or locked',
+  ENOSPC: 'no space left on device',
+  EACCES: 'permission denied',
+  EBADF: 'bad file descriptor'
+}
+
+/**
+ * Format a message like Node.js: "CODE: description, syscall 'path'"
+ */
+function formatMessage(code: string, description: string, syscall?: string, path?: string): string {
+  let message = `${code}: ${description}`
+  if (syscall) message += `, ${syscall}`
+  if (path !== undefined) message += syscall ? ` '${path}'` : `, '${path}'`
+  return message
+}
+
 /**
  * Custom error class for filesystem errors
  */
 export class FSError extends Error {
   code: string
+  errno?: number
   syscall?: string
   path?: string
   original?: Error
@@ -11,6 +73,7 @@ export class FSError extends Error {
     super(message)
     this.name = 'FSError'
     this.code = code
+    this.errno = ERRNO[code]
     this.syscall = options?.syscall
     this.path = options?.path
     this.original = options?.original
@@ -20,46 +83,119 @@ export class FSError extends Error {
 /**
  * Create ENOENT (No such file or directory) error
  */
-export function createENOENT(path: string): FSError {
-  return new FSError(`ENOENT: No such file or directory, '${path}'`, 'ENOENT', { path })
+export function createENOENT(path: string, syscall?: string): FSError {
+  return new FSError(formatMessage('ENOENT', 'no such file or directory', syscall, path), 'ENOENT', { syscall, path })
 }
 
 /**
  * Create EEXIST (File exists) error
  */
 export function createEEXIST(path: string, operation?: string): FSError {
-  const message = operation
-    ? `EEXIST: file already exists, ${operation} '${path}'`
-    : `EEXIST: File exists, '${path}'`
-  return new FSError(message, 'EEXIST', { path })
+  return new FSError(formatMessage('EEXIST', 'file already exists', operation, path), 'EEXIST', { syscall: operation, path })
 }
 
 /**
  * Create EACCES (Permission denied) error
  */
 export function createEACCES(path: string, syscall?: string): FSError {
-  return new FSError(`EACCES: permission denied, access '${path}'`, 'EACCES', { syscall, path })
+  return new FSError(formatMessage('EACCES', 'permission denied', syscall ?? 'access', path), 'EACCES', { syscall, path })
 }
 
 /**
  * Create EISDIR (Is a directory) error
  */
 export function createEISDIR(path: string, operation = 'operation'): FSError {
-  return new FSError(`EISDIR: illegal operation on a directory, ${operation} '${path}'`, 'EISDIR', { path })
+  return new FSError(`EISDIR: illegal operation on a directory, ${operation} '${path}'`, 'EISDIR', {
+    syscall: operation === 'operation' ? undefined : operation,
+    path
+  })
+}
+
+/**
+ * Create ENOTDIR (Not a directory) error
+ */
+export function createENOTDIR(path: string, syscall?: string): FSError {
+  return new FSError(formatMessage('ENOTDIR', 'not a directory', syscall, path), 'ENOTDIR', { syscall, path })
+}
+
+/**
+ * Create ENOTEMPTY (Directory not empty) error
+ */
+export function createENOTEMPTY(path: string, syscall = 'rmdir'): FSError {
+  return new FSError(formatMessage('ENOTEMPTY', 'directory not empty', syscall, path), 'ENOTEMPTY', { syscall, path })
+}
+
+/**
+ * Create EPERM (Operation not permitted) error
+ */
+export function createEPERM(path: string, syscall?: string): FSError {
+  return new FSError(formatMessage('EPERM', 'operation not permitted', syscall, path), 'EPERM', { syscall, path })
+}
+
+/**
+ * Create ENOSPC (No space left on device) error, e.g. when the storage quota is exceeded
+ */
+export function createENOSPC(path?: string, syscall?: string): FSError {
+  return new FSError(formatMessage('ENOSPC', 'no space left on device', syscall, path), 'ENOSPC', { syscall, path })
+}
+
+/**
+ * Create EBUSY (Resource busy or locked) error, e.g. when another context holds an access handle
+ */
+export function createEBUSY(path: string, syscall?: string): FSError {
+  return new FSError(formatMessage('EBUSY', 'resource busy or locked', syscall, path), 'EBUSY', { syscall, path })
+}
+
+/**
+ * Create EXDEV (Cross-device link not permitted) error
+ */
+export function createEXDEV(src: string, dest: string, syscall = 'rename'): FSError {
+  return new FSError(`EXDEV: cross-device link not permitted, ${syscall} '${src}' -> '${dest}'`, 'EXDEV', {
+    syscall,
+    path: src
+  })
+}
+
+/**
+ * Create EMFILE (Too many open files) error
+ */
+export function createEMFILE(syscall = 'open'): FSError {
+  return new FSError(`EMFILE: too many open files, ${syscall}`, 'EMFILE', { syscall })
+}
+
+/**
+ * Create EBADF (Bad file descriptor) error
+ */
+export function createEBADF(syscall: string): FSError {
+  return new FSError(`EBADF: bad file descriptor, ${syscall}`, 'EBADF', { syscall })
 }
 
 /**
  * Create ELOOP (Too many symbolic links) error
  */
 export function createELOOP(path: string): FSError {
-  return new FSError(`ELOOP: Too many symbolic links, '${path}'`, 'ELOOP', { path })
+  return new FSError(formatMessage('ELOOP', 'too many symbolic links encountered', undefined, path), 'ELOOP', { path })
 }
 
 /**
  * Create EINVAL (Invalid argument) error
  */
-export function createEINVAL(path: string): FSError {
-  return new FSError(`EINVAL: Invalid argument, '${path}'`, 'EINVAL', { path })
+export function createEINVAL(path: string, syscall?: string): FSError {
+  return new FSError(formatMessage('EINVAL', 'invalid argument', syscall, path), 'EINVAL', { syscall, path })
+}
+
+/**
+ * Create ENOTSUP (Operation not supported) error
+ */
+export function createENOTSUP(syscall: string, reason: string): FSError {
+  return new FSError(`ENOTSUP: operation not supported, ${syscall} (${reason})`, 'ENOTSUP', { syscall })
+}
+
+/**
+ * Create EIO (I/O error) error
+ */
+export function createEIO(path: string, syscall?: string): FSError {
+  return new FSError(formatMessage('EIO', 'i/o error', syscall, path), 'EIO', { syscall, path })
 }
 
 /**
@@ -71,18 +207,29 @@ export function createECORRUPTED(path: string): FSError {
 
 /**
  * Wrap an error with a standard code if it doesn't have one
+ * DOMExceptions of the File System Access API are mapped to the matching Node.js code.
+ * The path and syscall are filled in where the error doesn't have them yet.
  */
-export function wrapError(err: unknown): FSError {
-  if (err instanceof FSError) return err
+export function wrapError(err: unknown, context: { path?: string; syscall?: string } = {}): FSError {
+  if (err instanceof FSError) {
+    err.path ??= context.path
+    err.syscall ??= context.syscall
+    return err
+  }
 
   const error = err as Error
+  const domCode = error?.name ? DOM_EXCEPTION_CODES[error.name] : undefined
+  if (domCode) {
+    return new FSError(
+      formatMessage(domCode, DESCRIPTIONS[domCode], context.syscall, context.path),
+      domCode,
+      { ...context, original: error }
+    )
+  }
+
   if (typeof (error as FSError).code === 'string') {
-    const fsErr = new FSError(error.message, (error as FSError).code)
-    fsErr.original = error
-    return fsErr
+    return new FSError(error.message, (error as FSError).code, { ...context, original: error })
   }
 
-  const wrapped = new FSError(error.message || 'Unknown error', 'UNKNOWN')
-  wrapped.original = error
-  return wrapped
+  return new FSError(error?.message || 'Unknown error', 'UNKNOWN', { ...context, original: error })
 }
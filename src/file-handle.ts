@@ -1,22 +1,212 @@
-import type { FileHandle, ReadResult, WriteResult, Stats, ReadFileOptions, WriteFileOptions } from './types.js'
+import type { FileHandle, ReadResult, WriteResult, Stats, ReadFileOptions, WriteFileOptions, LockMode, LockOptions } from './types.js'
+import type { PackedStorage } from './packed-storage.js'
+import type { SyncAccessLease } from './handle-manager.js'
+import { FSError, createEBADF } from './errors.js'
+
+/**
+ * Positional access to an open file, held for the lifetime of a FileHandle
+ */
+export interface FileAccess {
+  getSize(): Promise<number>
+  /** Read into buffer at position, returns bytes read (fewer at the end of the file) */
+  read(buffer: Uint8Array, position: number): Promise<number>
+  write(data: Uint8Array, position: number): Promise<void>
+  truncate(size: number): Promise<void>
+  flush(): Promise<void>
+  close(): Promise<void>
+}
 
 export interface FileHandleContext {
-  readFile(path: string, options?: ReadFileOptions): Promise<string | Uint8Array>
-  writeFile(path: string, data: string | Uint8Array, options?: WriteFileOptions): Promise<void>
-  appendFile(path: string, data: string | Uint8Array, options?: WriteFileOptions): Promise<void>
   stat(path: string): Promise<Stats>
-  truncate(path: string, len: number): Promise<void>
+  /** Called on close if the handle wrote to or truncated the file */
+  changed(path: string): void
+  /** Take an advisory lock (fs.lock), resolves with its release function */
+  lock(path: string, options: LockOptions): Promise<() => void>
+}
+
+export interface FileHandleOptions {
+  /** Initial file position */
+  position: number
+  readable: boolean
+  writable: boolean
+  /** Every write goes to the end of the file */
+  append: boolean
+  /** Flush after every write (O_SYNC) */
+  sync: boolean
 }
 
 /**
- * Create a FileHandle-like object for the open() method
+ * Access through a sync access handle (exclusive while the FileHandle is open)
+ */
+export function createSyncFileAccess({ access, release }: SyncAccessLease): FileAccess {
+  return {
+    getSize: async () => access.getSize(),
+    read: async (buffer, position) => access.read(buffer, { at: position }),
+    async write(data, position) {
+      let written = 0
+      while (written < data.length) {
+        written += access.write(data.subarray(written), { at: position + written })
+      }
+    },
+    truncate: async (size) => access.truncate(size),
+    flush: async () => access.flush(),
+    close: async () => release()
+  }
+}
+
+/**
+ * Access through File snapshots and a writable stream
+ * Writes collect in one writable stream and are committed before the next read,
+ * stat or sync, so the handle always reads its own writes.
+ */
+export function createStreamFileAccess(fileHandle: FileSystemFileHandle): FileAccess {
+  let writable: FileSystemWritableFileStream | null = null
+  let size = 0 // Tracked while the writable is open
+
+  const openWritable = async (): Promise<FileSystemWritableFileStream> => {
+    if (!writable) {
+      size = (await fileHandle.getFile()).size
+      writable = await fileHandle.createWritable({ keepExistingData: true })
+    }
+    return writable
+  }
+
+  const commit = async (): Promise<void> => {
+    if (writable) {
+      const stream = writable
+      writable = null
+      await stream.close()
+    }
+  }
+
+  return {
+    async getSize() {
+      return writable ? size : (await fileHandle.getFile()).size
+    },
+    async read(buffer, position) {
+      await commit()
+      const file = await fileHandle.getFile()
+      const bytes = new Uint8Array(await file.slice(position, position + buffer.length).arrayBuffer())
+      buffer.set(bytes)
+      return bytes.length
+    },
+    async write(data, position) {
+      const stream = await openWritable()
+      await stream.seek(position)
+      await stream.write(data)
+      size = Math.max(size, position + data.length)
+    },
+    async truncate(newSize) {
+      const stream = await openWritable()
+      await stream.truncate(newSize)
+      size = newSize
+    },
+    flush: commit,
+    close: commit
+  }
+}
+
+/**
+ * Read-only access to a file that lives in packed storage
+ */
+export function createPackedFileAccess(packedStorage: PackedStorage, resolvedPath: string): FileAccess {
+  return {
+    getSize: async () => (await packedStorage.getSize(resolvedPath)) ?? 0,
+    async read(buffer, position) {
+      const data = await packedStorage.readRange(resolvedPath, position, buffer.length)
+      if (!data) return 0
+      buffer.set(data)
+      return data.length
+    },
+    write: async () => {
+      throw createEBADF('write')
+    },
+    truncate: async () => {
+      throw createEBADF('ftruncate')
+    },
+    flush: async () => {},
+    close: async () => {}
+  }
+}
+
+/**
+ * Create a FileHandle for the open() method
+ * Reads and writes go straight to the held FileAccess at the requested offsets.
  */
 export function createFileHandle(
   resolvedPath: string,
-  initialPosition: number,
+  access: FileAccess,
+  options: FileHandleOptions,
   context: FileHandleContext
 ): FileHandle {
-  let position = initialPosition
+  let position = options.position
+  let closed = false
+  let modified = false
+  let heldLock: { mode: LockMode; release: () => void } | null = null
+  let pendingLock: Promise<void> = Promise.resolve() // lock() and unlock() calls run one at a time
+
+  const checkOpen = (syscall: string) => {
+    if (closed) throw createEBADF(syscall)
+  }
+
+  const checkReadable = (syscall: string) => {
+    checkOpen(syscall)
+    if (!options.readable) throw createEBADF(syscall)
+  }
+
+  const checkWritable = (syscall: string) => {
+    checkOpen(syscall)
+    if (!options.writable) throw createEBADF(syscall)
+  }
+
+  const readAll = async (): Promise<Uint8Array> => {
+    const buffer = new Uint8Array(await access.getSize())
+    const bytesRead = await access.read(buffer, 0)
+    return buffer.subarray(0, bytesRead)
+  }
+
+  const writeAt = async (data: Uint8Array, at: number): Promise<void> => {
+    modified = true
+    await access.write(data, at)
+    if (options.sync) await access.flush()
+  }
+
+  const unlock = (): void => {
+    heldLock?.release()
+    heldLock = null
+  }
+
+  // Like flock(), changing the mode releases the lock before taking the new one
+  const lock = async (mode: LockMode, ifAvailable: boolean): Promise<void> => {
+    checkOpen('flock')
+    if (heldLock?.mode === mode) return
+    unlock()
+    const release = await context.lock(resolvedPath, { mode, ifAvailable })
+    if (closed) {
+      release()
+      throw createEBADF('flock')
+    }
+    heldLock = { mode, release }
+  }
+
+  // Concurrent calls would each see no held lock, and the second would wait for the first forever
+  const serialize = <T>(fn: () => Promise<T>): Promise<T> => {
+    const result = pendingLock.then(fn)
+    pendingLock = result.then(() => {}, () => {})
+    return result
+  }
+
+  const close = async (): Promise<void> => {
+    if (closed) return
+    closed = true
+    try {
+      await access.flush()
+    } finally {
+      await access.close()
+      unlock()
+      if (modified) context.changed(resolvedPath)
+    }
+  }
 
   return {
     fd: Math.floor(Math.random() * 1000000),
@@ -27,12 +217,11 @@ export function createFileHandle(
       length = buffer.length,
       pos: number | null = null
     ): Promise<ReadResult> {
+      checkReadable('read')
       const readPos = pos !== null ? pos : position
-      const data = await context.readFile(resolvedPath) as Uint8Array
-      const bytesToRead = Math.min(length, data.length - readPos)
-      buffer.set(data.subarray(readPos, readPos + bytesToRead), offset)
-      if (pos === null) position += bytesToRead
-      return { bytesRead: bytesToRead, buffer }
+      const bytesRead = await access.read(buffer.subarray(offset, offset + length), readPos)
+      if (pos === null) position += bytesRead
+      return { bytesRead, buffer }
     },
 
     async write(
@@ -41,60 +230,84 @@ export function createFileHandle(
       length = buffer.length,
       pos: number | null = null
     ): Promise<WriteResult> {
-      const writePos = pos !== null ? pos : position
-      let existingData = new Uint8Array(0)
-
-      try {
-        existingData = await context.readFile(resolvedPath) as Uint8Array
-      } catch (e) {
-        if ((e as { code?: string }).code !== 'ENOENT') throw e
-      }
-
-      const dataToWrite = buffer.subarray(offset, offset + length)
-      const newSize = Math.max(existingData.length, writePos + length)
-      const newData = new Uint8Array(newSize)
-      newData.set(existingData, 0)
-      newData.set(dataToWrite, writePos)
-
-      await context.writeFile(resolvedPath, newData)
-      if (pos === null) position += length
+      checkWritable('write')
+      const writePos = options.append ? await access.getSize() : pos !== null ? pos : position
+      await writeAt(buffer.subarray(offset, offset + length), writePos)
+      if (pos === null || options.append) position = writePos + length
       return { bytesWritten: length, buffer }
     },
 
-    async close(): Promise<void> {
-      // No-op for OPFS
-    },
+    close,
 
     async stat(): Promise<Stats> {
-      return context.stat(resolvedPath)
+      checkOpen('fstat')
+      await access.flush()
+      const stats = await context.stat(resolvedPath)
+      return { ...stats, size: await access.getSize() }
     },
 
     async truncate(len = 0): Promise<void> {
-      return context.truncate(resolvedPath, len)
+      checkWritable('ftruncate')
+      modified = true
+      await access.truncate(len)
     },
 
     async sync(): Promise<void> {
-      // No-op for OPFS (writes are already persisted)
+      checkOpen('fsync')
+      await access.flush()
     },
 
     async datasync(): Promise<void> {
-      // No-op for OPFS
+      checkOpen('fdatasync')
+      await access.flush()
     },
 
-    async readFile(options?: ReadFileOptions): Promise<string | Uint8Array> {
-      return context.readFile(resolvedPath, options)
+    async readFile(readOptions?: ReadFileOptions): Promise<string | Uint8Array> {
+      checkReadable('read')
+      const data = await readAll()
+      return readOptions?.encoding ? new TextDecoder(readOptions.encoding).decode(data) : data
     },
 
-    async writeFile(data: string | Uint8Array, options?: WriteFileOptions): Promise<void> {
-      return context.writeFile(resolvedPath, data, options)
+    async writeFile(data: string | Uint8Array, _writeOptions?: WriteFileOptions): Promise<void> {
+      checkWritable('write')
+      const buffer = typeof data === 'string' ? new TextEncoder().encode(data) : data
+      if (options.append) {
+        await writeAt(buffer, await access.getSize())
+        return
+      }
+      await access.truncate(buffer.length)
+      await writeAt(buffer, 0)
     },
 
-    async appendFile(data: string | Uint8Array, options?: WriteFileOptions): Promise<void> {
-      return context.appendFile(resolvedPath, data, options)
+    async appendFile(data: string | Uint8Array, _appendOptions?: WriteFileOptions): Promise<void> {
+      checkWritable('write')
+      const buffer = typeof data === 'string' ? new TextEncoder().encode(data) : data
+      await writeAt(buffer, await access.getSize())
     },
 
-    [Symbol.asyncDispose]: async function(): Promise<void> {
-      // No-op for OPFS
-    }
+    lock(mode: LockMode = 'exclusive'): Promise<void> {
+      return serialize(() => lock(mode, false))
+    },
+
+    tryLock(mode: LockMode = 'exclusive'): Promise<boolean> {
+      return serialize(async () => {
+        try {
+          await lock(mode, true)
+          return true
+        } catch (err) {
+          if ((err as FSError).code === 'EBUSY') return false
+          throw err
+        }
+      })
+    },
+
+    unlock(): Promise<void> {
+      return serialize(async () => {
+        checkOpen('flock')
+        unlock()
+      })
+    },
+
+    [Symbol.asyncDispose]: close
   }
 }
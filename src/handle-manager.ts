@@ -1,5 +1,6 @@
 import { normalize, segments, dirname } from './path-utils.js'
-import { createENOENT } from './errors.js'
+import type { OPFSOptions, LockMode, LockOptions } from './types.js'
+import { createENOENT, createEBUSY } from './errors.js'
 
 export interface HandleResult {
   dir: FileSystemDirectoryHandle
@@ -16,68 +17,263 @@ export interface GetHandleOptions {
 const FILE_HANDLE_POOL_SIZE = 50
 const DIR_CACHE_MAX_SIZE = 200
 
+/** Prefix of the Web Locks names, so they don't clash with other libraries' locks */
+const WEB_LOCK_PREFIX = 'opfs-fs:'
+
+/**
+ * Options for fileLock.acquire()
+ */
+export interface AcquireOptions extends LockOptions {
+  /** Also lock across tabs and workers with navigator.locks (default: false) */
+  crossContext?: boolean
+  /** Advisory locks (fs.lock) have their own namespace, so they never block internal locks */
+  advisory?: boolean
+  /** Root directory of the instance, so instances with different roots don't share locks */
+  root?: string
+}
+
+/**
+ * Lock settings of an instance, the defaults of its HandleManager.lock() calls
+ */
+export type LockConfig = Pick<OPFSOptions, 'crossContextLocks' | 'lockTimeout'>
+
+interface LockHolder {
+  mode: LockMode
+  count: number
+}
+
+interface LockWaiter {
+  mode: LockMode
+  grant: () => void
+}
+
 /**
- * Simple in-memory lock for preventing concurrent sync access handle creation
- * within the same JavaScript context. This is needed because sync access handles
- * are exclusive per file - only one can exist at a time.
+ * Lock for preventing concurrent sync access handle creation. This is needed because
+ * sync access handles are exclusive per file - only one can exist at a time.
  *
- * Optimized for the uncontended case (no Promise creation when lock is free).
+ * Within a JavaScript context, locks are held in memory. Optimized for the uncontended
+ * case (no Promise creation when lock is free). With crossContext, the lock is then
+ * also taken with navigator.locks, so other tabs and workers wait as well.
  */
 class FileLock {
-  private active = new Set<string>()
-  private queues = new Map<string, Array<() => void>>()
+  private holders = new Map<string, LockHolder>()
+  private queues = new Map<string, LockWaiter[]>()
 
-  async acquire(path: string): Promise<() => void> {
-    if (!this.active.has(path)) {
+  async acquire(path: string, options: AcquireOptions = {}): Promise<() => void> {
+    const scoped = options.root && options.root !== '/' ? options.root + path : path
+    const key = options.advisory ? 'lock:' + scoped : scoped
+    const mode = options.mode ?? 'exclusive'
+    const timeout = options.timeout ?? 0
+    const deadline = timeout > 0 ? Date.now() + timeout : 0
+
+    await this.acquireLocal(key, mode, path, options.ifAvailable ? -1 : timeout)
+    const releaseLocal = this.createRelease(key)
+
+    if (!options.crossContext || typeof navigator === 'undefined' || !navigator.locks) {
+      return releaseLocal
+    }
+
+    // Only one waiter per path and context gets here, the others queue in memory
+    try {
+      const releaseShared = await requestWebLock(WEB_LOCK_PREFIX + key, mode, path, options.ifAvailable ? -1 : deadline)
+      return () => {
+        releaseShared()
+        releaseLocal()
+      }
+    } catch (err) {
+      releaseLocal()
+      throw err
+    }
+  }
+
+  private acquireLocal(key: string, mode: LockMode, path: string, timeout: number): Promise<void> | void {
+    const holder = this.holders.get(key)
+    if (!holder) {
       // Fast path: no contention, just mark as active
-      this.active.add(path)
-      return this.createRelease(path)
+      this.holders.set(key, { mode, count: 1 })
+      return
+    }
+    if (mode === 'shared' && holder.mode === 'shared' && !this.queues.has(key)) {
+      holder.count++
+      return
     }
 
+    // A negative timeout doesn't wait at all
+    if (timeout < 0) throw createEBUSY(path, 'lock')
+
     // Slow path: wait in queue
-    await new Promise<void>(resolve => {
-      let queue = this.queues.get(path)
+    return new Promise<void>((resolve, reject) => {
+      let queue = this.queues.get(key)
       if (!queue) {
         queue = []
-        this.queues.set(path, queue)
+        this.queues.set(key, queue)
+      }
+
+      const timer = timeout > 0
+        ? setTimeout(() => {
+          queue.splice(queue.indexOf(waiter), 1)
+          if (queue.length === 0) this.queues.delete(key)
+          // Shared waiters queued behind a timed out exclusive one may go ahead now
+          else this.grantShared(key, queue)
+          reject(createEBUSY(path, 'lock'))
+        }, timeout)
+        : null
+
+      const waiter: LockWaiter = {
+        mode,
+        grant: () => {
+          if (timer) clearTimeout(timer)
+          resolve()
+        }
       }
-      queue.push(resolve)
+      queue.push(waiter)
     })
+  }
 
-    return this.createRelease(path)
+  /**
+   * Let the shared waiters at the head of the queue join a shared holder
+   */
+  private grantShared(key: string, queue: LockWaiter[]): void {
+    const holder = this.holders.get(key)
+    if (holder?.mode !== 'shared') return
+
+    let count = 0
+    while (count < queue.length && queue[count].mode === 'shared') count++
+    if (count === 0) return
+
+    const granted = queue.splice(0, count)
+    if (queue.length === 0) this.queues.delete(key)
+    holder.count += granted.length
+    for (const waiter of granted) {
+      waiter.grant()
+    }
   }
 
-  private createRelease(path: string): () => void {
+  private createRelease(key: string): () => void {
+    let released = false
     return () => {
-      const queue = this.queues.get(path)
-      if (queue && queue.length > 0) {
-        // Pass ownership to next waiter
-        const next = queue.shift()!
-        if (queue.length === 0) {
-          this.queues.delete(path)
-        }
-        next()
-      } else {
+      if (released) return
+      released = true
+
+      const holder = this.holders.get(key)!
+      if (--holder.count > 0) return
+
+      const queue = this.queues.get(key)
+      if (!queue || queue.length === 0) {
         // No waiters, release the lock
-        this.active.delete(path)
+        this.holders.delete(key)
+        return
+      }
+
+      // Pass ownership to the next waiter, or to all shared waiters at the head of the queue
+      let count = 1
+      if (queue[0].mode === 'shared') {
+        while (count < queue.length && queue[count].mode === 'shared') count++
+      }
+      const granted = queue.splice(0, count)
+      if (queue.length === 0) {
+        this.queues.delete(key)
+      }
+      this.holders.set(key, { mode: granted[0].mode, count: granted.length })
+      for (const waiter of granted) {
+        waiter.grant()
       }
     }
   }
 }
 
+/**
+ * Take a Web Lock and keep it until the returned function is called
+ * Fails with EBUSY once the deadline (if any) has passed, or right away for a negative one.
+ */
+function requestWebLock(name: string, mode: LockMode, path: string, deadline: number): Promise<() => void> {
+  return new Promise((resolve, reject) => {
+    const ifAvailable = deadline < 0
+    const controller = deadline > 0 ? new AbortController() : null
+    const timer = controller ? setTimeout(() => controller.abort(), Math.max(0, deadline - Date.now())) : null
+    const options = ifAvailable ? { mode, ifAvailable } : { mode, signal: controller?.signal }
+
+    navigator.locks.request(name, options, (lock) => {
+      if (timer) clearTimeout(timer)
+      if (!lock) {
+        reject(createEBUSY(path, 'lock'))
+        return
+      }
+      // The lock is held until this promise settles
+      return new Promise<void>(release => resolve(() => release()))
+    }).catch(err => {
+      if (timer) clearTimeout(timer)
+      reject((err as DOMException).name === 'AbortError' ? createEBUSY(path, 'lock') : err)
+    })
+  })
+}
+
 /** Global file lock instance for sync access handle serialization */
 export const fileLock = new FileLock()
 
+/**
+ * FileSystemHandle.move() - not in every browser (or in the DOM typings) yet
+ */
+interface MovableHandle {
+  move?(destination: FileSystemDirectoryHandle, name: string): Promise<void>
+}
+
+/**
+ * Move a handle with the native move() where the browser supports it
+ * Returns false if it doesn't, so the caller can fall back to copying.
+ */
+export async function moveHandle(
+  handle: FileSystemHandle,
+  destination: FileSystemDirectoryHandle,
+  name: string
+): Promise<boolean> {
+  const movable = handle as FileSystemHandle & MovableHandle
+  if (typeof movable.move !== 'function') return false
+  await movable.move(destination, name)
+  return true
+}
+
+/**
+ * Open (and create) the directory an instance is scoped to
+ */
+async function openRoot(root: string): Promise<FileSystemDirectoryHandle> {
+  let dir = await navigator.storage.getDirectory()
+  for (const part of segments(root)) {
+    dir = await dir.getDirectoryHandle(part, { create: true })
+  }
+  return dir
+}
+
+/**
+ * A sync access handle for one operation - release() closes it unless it is still held
+ */
+export interface SyncAccessLease {
+  access: FileSystemSyncAccessHandle
+  release(): void
+}
+
+interface HeldAccess {
+  access: FileSystemSyncAccessHandle
+  holders: number
+}
+
 /**
  * Manages OPFS handles with caching for improved performance
  */
 export class HandleManager {
+  private rootPath: string
+  private lockConfig: LockConfig
   private rootPromise: Promise<FileSystemDirectoryHandle>
   private dirCache: Map<string, FileSystemDirectoryHandle> = new Map()
   private fileHandlePool: Map<string, FileSystemFileHandle> = new Map()
-
-  constructor() {
-    this.rootPromise = navigator.storage.getDirectory()
+  private heldAccess: Map<string, HeldAccess> = new Map() // Kept open by the sync API and FileHandles
+
+  constructor(root = '/', lockConfig: LockConfig = {}) {
+    this.rootPath = normalize(root)
+    this.lockConfig = lockConfig
+    this.rootPromise = openRoot(this.rootPath)
+    // Failures surface on first use, not as an unhandled rejection
+    this.rootPromise.catch(() => {})
   }
 
   /**
@@ -87,6 +283,19 @@ export class HandleManager {
     return this.rootPromise
   }
 
+  /**
+   * Lock a path of this instance (see fileLock.acquire)
+   * Uses the instance's lock settings unless options override them.
+   */
+  lock(path: string, options: AcquireOptions = {}): Promise<() => void> {
+    return fileLock.acquire(path, {
+      ...options,
+      crossContext: options.crossContext ?? this.lockConfig.crossContextLocks,
+      timeout: options.timeout ?? this.lockConfig.lockTimeout,
+      root: this.rootPath
+    })
+  }
+
   /**
    * Cache a directory handle with LRU eviction
    */
@@ -166,6 +375,60 @@ export class HandleManager {
     this.fileHandlePool.delete(normalizedPath)
   }
 
+  /**
+   * Keep a sync access handle open for a file, so sync methods can use it without awaiting
+   * Holders of the same file share one handle; it is closed when the last one releases it.
+   */
+  async holdSyncAccess(path: string, fileHandle: FileSystemFileHandle): Promise<SyncAccessLease> {
+    let held = this.heldAccess.get(path)
+    if (held) {
+      held.holders++
+    } else {
+      const access = await fileHandle.createSyncAccessHandle()
+      held = { access, holders: 1 }
+      this.heldAccess.set(path, held)
+    }
+
+    let released = false
+    return {
+      access: held.access,
+      release: () => {
+        if (released) return
+        released = true
+        this.releaseSyncAccess(path)
+      }
+    }
+  }
+
+  /**
+   * Release one hold of a sync access handle, closing it after the last one
+   */
+  releaseSyncAccess(path: string): void {
+    const held = this.heldAccess.get(path)
+    if (!held) return
+    if (--held.holders > 0) {
+      held.access.flush()
+      return
+    }
+    this.heldAccess.delete(path)
+    held.access.close()
+  }
+
+  /**
+   * Open a sync access handle for an operation
+   * A file can only have one sync access handle at a time, so a held handle (sync API,
+   * writable FileHandles) is borrowed instead of opening a second one.
+   */
+  async openSyncAccess(path: string, fileHandle: FileSystemFileHandle): Promise<SyncAccessLease> {
+    const held = this.heldAccess.get(path)?.access
+    if (held) {
+      return { access: held, release: () => held.flush() }
+    }
+
+    const access = await fileHandle.createSyncAccessHandle()
+    return { access, release: () => access.close() }
+  }
+
   /**
    * Get file or directory handle for a path
    */
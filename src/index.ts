@@ -9,31 +9,65 @@ import type {
   Stats,
   StatFs,
   RmOptions,
+  RmdirOptions,
   CpOptions,
+  MkdirOptions,
   WatchOptions,
   FSWatcher,
   ReadStreamOptions,
   WriteStreamOptions,
+  WriteStream,
   FileHandle,
   Dir,
   DiskUsage,
+  CompactResult,
   SymlinkDefinition,
   WatchCallback,
-  WatchRegistration
+  FileMetadata,
+  TreeWatchOptions,
+  TreeWatcher,
+  WatchFileOptions,
+  WatchFileListener,
+  StatWatcher,
+  Transaction,
+  LockOptions
 } from './types.js'
-import { constants, flagsToString } from './constants.js'
-import { createENOENT, createEEXIST, createEACCES, createEISDIR, wrapError } from './errors.js'
+import { constants, parseFlags } from './constants.js'
+import { FSError, createENOENT, createEEXIST, createEISDIR, createENOTDIR, createENOTEMPTY, createELOOP, createEBADF, createEINVAL, createENOTSUP, wrapError } from './errors.js'
 import { normalize, dirname, basename, join, isRoot, segments } from './path-utils.js'
-import { HandleManager } from './handle-manager.js'
+import { HandleManager, moveHandle } from './handle-manager.js'
 import { SymlinkManager } from './symlink-manager.js'
+import { MetadataManager } from './metadata-manager.js'
 import { PackedStorage } from './packed-storage.js'
-import { createFileHandle } from './file-handle.js'
-import { createReadStream, createWriteStream } from './streams.js'
+import { WatchManager } from './watch-manager.js'
+import { TransactionManager } from './transaction-manager.js'
+import { createTreeWatcher } from './tree-watcher.js'
+import { StatWatchManager } from './stat-watcher.js'
+import { SyncFileSystem } from './sync-fs.js'
+import {
+  createFileHandle,
+  createSyncFileAccess,
+  createStreamFileAccess,
+  createPackedFileAccess
+} from './file-handle.js'
+import {
+  createReadStream,
+  createWriteStream,
+  openWritableWriter,
+  openSwapWriter,
+  removeOrphanSwapFiles,
+  isSwapDir,
+  type StreamWriter
+} from './streams.js'
 import { OPFSHybrid, type OPFSHybridOptions, type Backend } from './opfs-hybrid.js'
 
 export { constants }
 export * from './types.js'
 export { OPFSHybrid, type OPFSHybridOptions, type Backend }
+export { createSyncChannel, serveSyncChannel } from './sync-bridge.js'
+export { OPFSSyncClient } from './sync-client.js'
+export { FSError } from './errors.js'
+export { createNodeFS, toNodeError, type NodeFS, type NodePromisesFS, type NodeCallback } from './node-fs.js'
 
 /** Extended options that include hybrid mode support */
 export interface OPFSExtendedOptions extends OPFSOptions {
@@ -43,6 +77,8 @@ export interface OPFSExtendedOptions extends OPFSOptions {
   read?: Backend
   /** Override write backend when using hybrid mode (default: 'worker') */
   write?: Backend
+  /** Start a new worker when the hybrid mode worker crashes (default: false) */
+  autoRestart?: boolean
 }
 
 /**
@@ -57,8 +93,15 @@ export default class OPFS {
   private verbose: boolean
   private handleManager: HandleManager
   private symlinkManager: SymlinkManager
+  private metadataManager: MetadataManager
   private packedStorage: PackedStorage
-  private watchCallbacks: Map<symbol, WatchRegistration> = new Map()
+  private transactionManager: TransactionManager
+  private watchManager: WatchManager
+  private statWatchManager = new StatWatchManager({
+    stat: (path) => this.stat(path),
+    readdir: (path) => this.readdir(path) as Promise<string[]>
+  })
+  private syncFs: SyncFileSystem | null = null // Set between prepareSync() and releaseSync()
   private tmpCounter = 0
 
   /** Hybrid instance when workerUrl is provided */
@@ -68,8 +111,22 @@ export default class OPFS {
   public readonly constants = constants
 
   constructor(options: OPFSExtendedOptions = {}) {
-    const { useSync = true, verbose = false, useCompression = false, useChecksum = true, workerUrl, read, write } = options
+    const {
+      useSync = true,
+      verbose = false,
+      useCompression = false,
+      useChecksum = true,
+      compactThreshold = 0.5,
+      crossContextLocks,
+      lockTimeout,
+      root = '/',
+      workerUrl,
+      read,
+      write,
+      autoRestart
+    } = options
     this.verbose = verbose
+    this.watchManager = new WatchManager(root)
 
     // If workerUrl is provided, use hybrid mode
     if (workerUrl) {
@@ -77,38 +134,76 @@ export default class OPFS {
         workerUrl,
         read: read ?? 'main',
         write: write ?? 'worker',
+        autoRestart,
+        crossContextLocks,
+        lockTimeout,
+        root,
         verbose
       })
       // These won't be used in hybrid mode but need to be initialized
       this.useSync = false
-      this.handleManager = new HandleManager()
+      this.handleManager = new HandleManager(root, { crossContextLocks, lockTimeout })
       this.symlinkManager = new SymlinkManager(this.handleManager, false)
-      this.packedStorage = new PackedStorage(this.handleManager, false, useCompression, useChecksum)
+      this.metadataManager = new MetadataManager(this.handleManager, false)
+      this.packedStorage = new PackedStorage(this.handleManager, false, useCompression, useChecksum, compactThreshold)
     } else {
       this.useSync = useSync && typeof FileSystemFileHandle !== 'undefined' &&
         'createSyncAccessHandle' in FileSystemFileHandle.prototype
-      this.handleManager = new HandleManager()
+      this.handleManager = new HandleManager(root, { crossContextLocks, lockTimeout })
       this.symlinkManager = new SymlinkManager(this.handleManager, this.useSync)
-      this.packedStorage = new PackedStorage(this.handleManager, this.useSync, useCompression, useChecksum)
-    }
+      this.metadataManager = new MetadataManager(this.handleManager, this.useSync)
+      this.packedStorage = new PackedStorage(this.handleManager, this.useSync, useCompression, useChecksum, compactThreshold)
+    }
+
+    // Transactions apply their changes through the public methods, so they work in hybrid mode too
+    this.transactionManager = new TransactionManager({
+      handleManager: this.handleManager,
+      useSync: this.useSync,
+      readFile: (path) => this.readFile(path) as Promise<Uint8Array>,
+      writeFile: (path, data) => this.writeFile(path, data),
+      unlink: (path) => this.unlink(path),
+      rename: (oldPath, newPath) => this.rename(oldPath, newPath),
+      symlink: (target, path) => this.symlink(target, path),
+      readlink: (path) => this.readlink(path),
+      stat: (path) => this.stat(path),
+      lstat: (path) => this.lstat(path),
+      logError: (method, err) => this.logError(method, err)
+    })
   }
 
   /**
-   * Wait for the filesystem to be ready (only needed for hybrid mode)
+   * Wait for the filesystem to be ready
+   * Needed for hybrid mode; also restores internal files from their journals,
+   * finishes transactions that were interrupted and removes swap files of write streams
+   * that were never closed.
    */
   async ready(): Promise<void> {
     if (this.hybrid) {
+      // The worker recovers the internal files before it reports ready
       await this.hybrid.ready()
+    } else {
+      await Promise.all([
+        this.symlinkManager.recover(),
+        this.metadataManager.recover(),
+        this.packedStorage.recover(),
+        removeOrphanSwapFiles(this.handleManager)
+      ])
     }
+    await this.transactionManager.recover()
   }
 
   /**
    * Terminate any background workers (only needed for hybrid mode)
+   * Also stops watchers from receiving events of other contexts.
    */
   terminate(): void {
     if (this.hybrid) {
       this.hybrid.terminate()
     }
+    this.watchManager.close()
+    this.statWatchManager.close()
+    this.syncFs?.close()
+    this.syncFs = null
   }
 
   private log(method: string, ...args: unknown[]): void {
@@ -123,6 +218,134 @@ export default class OPFS {
     }
   }
 
+  /**
+   * Build a Stats object, overlaying persisted metadata on top of OPFS defaults
+   * @param lastModified - OPFS lastModified of the file (0 when storage has none)
+   */
+  private createStats(
+    type: 'file' | 'dir' | 'symlink',
+    size: number,
+    lastModified: number,
+    meta?: FileMetadata,
+    target?: string
+  ): Stats {
+    const typeBits = type === 'file' ? constants.S_IFREG : type === 'dir' ? constants.S_IFDIR : constants.S_IFLNK
+    const defaultMode = type === 'file' ? 0o644 : type === 'dir' ? 0o755 : 0o777
+
+    // A stored mtime only applies while the content is unchanged since it was set
+    const modified = meta?.lastModified !== undefined && meta.lastModified !== lastModified
+    const mtimeMs = meta?.mtimeMs !== undefined && !modified ? meta.mtimeMs : lastModified
+    const ctimeMs = meta?.ctimeMs !== undefined ? Math.max(meta.ctimeMs, modified ? lastModified : 0) : mtimeMs
+    const atimeMs = meta?.atimeMs !== undefined && !modified ? meta.atimeMs : mtimeMs
+    const birthtimeMs = meta?.birthtimeMs ?? Math.min(ctimeMs, mtimeMs)
+
+    return {
+      type,
+      size,
+      mode: typeBits | (meta?.mode ?? defaultMode),
+      uid: meta?.uid ?? 0,
+      gid: meta?.gid ?? 0,
+      atime: new Date(atimeMs),
+      atimeMs,
+      ctime: new Date(ctimeMs),
+      ctimeMs,
+      mtime: new Date(mtimeMs),
+      mtimeMs,
+      birthtime: new Date(birthtimeMs),
+      birthtimeMs,
+      target,
+      isFile: () => type === 'file',
+      isDirectory: () => type === 'dir',
+      isSymbolicLink: () => type === 'symlink'
+    }
+  }
+
+  /**
+   * Get the OPFS lastModified of a regular file (undefined for directories and packed files)
+   */
+  private async getLastModified(resolvedPath: string): Promise<number | undefined> {
+    // Packed files may live in directories that don't exist in OPFS
+    const { fileHandle } = await this.handleManager.getHandle(resolvedPath).catch(() => ({ fileHandle: null }))
+    if (!fileHandle) return undefined
+    const file = await fileHandle.getFile()
+    return file.lastModified
+  }
+
+  /**
+   * Convert a Node-style time argument (Date or seconds since epoch) to milliseconds
+   */
+  private toTimeMs(time: Date | number): number {
+    return time instanceof Date ? time.getTime() : time * 1000
+  }
+
+  /**
+   * Move a packed file out of the pack into a standalone OPFS file
+   * Standalone files take precedence over packed entries, so the standalone copy is
+   * written before the packed entry is dropped (writeFile does the latter).
+   * Returns false if the path isn't packed.
+   */
+  private async unpack(resolvedPath: string): Promise<boolean> {
+    const data = await this.packedStorage.read(resolvedPath)
+    if (!data) return false
+
+    await this.writeStandalone(resolvedPath, data)
+    return true
+  }
+
+  /**
+   * Write a standalone OPFS file, replacing any packed copy
+   * Returns true if the file didn't exist before.
+   */
+  private async writeStandalone(resolvedPath: string, buffer: Uint8Array): Promise<boolean> {
+    let created = false
+    let { fileHandle } = await this.handleManager.getHandle(resolvedPath).catch(() => ({ fileHandle: null }))
+    if (!fileHandle) {
+      ({ fileHandle } = await this.handleManager.getHandle(resolvedPath, { create: true }))
+      created = true
+    }
+
+    if (this.useSync) {
+      const { access, release } = await this.handleManager.openSyncAccess(resolvedPath, fileHandle!)
+      try {
+        // Set exact size (more efficient than truncate(0) + write)
+        access.truncate(buffer.length)
+        access.write(buffer, { at: 0 })
+      } finally {
+        release()
+      }
+    } else {
+      const writable = await fileHandle!.createWritable()
+      await writable.write(buffer)
+      await writable.close()
+    }
+
+    // A stale packed copy must not resurface if this file is removed later
+    if (await this.packedStorage.remove(resolvedPath)) {
+      await this.metadataManager.clearTimes(resolvedPath)
+      created = false
+    }
+    return created
+  }
+
+  /**
+   * Remove the standalone OPFS file at a path (if any) so a packed entry becomes visible
+   * Returns true if there was one.
+   */
+  private async removeStandalone(resolvedPath: string): Promise<boolean> {
+    let result
+    try {
+      result = await this.handleManager.getHandle(resolvedPath)
+    } catch {
+      return false // Parent directory doesn't exist, so neither does the file
+    }
+
+    if (!result.fileHandle) return false
+
+    this.handleManager.clearCache(resolvedPath)
+    await result.dir!.removeEntry(result.name!)
+    return true
+  }
+
   /**
    * Execute tasks with limited concurrency to avoid overwhelming the system
    * @param items - Array of items to process
@@ -187,13 +410,13 @@ export default class OPFS {
         let buffer: Uint8Array
 
         if (this.useSync) {
-          const access = await fileHandle.createSyncAccessHandle()
+          const { access, release } = await this.handleManager.openSyncAccess(resolvedPath, fileHandle)
           try {
             const size = access.getSize()
             buffer = new Uint8Array(size)
-            access.read(buffer)
+            access.read(buffer, { at: 0 })
           } finally {
-            access.close()
+            release()
           }
         } else {
           const file = await fileHandle.getFile()
@@ -216,7 +439,55 @@ export default class OPFS {
       throw createENOENT(path)
     } catch (err) {
       this.logError('readFile', err)
-      throw wrapError(err)
+      throw await this.nodeError(err, path, 'open', 'file')
+    }
+  }
+
+  /**
+   * Read a byte range of a file without loading the rest of it
+   * Returns fewer bytes than requested at the end of the file
+   */
+  async readRange(path: string, position: number, length: number): Promise<Uint8Array> {
+    if (this.hybrid) {
+      return this.hybrid.readRange(path, position, length)
+    }
+
+    this.log('readRange', path, position, length)
+    try {
+      const normalizedPath = normalize(path)
+      const resolvedPath = await this.symlinkManager.resolve(normalizedPath)
+
+      let fileHandle: FileSystemFileHandle | null = null
+      try {
+        fileHandle = await this.handleManager.getPooledFileHandle(resolvedPath)
+      } catch {
+        // File doesn't exist as individual file, will try packed storage
+      }
+
+      if (fileHandle) {
+        if (this.useSync) {
+          const { access, release } = await this.handleManager.openSyncAccess(resolvedPath, fileHandle)
+          try {
+            const available = Math.max(0, access.getSize() - position)
+            const buffer = new Uint8Array(Math.min(length, available))
+            access.read(buffer, { at: position })
+            return buffer
+          } finally {
+            release()
+          }
+        }
+
+        const file = await fileHandle.getFile()
+        return new Uint8Array(await file.slice(position, position + length).arrayBuffer())
+      }
+
+      const packedData = await this.packedStorage.readRange(resolvedPath, position, length)
+      if (packedData) return packedData
+
+      throw createENOENT(path)
+    } catch (err) {
+      this.logError('readRange', err)
+      throw await this.nodeError(err, path, 'open', 'file')
     }
   }
 
@@ -272,13 +543,13 @@ export default class OPFS {
 
               let buffer: Uint8Array
               if (this.useSync) {
-                const access = await fileHandle.createSyncAccessHandle()
+                const { access, release } = await this.handleManager.openSyncAccess(resolvedPath, fileHandle)
                 try {
                   const size = access.getSize()
                   buffer = new Uint8Array(size)
-                  access.read(buffer)
+                  access.read(buffer, { at: 0 })
                 } finally {
-                  access.close()
+                  release()
                 }
               } else {
                 const file = await fileHandle.getFile()
@@ -311,27 +582,13 @@ export default class OPFS {
     try {
       const normalizedPath = normalize(path)
       const resolvedPath = await this.symlinkManager.resolve(normalizedPath)
-
-      const { fileHandle } = await this.handleManager.getHandle(resolvedPath, { create: true })
       const buffer = typeof data === 'string' ? new TextEncoder().encode(data) : data
 
-      if (this.useSync) {
-        const access = await fileHandle!.createSyncAccessHandle()
-        try {
-          // Set exact size (more efficient than truncate(0) + write)
-          access.truncate(buffer.length)
-          access.write(buffer, { at: 0 })
-        } finally {
-          access.close()
-        }
-      } else {
-        const writable = await fileHandle!.createWritable()
-        await writable.write(buffer)
-        await writable.close()
-      }
+      const created = await this.writeStandalone(resolvedPath, buffer)
+      this.watchManager.emit(created ? 'rename' : 'change', resolvedPath)
     } catch (err) {
       this.logError('writeFile', err)
-      throw wrapError(err)
+      throw await this.nodeError(err, path, 'open', 'file')
     }
   }
 
@@ -364,7 +621,17 @@ export default class OPFS {
       )
 
       // Write all files to packed storage (single OPFS write!)
-      await this.packedStorage.writeBatch(packEntries)
+      const existing = new Set(await this.packedStorage.writeBatch(packEntries))
+      // Standalone files take precedence over packed entries, so drop any older copies
+      await this.limitConcurrency(packEntries, 10, async ({ path }) => {
+        if (await this.removeStandalone(path)) existing.add(path)
+      })
+      // Packed files have no lastModified, so explicit mtimes must be bumped manually
+      await this.metadataManager.touch(packEntries.map(({ path }) => path))
+
+      for (const path of new Set(packEntries.map(({ path }) => path))) {
+        this.watchManager.emit(existing.has(path) ? 'change' : 'rename', path)
+      }
     } catch (err) {
       this.logError('writeFileBatch', err)
       throw wrapError(err)
@@ -373,35 +640,93 @@ export default class OPFS {
 
   /**
    * Create a directory
+   * Like Node.js, fails with ENOENT when the parent is missing and EEXIST when the path
+   * exists, unless `recursive` is set. With `recursive`, returns the first directory
+   * that was created (undefined if it already existed). A number is taken as the mode.
    */
-  async mkdir(path: string): Promise<void> {
+  async mkdir(path: string, options?: MkdirOptions | number): Promise<string | undefined> {
     if (this.hybrid) {
-      return this.hybrid.mkdir(path)
+      return this.hybrid.mkdir(path, options)
     }
 
-    this.log('mkdir', path)
+    const { recursive = false, mode } = typeof options === 'number' ? { mode: options } : options ?? {}
+    this.log('mkdir', path, options)
     try {
-      await this.handleManager.mkdir(path)
+      const normalizedPath = normalize(path)
+
+      // Walk up to the closest existing ancestor, collecting the directories to create
+      const missing: string[] = []
+      let ancestor: Stats | null = null
+      let current = normalizedPath
+      while (!ancestor) {
+        ancestor = await this.statPath(current).catch(err => {
+          const { code } = wrapError(err)
+          if (code !== 'ENOENT' && code !== 'ENOTDIR') throw err
+          return null
+        })
+        if (ancestor) break
+
+        // A dangling symlink is still an entry
+        if (await this.symlinkManager.isSymlink(current)) {
+          throw current === normalizedPath ? createEEXIST(path, 'mkdir') : createENOENT(path, 'mkdir')
+        }
+        missing.unshift(current)
+        current = dirname(current)
+      }
+
+      if (missing.length === 0) {
+        if (recursive && ancestor.isDirectory()) return undefined
+        throw createEEXIST(path, 'mkdir')
+      }
+      if (!ancestor.isDirectory()) {
+        throw createENOTDIR(path, 'mkdir')
+      }
+      if (!recursive && missing.length > 1) {
+        throw createENOENT(path, 'mkdir')
+      }
+
+      // Create below the ancestor's real location in case it's a symlink
+      const base = await this.symlinkManager.resolve(current)
+      const created = missing.map(dir => join(base, dir.slice(current.length)))
+      await this.handleManager.mkdir(created[created.length - 1])
+      if (mode !== undefined) {
+        const now = Date.now()
+        for (const dir of created) {
+          await this.metadataManager.set(dir, { mode: mode & 0o7777 }, now)
+        }
+      }
+      for (const dir of created) {
+        this.watchManager.emit('rename', dir)
+      }
+      return recursive ? missing[0] : undefined
     } catch (err) {
       this.logError('mkdir', err)
-      throw wrapError(err)
+      throw await this.nodeError(err, path, 'mkdir', 'dir')
     }
   }
 
   /**
    * Remove a directory
+   * Like Node.js, fails with ENOTEMPTY when the directory has entries unless `recursive`
+   * is set, and with ENOTDIR for files and symlinks. Symlinks, packed files and metadata
+   * below a removed directory are removed with it.
    */
-  async rmdir(path: string): Promise<void> {
+  async rmdir(path: string, options: RmdirOptions = {}): Promise<void> {
     if (this.hybrid) {
-      return this.hybrid.rmdir(path)
+      return this.hybrid.rmdir(path, options)
     }
 
-    this.log('rmdir', path)
+    const { recursive = false } = options
+    this.log('rmdir', path, options)
     try {
       const normalizedPath = normalize(path)
       this.handleManager.clearCache(normalizedPath)
 
       if (isRoot(normalizedPath)) {
+        const visible = await this.readdir('/') as string[]
+        if (!recursive && visible.length > 0) {
+          throw createENOTEMPTY(path)
+        }
         const root = await this.handleManager.getRoot()
         const entries: string[] = []
         for await (const [name] of root.entries()) {
@@ -412,26 +737,50 @@ export default class OPFS {
         )
         // Reset all storage state since all files including metadata are gone
         this.symlinkManager.reset()
+        this.metadataManager.reset()
         this.packedStorage.reset()
+        for (const name of visible) {
+          this.watchManager.emit('rename', '/' + name)
+        }
         return
       }
 
-      const pathSegments = segments(normalizedPath)
-      const name = pathSegments.pop()!
-      let dir = await this.handleManager.getRoot()
-
-      for (const part of pathSegments) {
-        dir = await dir.getDirectoryHandle(part)
+      const stats = await this.lstat(normalizedPath)
+      if (!stats.isDirectory()) {
+        throw createENOTDIR(path, 'rmdir')
+      }
+      if (!recursive && (await this.readdir(normalizedPath) as string[]).length > 0) {
+        throw createENOTEMPTY(path)
       }
 
+      // Remove at the directory's real location in case a parent is a symlink
+      const dirPath = join(await this.symlinkManager.resolve(dirname(normalizedPath)), basename(normalizedPath))
+      const pathSegments = segments(dirPath)
+      const name = pathSegments.pop()!
+
+      let dir: FileSystemDirectoryHandle | null = await this.handleManager.getRoot()
       try {
-        await dir.removeEntry(name, { recursive: true })
+        for (const part of pathSegments) {
+          dir = await dir.getDirectoryHandle(part)
+        }
       } catch {
-        throw createENOENT(path)
+        // No OPFS directory - it only exists virtually through packed files
+        dir = null
+      }
+      if (dir) {
+        await dir.removeEntry(name, { recursive }).catch(err => {
+          if (wrapError(err).code !== 'ENOENT') throw err
+        })
       }
+
+      // Packed files and symlinks below the directory aren't OPFS entries
+      await this.packedStorage.removeTree(dirPath)
+      await this.symlinkManager.removeTree(dirPath)
+      await this.metadataManager.remove(dirPath)
+      this.watchManager.emit('rename', dirPath)
     } catch (err) {
       this.logError('rmdir', err)
-      throw wrapError(err)
+      throw await this.nodeError(err, path, 'rmdir', 'dir')
     }
   }
 
@@ -452,6 +801,8 @@ export default class OPFS {
       const isSymlink = await this.symlinkManager.isSymlink(normalizedPath)
       if (isSymlink) {
         await this.symlinkManager.unlink(normalizedPath)
+        await this.metadataManager.remove(normalizedPath)
+        this.watchManager.emit('rename', normalizedPath)
         return
       }
 
@@ -459,6 +810,8 @@ export default class OPFS {
       const inPack = await this.packedStorage.has(normalizedPath)
       if (inPack) {
         await this.packedStorage.remove(normalizedPath)
+        await this.metadataManager.remove(normalizedPath)
+        this.watchManager.emit('rename', normalizedPath)
         return
       }
 
@@ -471,9 +824,12 @@ export default class OPFS {
       } catch {
         throw createENOENT(path)
       }
+
+      await this.metadataManager.remove(normalizedPath)
+      this.watchManager.emit('rename', normalizedPath)
     } catch (err) {
       this.logError('unlink', err)
-      throw wrapError(err)
+      throw await this.nodeError(err, path, 'unlink', 'file')
     }
   }
 
@@ -490,7 +846,16 @@ export default class OPFS {
       const normalizedPath = normalize(path)
       const resolvedPath = await this.symlinkManager.resolve(normalizedPath)
 
-      const dir = await this.handleManager.getDirectoryHandle(resolvedPath)
+      // Directories holding only packed files have no OPFS handle
+      const [dirResult, packedEntries] = await Promise.all([
+        this.handleManager.getDirectoryHandle(resolvedPath).then(
+          (handle) => ({ handle, error: null }),
+          (error: unknown) => ({ handle: null, error })
+        ),
+        this.packedStorage.readdir(resolvedPath)
+      ])
+      if (!dirResult.handle && packedEntries.size === 0) throw dirResult.error
+
       const withFileTypes = options?.withFileTypes === true
 
       // Pre-fetch symlinks only once - skip if no symlinks exist (common case)
@@ -502,8 +867,14 @@ export default class OPFS {
       const entryNames = new Set<string>()
       const entries: (string | Dirent)[] = []
 
-      for await (const [name, handle] of dir.entries()) {
-        if (this.symlinkManager.isMetadataFile(name)) continue
+      for await (const [name, handle] of dirResult.handle?.entries() ?? []) {
+        if (
+          this.symlinkManager.isMetadataFile(name) ||
+          this.metadataManager.isMetadataFile(name) ||
+          this.packedStorage.isPackFile(name) ||
+          this.transactionManager.isTransactionDir(name) ||
+          isSwapDir(name)
+        ) continue
 
         entryNames.add(name)
 
@@ -521,6 +892,24 @@ export default class OPFS {
         }
       }
 
+      // Add packed files and the virtual directories above them
+      for (const [name, isDirectory] of packedEntries) {
+        if (entryNames.has(name)) continue
+        entryNames.add(name)
+
+        if (withFileTypes) {
+          const isSymlink = hasSymlinks && symlinkSet!.has(name)
+          entries.push({
+            name,
+            isFile: () => !isSymlink && !isDirectory,
+            isDirectory: () => !isSymlink && isDirectory,
+            isSymbolicLink: () => isSymlink
+          })
+        } else {
+          entries.push(name)
+        }
+      }
+
       // Add symlinks that don't have corresponding OPFS entries (only if there are symlinks)
       if (hasSymlinks) {
         for (const name of symlinksInDir) {
@@ -542,7 +931,7 @@ export default class OPFS {
       return entries as string[] | Dirent[]
     } catch (err) {
       this.logError('readdir', err)
-      throw wrapError(err)
+      throw await this.nodeError(err, path, 'scandir', 'dir')
     }
   }
 
@@ -556,99 +945,113 @@ export default class OPFS {
 
     this.log('stat', path)
     try {
-      const normalizedPath = normalize(path)
-      const resolvedPath = await this.symlinkManager.resolve(normalizedPath)
-      const defaultDate = new Date(0)
-
-      if (isRoot(resolvedPath)) {
-        return {
-          type: 'dir',
-          size: 0,
-          mode: 0o040755,
-          ctime: defaultDate,
-          ctimeMs: 0,
-          mtime: defaultDate,
-          mtimeMs: 0,
-          isFile: () => false,
-          isDirectory: () => true,
-          isSymbolicLink: () => false
-        }
-      }
+      return await this.statPath(path)
+    } catch (err) {
+      this.logError('stat', err)
+      throw await this.nodeError(err, path, 'stat')
+    }
+  }
 
-      const pathSegments = segments(resolvedPath)
-      const name = pathSegments.pop()!
-      let dir = await this.handleManager.getRoot()
+  private async statPath(path: string): Promise<Stats> {
+    const normalizedPath = normalize(path)
+    const resolvedPath = await this.symlinkManager.resolve(normalizedPath)
 
-      for (const part of pathSegments) {
-        try {
-          dir = await dir.getDirectoryHandle(part)
-        } catch {
-          throw createENOENT(path)
-        }
-      }
+    if (isRoot(resolvedPath)) {
+      return this.createStats('dir', 0, 0, await this.metadataManager.get('/'))
+    }
 
-      // Check both file and directory in parallel for best performance
-      const [fileResult, dirResult] = await Promise.allSettled([
-        dir.getFileHandle(name),
-        dir.getDirectoryHandle(name)
-      ])
+    const pathSegments = segments(resolvedPath)
+    const name = pathSegments.pop()!
+    let dir = await this.handleManager.getRoot()
 
-      if (fileResult.status === 'fulfilled') {
-        const fileHandle = fileResult.value
-        const file = await fileHandle.getFile()
-        const mtime = file.lastModified ? new Date(file.lastModified) : defaultDate
-
-        return {
-          type: 'file',
-          size: file.size,
-          mode: 0o100644,
-          ctime: mtime,
-          ctimeMs: mtime.getTime(),
-          mtime,
-          mtimeMs: mtime.getTime(),
-          isFile: () => true,
-          isDirectory: () => false,
-          isSymbolicLink: () => false
-        }
+    for (const part of pathSegments) {
+      try {
+        dir = await dir.getDirectoryHandle(part)
+      } catch {
+        // Parent only exists virtually if the path was written with writeFileBatch
+        return await this.statPacked(resolvedPath, path)
       }
+    }
 
-      if (dirResult.status === 'fulfilled') {
-        return {
-          type: 'dir',
-          size: 0,
-          mode: 0o040755,
-          ctime: defaultDate,
-          ctimeMs: 0,
-          mtime: defaultDate,
-          mtimeMs: 0,
-          isFile: () => false,
-          isDirectory: () => true,
-          isSymbolicLink: () => false
-        }
-      }
+    // Check both file and directory in parallel for best performance
+    const [fileResult, dirResult] = await Promise.allSettled([
+      dir.getFileHandle(name),
+      dir.getDirectoryHandle(name)
+    ])
 
-      // Check packed storage as fallback
-      const packedSize = await this.packedStorage.getSize(resolvedPath)
-      if (packedSize !== null) {
-        return {
-          type: 'file',
-          size: packedSize,
-          mode: 0o100644,
-          ctime: defaultDate,
-          ctimeMs: 0,
-          mtime: defaultDate,
-          mtimeMs: 0,
-          isFile: () => true,
-          isDirectory: () => false,
-          isSymbolicLink: () => false
-        }
+    if (fileResult.status === 'fulfilled') {
+      const fileHandle = fileResult.value
+      const file = await fileHandle.getFile()
+      return this.createStats('file', file.size, file.lastModified || 0, await this.metadataManager.get(resolvedPath))
+    }
+
+    if (dirResult.status === 'fulfilled') {
+      return this.createStats('dir', 0, 0, await this.metadataManager.get(resolvedPath))
+    }
+
+    // Check packed storage as fallback
+    return await this.statPacked(resolvedPath, path)
+  }
+
+  /**
+   * Turn an error into the one Node.js raises for the path
+   * OPFS lookups fail with NotFoundError or TypeMismatchError (or our ENOENT) whatever
+   * the cause, so these are refined by inspecting the path: ENOTDIR when an ancestor
+   * is a file, EISDIR when a directory was found where a file was expected, ENOTDIR
+   * for the opposite and ENOENT when something is missing.
+   */
+  private async nodeError(err: unknown, path: string, syscall: string, expected?: 'file' | 'dir'): Promise<FSError> {
+    const ownPath = !(err instanceof FSError) || err.path === undefined || err.path === path
+    const error = wrapError(err, { path, syscall })
+    if (!ownPath || (error.code !== 'ENOENT' && error.code !== 'ENOTDIR')) return error
+
+    const code = await this.diagnose(path, expected).catch(() => null)
+    const refined = code === 'ENOENT' ? createENOENT(path, syscall)
+      : code === 'ENOTDIR' ? createENOTDIR(path, syscall)
+      : code === 'EISDIR' ? createEISDIR(path, syscall)
+      : null
+    if (!refined) return error
+
+    refined.original = error.original
+    return refined
+  }
+
+  /**
+   * Find out why a path can't be used as the expected kind (null if it can)
+   */
+  private async diagnose(path: string, expected?: 'file' | 'dir'): Promise<'ENOENT' | 'ENOTDIR' | 'EISDIR' | null> {
+    const parts = segments(normalize(path))
+    for (let i = 1; i <= parts.length; i++) {
+      const kind = await this.statPath('/' + parts.slice(0, i).join('/')).then(
+        stats => stats.isDirectory() ? 'dir' : 'file',
+        () => null
+      )
+      if (kind === null) return 'ENOENT'
+      if (i < parts.length) {
+        if (kind === 'file') return 'ENOTDIR'
+      } else if (kind === 'dir' && expected === 'file') {
+        return 'EISDIR'
+      } else if (kind === 'file' && expected === 'dir') {
+        return 'ENOTDIR'
       }
+    }
+    return null
+  }
 
-      throw createENOENT(path)
-    } catch (err) {
-      this.logError('stat', err)
-      throw wrapError(err)
+  /**
+   * Stat a packed file, or a directory that only exists because packed files live below it
+   */
+  private async statPacked(resolvedPath: string, path: string): Promise<Stats> {
+    const packedSize = await this.packedStorage.getSize(resolvedPath)
+    if (packedSize !== null) {
+      return this.createStats('file', packedSize, 0, await this.metadataManager.get(resolvedPath))
     }
+
+    if (await this.packedStorage.isDirectory(resolvedPath)) {
+      return this.createStats('dir', 0, 0, await this.metadataManager.get(resolvedPath))
+    }
+
+    throw createENOENT(path)
   }
 
   /**
@@ -666,25 +1069,14 @@ export default class OPFS {
 
       if (isSymlink) {
         const target = await this.symlinkManager.readlink(normalizedPath)
-        return {
-          type: 'symlink',
-          target,
-          size: target.length,
-          mode: 0o120777,
-          ctime: new Date(0),
-          ctimeMs: 0,
-          mtime: new Date(0),
-          mtimeMs: 0,
-          isFile: () => false,
-          isDirectory: () => false,
-          isSymbolicLink: () => true
-        }
+        const meta = await this.metadataManager.get(normalizedPath)
+        return this.createStats('symlink', target.length, 0, meta, target)
       }
 
-      return this.stat(path)
+      return await this.statPath(path)
     } catch (err) {
       this.logError('lstat', err)
-      throw wrapError(err)
+      throw await this.nodeError(err, path, 'lstat')
     }
   }
 
@@ -701,36 +1093,133 @@ export default class OPFS {
       const normalizedOld = normalize(oldPath)
       const normalizedNew = normalize(newPath)
 
+      // Like Node.js, renaming an existing entry onto itself does nothing
+      if (normalizedOld === normalizedNew) {
+        await this.lstat(oldPath)
+        return
+      }
+
       this.handleManager.clearCache(normalizedOld)
       this.handleManager.clearCache(normalizedNew)
 
       // Handle symlink rename
       const renamed = await this.symlinkManager.rename(normalizedOld, normalizedNew)
-      if (renamed) return
+      if (renamed) {
+        await this.metadataManager.rename(normalizedOld, normalizedNew)
+        this.watchManager.emit('rename', normalizedOld)
+        this.watchManager.emit('rename', normalizedNew)
+        return
+      }
+
+      const stat = await this.statPath(normalizedOld)
+
+      if (stat.isDirectory() && normalizedNew.startsWith(normalizedOld + '/')) {
+        throw createEINVAL(newPath, 'rename')
+      }
 
-      const stat = await this.stat(normalizedOld)
+      // Like Node.js, only a destination of the same kind is replaced, and a directory only if it's empty
+      const destStats = await this.symlinkManager.isSymlink(normalizedNew)
+        ? null
+        : await this.statPath(normalizedNew).catch(() => null)
+      if (destStats) {
+        if (stat.isDirectory() && !destStats.isDirectory()) throw createENOTDIR(newPath, 'rename')
+        if (!stat.isDirectory() && destStats.isDirectory()) throw createEISDIR(newPath, 'rename')
+        if (destStats.isDirectory()) {
+          if ((await this.readdir(normalizedNew)).length > 0) throw createENOTEMPTY(newPath, 'rename')
+          await this.rmdir(normalizedNew)
+        }
+      }
+
+      // A symlink at the destination is replaced, not written through
+      if (stat.isFile()) {
+        await this.symlinkManager.unlink(normalizedNew)
+      }
+
+      // The copy fallback emits through the writes and removals it is made of
+      if (await this.renameNative(normalizedOld, normalizedNew, stat.isDirectory())) {
+        this.watchManager.emit('rename', normalizedOld)
+        this.watchManager.emit('rename', normalizedNew)
+        return
+      }
 
       if (stat.isFile()) {
         // Run readFile and ensureParentDir in parallel (no dependency)
-        const [data] = await Promise.all([
+        const [data, previousLastModified] = await Promise.all([
           this.readFile(normalizedOld),
+          this.getLastModified(normalizedOld),
           this.handleManager.ensureParentDir(normalizedNew)
         ])
+        // Packed files are moved out of the pack (writeFile always creates a standalone file)
         await this.writeFile(normalizedNew, data as Uint8Array)
+        // Move metadata before unlink so it isn't discarded with the old path
+        await this.metadataManager.rename(
+          normalizedOld,
+          normalizedNew,
+          await this.getLastModified(normalizedNew),
+          previousLastModified
+        )
         await this.unlink(normalizedOld)
       } else if (stat.isDirectory()) {
-        await this.mkdir(normalizedNew)
+        await this.mkdir(normalizedNew, { recursive: true })
         const entries = await this.readdir(normalizedOld) as string[]
         // Use concurrency limiter to avoid Promise overhead for small batches
         await this.limitConcurrency(entries, 10, entry =>
           this.rename(`${normalizedOld}/${entry}`, `${normalizedNew}/${entry}`)
         )
-        await this.rmdir(normalizedOld)
+        await this.metadataManager.rename(normalizedOld, normalizedNew)
+        // A directory holding only packed files is already gone once they have moved
+        await this.rm(normalizedOld, { recursive: true, force: true })
       }
     } catch (err) {
       this.logError('rename', err)
-      throw wrapError(err)
+      throw await this.nodeError(err, oldPath, 'rename')
+    }
+  }
+
+  /**
+   * Rename with the native FileSystemHandle.move()
+   * The move is O(1), keeps lastModified and replaces an existing file in one step.
+   * Returns false if the copy fallback is needed: no move() support, a packed or
+   * virtual source, or a destination that move() can't replace.
+   */
+  private async renameNative(oldPath: string, newPath: string, isDirectory: boolean): Promise<boolean> {
+    // A missing parent means the source only exists in the pack
+    const { fileHandle, dirHandle } = await this.handleManager
+      .getHandle(oldPath, { kind: isDirectory ? 'directory' : 'file' })
+      .catch(() => ({ fileHandle: null, dirHandle: null }))
+    const handle = isDirectory ? dirHandle : fileHandle
+    if (!handle || !('move' in handle)) return false
+
+    // Directories aren't merged into an existing one, and nothing replaces a directory
+    let replacesFile = false
+    try {
+      const destStat = await this.stat(newPath)
+      if (isDirectory || destStat.isDirectory()) return false
+      replacesFile = true
+    } catch {
+      // Destination doesn't exist
+    }
+
+    await this.handleManager.ensureParentDir(newPath)
+    const { dir, name } = await this.handleManager.getHandle(newPath)
+    if (!await moveHandle(handle, dir, name)) return false
+
+    this.handleManager.clearCache(oldPath)
+    this.handleManager.clearCache(newPath)
+
+    if (isDirectory) {
+      // Packed files and symlinks are keyed by path, so they move separately
+      await this.packedStorage.renameTree(oldPath, newPath)
+      await this.symlinkManager.renameTree(oldPath, newPath)
+    } else if (replacesFile) {
+      // The standalone file now shadows any packed copy, so drop it with the replaced metadata
+      await this.packedStorage.remove(newPath)
+      await this.metadataManager.remove(newPath)
     }
+
+    // lastModified survives the move, so mtime snapshots stay valid
+    await this.metadataManager.rename(oldPath, newPath)
+    return true
   }
 
   /**
@@ -746,16 +1235,16 @@ export default class OPFS {
       const normalizedPath = normalize(path)
       this.handleManager.clearCache(normalizedPath)
 
-      // Fast existence check - just try to get handle, much faster than full stat()
+      // Files, directories and packed files all count as existing
       await this.symlinkManager.symlink(target, path, async () => {
-        const { fileHandle, dirHandle } = await this.handleManager.getHandle(normalizedPath)
-        if (fileHandle || dirHandle) {
-          throw createEEXIST(path)
+        if (await this.statPath(normalizedPath).then(() => true, () => false)) {
+          throw createEEXIST(path, 'symlink')
         }
       })
+      this.watchManager.emit('rename', normalizedPath)
     } catch (err) {
       this.logError('symlink', err)
-      throw wrapError(err)
+      throw await this.nodeError(err, path, 'symlink')
     }
   }
 
@@ -772,7 +1261,11 @@ export default class OPFS {
       return await this.symlinkManager.readlink(path)
     } catch (err) {
       this.logError('readlink', err)
-      throw wrapError(err)
+      // Only paths that exist but aren't symlinks are EINVAL
+      if ((err as FSError).code === 'EINVAL' && !await this.exists(path)) {
+        throw await this.nodeError(createENOENT(path, 'readlink'), path, 'readlink')
+      }
+      throw wrapError(err, { path, syscall: 'readlink' })
     }
   }
 
@@ -804,6 +1297,9 @@ export default class OPFS {
           throw err
         }
       })
+      for (const { path } of links) {
+        this.watchManager.emit('rename', normalize(path))
+      }
     } catch (err) {
       this.logError('symlinkBatch', err)
       throw wrapError(err)
@@ -820,12 +1316,11 @@ export default class OPFS {
 
     this.log('access', path, mode)
     try {
-      const normalizedPath = normalize(path)
-      await this.stat(normalizedPath)
+      await this.statPath(path)
       // OPFS doesn't have permissions, existence check is enough
     } catch (err) {
       this.logError('access', err)
-      throw createEACCES(path)
+      throw await this.nodeError(err, path, 'access')
     }
   }
 
@@ -861,7 +1356,7 @@ export default class OPFS {
       await this.writeFile(resolvedPath, combined, options)
     } catch (err) {
       this.logError('appendFile', err)
-      throw wrapError(err)
+      throw await this.nodeError(err, path, 'open', 'file')
     }
   }
 
@@ -895,9 +1390,10 @@ export default class OPFS {
         this.handleManager.ensureParentDir(normalizedDest)
       ])
       await this.writeFile(normalizedDest, data as Uint8Array)
+      await this.metadataManager.copy(resolvedSrc, await this.symlinkManager.resolve(normalizedDest))
     } catch (err) {
       this.logError('copyFile', err)
-      throw wrapError(err)
+      throw await this.nodeError(err, src, 'copyfile', 'file')
     }
   }
 
@@ -919,7 +1415,7 @@ export default class OPFS {
 
       if (srcStat.isDirectory()) {
         if (!recursive) {
-          throw createEISDIR(src)
+          throw createEISDIR(src, 'cp')
         }
 
         let destExists = false
@@ -934,7 +1430,11 @@ export default class OPFS {
         }
 
         if (!destExists) {
-          await this.mkdir(normalizedDest)
+          await this.mkdir(normalizedDest, { recursive: true })
+          await this.metadataManager.copy(
+            await this.symlinkManager.resolve(normalizedSrc),
+            await this.symlinkManager.resolve(normalizedDest)
+          )
         }
 
         const entries = await this.readdir(normalizedSrc) as string[]
@@ -955,7 +1455,7 @@ export default class OPFS {
       }
     } catch (err) {
       this.logError('cp', err)
-      throw wrapError(err)
+      throw wrapError(err, { path: src, syscall: 'cp' })
     }
   }
 
@@ -985,8 +1485,14 @@ export default class OPFS {
     }
 
     this.log('realpath', path)
-    const normalizedPath = normalize(path)
-    return this.symlinkManager.resolve(normalizedPath)
+    try {
+      const resolvedPath = await this.symlinkManager.resolve(normalize(path))
+      await this.statPath(resolvedPath)
+      return resolvedPath
+    } catch (err) {
+      this.logError('realpath', err)
+      throw await this.nodeError(err, path, 'realpath')
+    }
   }
 
   /**
@@ -1009,9 +1515,9 @@ export default class OPFS {
           await this.unlink(normalizedPath)
         } else if (stat.isDirectory()) {
           if (!recursive) {
-            throw createEISDIR(path)
+            throw createEISDIR(path, 'rm')
           }
-          await this.rmdir(normalizedPath)
+          await this.rmdir(normalizedPath, { recursive: true })
         } else {
           await this.unlink(normalizedPath)
         }
@@ -1023,7 +1529,7 @@ export default class OPFS {
       }
     } catch (err) {
       this.logError('rm', err)
-      throw wrapError(err)
+      throw await this.nodeError(err, path, 'rm')
     }
   }
 
@@ -1041,15 +1547,18 @@ export default class OPFS {
       const resolvedPath = await this.symlinkManager.resolve(normalizedPath)
       this.handleManager.clearCache(resolvedPath)
 
-      const { fileHandle } = await this.handleManager.getHandle(resolvedPath)
+      let { fileHandle } = await this.handleManager.getHandle(resolvedPath)
+      if (!fileHandle && await this.unpack(resolvedPath)) {
+        ({ fileHandle } = await this.handleManager.getHandle(resolvedPath))
+      }
       if (!fileHandle) throw createENOENT(path)
 
       if (this.useSync) {
-        const access = await fileHandle.createSyncAccessHandle()
+        const { access, release } = await this.handleManager.openSyncAccess(resolvedPath, fileHandle)
         try {
           access.truncate(len)
         } finally {
-          access.close()
+          release()
         }
       } else {
         const file = await fileHandle.getFile()
@@ -1068,9 +1577,11 @@ export default class OPFS {
         await writable.write(finalData)
         await writable.close()
       }
+
+      this.watchManager.emit('change', resolvedPath)
     } catch (err) {
       this.logError('truncate', err)
-      throw wrapError(err)
+      throw await this.nodeError(err, path, 'open', 'file')
     }
   }
 
@@ -1087,16 +1598,16 @@ export default class OPFS {
       const normalizedPrefix = normalize(prefix)
       const suffix = `${Date.now()}-${++this.tmpCounter}-${Math.random().toString(36).slice(2, 8)}`
       const path = `${normalizedPrefix}${suffix}`
-      await this.mkdir(path)
+      await this.mkdir(path, { recursive: true })
       return path
     } catch (err) {
       this.logError('mkdtemp', err)
-      throw wrapError(err)
+      throw wrapError(err, { path: prefix, syscall: 'mkdtemp' })
     }
   }
 
   /**
-   * Change file mode (no-op for OPFS compatibility)
+   * Change file mode (persisted in the metadata file)
    */
   async chmod(path: string, mode: number): Promise<void> {
     if (this.hybrid) {
@@ -1104,12 +1615,19 @@ export default class OPFS {
     }
 
     this.log('chmod', path, mode)
-    await this.stat(normalize(path))
-    // OPFS doesn't support file modes
+    try {
+      const resolvedPath = await this.symlinkManager.resolve(normalize(path))
+      const stats = await this.stat(resolvedPath)
+      await this.metadataManager.set(resolvedPath, { mode: mode & 0o7777 }, stats.birthtimeMs)
+      this.watchManager.emit('change', resolvedPath)
+    } catch (err) {
+      this.logError('chmod', err)
+      throw await this.nodeError(err, path, 'chmod')
+    }
   }
 
   /**
-   * Change file owner (no-op for OPFS compatibility)
+   * Change file owner (persisted in the metadata file, -1 leaves a value unchanged)
    */
   async chown(path: string, uid: number, gid: number): Promise<void> {
     if (this.hybrid) {
@@ -1117,12 +1635,22 @@ export default class OPFS {
     }
 
     this.log('chown', path, uid, gid)
-    await this.stat(normalize(path))
-    // OPFS doesn't support file ownership
+    try {
+      const resolvedPath = await this.symlinkManager.resolve(normalize(path))
+      const stats = await this.stat(resolvedPath)
+      await this.metadataManager.set(resolvedPath, {
+        uid: uid === -1 ? stats.uid : uid,
+        gid: gid === -1 ? stats.gid : gid
+      }, stats.birthtimeMs)
+      this.watchManager.emit('change', resolvedPath)
+    } catch (err) {
+      this.logError('chown', err)
+      throw await this.nodeError(err, path, 'chown')
+    }
   }
 
   /**
-   * Update file timestamps (no-op for OPFS compatibility)
+   * Update file timestamps (numbers are seconds since epoch, like Node.js)
    */
   async utimes(path: string, atime: Date | number, mtime: Date | number): Promise<void> {
     if (this.hybrid) {
@@ -1130,12 +1658,24 @@ export default class OPFS {
     }
 
     this.log('utimes', path, atime, mtime)
-    await this.stat(normalize(path))
-    // OPFS doesn't support setting timestamps
+    try {
+      const resolvedPath = await this.symlinkManager.resolve(normalize(path))
+      const stats = await this.stat(resolvedPath)
+      const lastModified = await this.getLastModified(resolvedPath)
+      await this.metadataManager.set(resolvedPath, {
+        atimeMs: this.toTimeMs(atime),
+        mtimeMs: this.toTimeMs(mtime),
+        lastModified
+      }, stats.birthtimeMs)
+      this.watchManager.emit('change', resolvedPath)
+    } catch (err) {
+      this.logError('utimes', err)
+      throw await this.nodeError(err, path, 'utime')
+    }
   }
 
   /**
-   * Update symlink timestamps (no-op)
+   * Update symlink timestamps (does not follow symlinks)
    */
   async lutimes(path: string, atime: Date | number, mtime: Date | number): Promise<void> {
     if (this.hybrid) {
@@ -1143,8 +1683,21 @@ export default class OPFS {
     }
 
     this.log('lutimes', path, atime, mtime)
-    await this.lstat(normalize(path))
-    // OPFS doesn't support setting timestamps
+    try {
+      const normalizedPath = normalize(path)
+      if (!(await this.symlinkManager.isSymlink(normalizedPath))) {
+        return await this.utimes(normalizedPath, atime, mtime)
+      }
+      const stats = await this.lstat(normalizedPath)
+      await this.metadataManager.set(normalizedPath, {
+        atimeMs: this.toTimeMs(atime),
+        mtimeMs: this.toTimeMs(mtime)
+      }, stats.birthtimeMs)
+      this.watchManager.emit('change', normalizedPath)
+    } catch (err) {
+      this.logError('lutimes', err)
+      throw await this.nodeError(err, path, 'lutime')
+    }
   }
 
   /**
@@ -1154,38 +1707,94 @@ export default class OPFS {
     this.log('open', path, flags, mode)
     try {
       const normalizedPath = normalize(path)
-      const flagStr = flagsToString(flags)
-      const shouldCreate = flagStr.includes('w') || flagStr.includes('a') || flagStr.includes('+')
-      const shouldTruncate = flagStr.includes('w')
-      const shouldAppend = flagStr.includes('a')
+      const { readable, writable, create, exclusive, truncate, append, sync, noFollow } = parseFlags(flags, path)
+      const context = {
+        stat: (p: string) => this.stat(p),
+        changed: (p: string) => this.watchManager.emit('change', p),
+        lock: (p: string, options: LockOptions) => this.lock(p, options)
+      }
 
-      if (shouldCreate) {
+      if (noFollow && await this.symlinkManager.isSymlink(normalizedPath)) {
+        throw createELOOP(path)
+      }
+
+      if (create) {
         await this.handleManager.ensureParentDir(normalizedPath)
       }
 
       const resolvedPath = await this.symlinkManager.resolve(normalizedPath)
-      const { fileHandle } = await this.handleManager.getHandle(resolvedPath, { create: shouldCreate })
 
-      if (!fileHandle && !shouldCreate) {
-        throw createENOENT(path)
+      // Writable handles operate on a standalone file, so packed content is moved out first
+      if (writable && !truncate && !exclusive) {
+        await this.unpack(resolvedPath)
       }
 
-      if (shouldTruncate && fileHandle) {
-        await this.truncate(resolvedPath, 0)
+      let created = exclusive
+      let { fileHandle } = exclusive
+        ? { fileHandle: await this.createExclusive(normalizedPath, resolvedPath) }
+        : await this.handleManager.getHandle(resolvedPath).catch(() => ({ fileHandle: null }))
+
+      if (!fileHandle && create) {
+        ({ fileHandle } = await this.handleManager.getHandle(resolvedPath, { create: true }))
+        created = true
       }
 
-      const initialPosition = shouldAppend ? (await this.stat(resolvedPath)).size : 0
+      if (!fileHandle) {
+        if (!writable && await this.packedStorage.has(resolvedPath)) {
+          const access = createPackedFileAccess(this.packedStorage, resolvedPath)
+          return createFileHandle(resolvedPath, access, { position: 0, readable, writable, append: false, sync: false }, context)
+        }
+        throw createENOENT(path)
+      }
 
-      return createFileHandle(resolvedPath, initialPosition, {
-        readFile: (p, o) => this.readFile(p, o),
-        writeFile: (p, d) => this.writeFile(p, d),
-        stat: (p) => this.stat(p),
-        truncate: (p, l) => this.truncate(p, l),
-        appendFile: (p, d, o) => this.appendFile(p, d, o)
-      })
+      // Writable handles hold a sync access handle, which the instance's other operations
+      // borrow; read-only handles read File snapshots instead, since a held sync access
+      // handle would lock out readers in other contexts
+      const access = writable && this.useSync
+        ? createSyncFileAccess(await this.handleManager.holdSyncAccess(resolvedPath, fileHandle))
+        : createStreamFileAccess(fileHandle)
+
+      try {
+        if (truncate) {
+          await access.truncate(0)
+          // The packed copy was replaced without being moved out
+          if (await this.packedStorage.remove(resolvedPath)) {
+            await this.metadataManager.clearTimes(resolvedPath)
+            created = false
+          }
+        }
+
+        if (created || truncate) {
+          this.watchManager.emit(created ? 'rename' : 'change', resolvedPath)
+        }
+
+        const position = append ? await access.getSize() : 0
+        return createFileHandle(resolvedPath, access, { position, readable, writable, append, sync }, context)
+      } catch (err) {
+        await access.close()
+        throw err
+      }
     } catch (err) {
       this.logError('open', err)
-      throw wrapError(err)
+      throw await this.nodeError(err, path, 'open', 'file')
+    }
+  }
+
+  /**
+   * Create a file that must not exist yet (O_CREAT | O_EXCL)
+   * OPFS has no exclusive create, so the existence check and the create run under
+   * the path's file lock. A symlink at the path counts as existing, even if dangling.
+   */
+  private async createExclusive(path: string, resolvedPath: string): Promise<FileSystemFileHandle> {
+    const release = await this.handleManager.lock(resolvedPath)
+    try {
+      if (await this.symlinkManager.isSymlink(path) || await this.exists(resolvedPath)) {
+        throw createEEXIST(path, 'open')
+      }
+      const { fileHandle } = await this.handleManager.getHandle(resolvedPath, { create: true })
+      return fileHandle!
+    } finally {
+      release()
     }
   }
 
@@ -1219,73 +1828,72 @@ export default class OPFS {
       }
     } catch (err) {
       this.logError('opendir', err)
-      throw wrapError(err)
+      throw await this.nodeError(err, path, 'opendir', 'dir')
     }
   }
 
   /**
    * Watch for file changes
+   * Sees changes made by this instance, other instances, workers and other tabs.
    */
-  watch(path: string, options: WatchOptions = {}): FSWatcher {
+  watch(path: string, options: WatchOptions = {}, listener?: WatchCallback): FSWatcher {
+    if (this.hybrid) {
+      return this.hybrid.watch(path, options, listener)
+    }
+
     this.log('watch', path, options)
-    const normalizedPath = normalize(path)
-    const { recursive = false, signal } = options
+    return this.watchManager.watch(path, options, listener)
+  }
 
-    const callbacks = new Set<WatchCallback>()
-    const id = Symbol('watcher')
+  /**
+   * Watch a directory tree with chokidar-style add/change/unlink/addDir/unlinkDir events
+   */
+  watchTree(root: string, options: TreeWatchOptions = {}): TreeWatcher {
+    if (this.hybrid) {
+      return this.hybrid.watchTree(root, options)
+    }
 
-    this.watchCallbacks.set(id, { path: normalizedPath, callbacks, recursive })
+    this.log('watchTree', root, options)
+    return createTreeWatcher(root, options, {
+      subscribe: (path, callback) => this.watchManager.subscribe(path, callback),
+      stat: (path) => this.stat(path),
+      readdir: (path) => this.readdir(path) as Promise<string[]>
+    })
+  }
 
-    if (signal) {
-      signal.addEventListener('abort', () => {
-        this.watchCallbacks.delete(id)
-      })
-    }
+  /**
+   * Poll a path's stats, like Node.js watchFile
+   * Sees changes made outside this library too. With entries: true a directory's
+   * listeners also get the names that were added or removed.
+   */
+  watchFile(path: string, listener: WatchFileListener): StatWatcher
+  watchFile(path: string, options: WatchFileOptions, listener: WatchFileListener): StatWatcher
+  watchFile(
+    path: string,
+    optionsOrListener: WatchFileOptions | WatchFileListener,
+    listener?: WatchFileListener
+  ): StatWatcher {
+    const options = typeof optionsOrListener === 'function' ? {} : optionsOrListener
+    const callback = typeof optionsOrListener === 'function' ? optionsOrListener : listener!
 
-    const self = this
+    if (this.hybrid) {
+      return this.hybrid.watchFile(path, options, callback)
+    }
 
-    return {
-      close(): void {
-        self.watchCallbacks.delete(id)
-      },
-
-      ref(): FSWatcher {
-        return this
-      },
-
-      unref(): FSWatcher {
-        return this
-      },
-
-      [Symbol.asyncIterator](): AsyncIterator<{ eventType: 'rename' | 'change'; filename: string }> {
-        const queue: { eventType: 'rename' | 'change'; filename: string }[] = []
-        let resolver: ((value: IteratorResult<{ eventType: 'rename' | 'change'; filename: string }>) => void) | null = null
-
-        callbacks.add((eventType, filename) => {
-          const event = { eventType: eventType as 'rename' | 'change', filename }
-          if (resolver) {
-            resolver({ value: event, done: false })
-            resolver = null
-          } else {
-            queue.push(event)
-          }
-        })
+    this.log('watchFile', path, options)
+    return this.statWatchManager.watchFile(path, options, callback)
+  }
 
-        return {
-          next(): Promise<IteratorResult<{ eventType: 'rename' | 'change'; filename: string }>> {
-            if (queue.length > 0) {
-              return Promise.resolve({ value: queue.shift()!, done: false })
-            }
-            return new Promise(resolve => {
-              resolver = resolve
-            })
-          },
-          return(): Promise<IteratorResult<{ eventType: 'rename' | 'change'; filename: string }>> {
-            return Promise.resolve({ done: true, value: undefined })
-          }
-        }
-      }
+  /**
+   * Stop polling a path (only the given listener when one is passed)
+   */
+  unwatchFile(path: string, listener?: WatchFileListener): void {
+    if (this.hybrid) {
+      return this.hybrid.unwatchFile(path, listener)
     }
+
+    this.log('unwatchFile', path)
+    this.statWatchManager.unwatchFile(path, listener)
   }
 
   /**
@@ -1295,22 +1903,74 @@ export default class OPFS {
     this.log('createReadStream', path, options)
     const normalizedPath = normalize(path)
     return createReadStream(normalizedPath, options, {
-      readFile: (p) => this.readFile(p) as Promise<Uint8Array>
+      readRange: (p, position, length) => this.readRange(p, position, length)
     })
   }
 
   /**
    * Create write stream
    */
-  createWriteStream(path: string, options: WriteStreamOptions = {}): WritableStream<Uint8Array> {
+  createWriteStream(path: string, options: WriteStreamOptions = {}): WriteStream {
+    if (this.hybrid) {
+      return this.hybrid.createWriteStream(path, options)
+    }
+
     this.log('createWriteStream', path, options)
     const normalizedPath = normalize(path)
     return createWriteStream(normalizedPath, options, {
-      readFile: (p) => this.readFile(p) as Promise<Uint8Array>,
-      writeFile: (p, d) => this.writeFile(p, d)
+      open: (p, flags) => this.openStreamWriter(p, flags)
     })
   }
 
+  /**
+   * Open an incremental writer for createWriteStream
+   */
+  private async openStreamWriter(path: string, flags: string): Promise<StreamWriter> {
+    try {
+      const { writable, create, exclusive, truncate } = parseFlags(flags, path)
+      if (!writable) throw createEBADF('write')
+
+      const resolvedPath = await this.symlinkManager.resolve(path)
+      const keepExistingData = !truncate
+
+      // Streams write to a standalone file, so existing packed content is moved out first
+      if (keepExistingData && !exclusive) {
+        await this.unpack(resolvedPath)
+      }
+
+      let created = exclusive
+      if (exclusive) {
+        await this.createExclusive(path, resolvedPath)
+      } else if (create) {
+        const existing = await this.handleManager.getHandle(resolvedPath).catch(() => ({ fileHandle: null }))
+        created = !existing.fileHandle && !(await this.packedStorage.has(resolvedPath))
+      }
+
+      const { fileHandle } = await this.handleManager.getHandle(resolvedPath, { create })
+      if (!fileHandle) throw createENOENT(path)
+      if (created) this.watchManager.emit('rename', resolvedPath)
+
+      const writer = 'createWritable' in fileHandle
+        ? await openWritableWriter(fileHandle, keepExistingData)
+        : await openSwapWriter(this.handleManager, fileHandle, keepExistingData)
+
+      return {
+        ...writer,
+        close: async () => {
+          await writer.close()
+          // A truncating stream replaces a packed file without moving it out first
+          if (await this.packedStorage.remove(resolvedPath)) {
+            await this.metadataManager.clearTimes(resolvedPath)
+          }
+          this.watchManager.emit('change', resolvedPath)
+        }
+      }
+    } catch (err) {
+      this.logError('createWriteStream', err)
+      throw wrapError(err)
+    }
+  }
+
   /**
    * Get file statistics (alias for stat)
    */
@@ -1381,6 +2041,69 @@ export default class OPFS {
     }
   }
 
+  /**
+   * Compact the pack file used by writeFileBatch
+   * Rewrites it with only live entries, releasing space held by overwritten
+   * and removed files. Runs automatically once dead space crosses compactThreshold.
+   */
+  async compact(): Promise<CompactResult> {
+    if (this.hybrid) {
+      return this.hybrid.compact()
+    }
+
+    this.log('compact')
+    try {
+      return await this.packedStorage.compact()
+    } catch (err) {
+      this.logError('compact', err)
+      throw wrapError(err)
+    }
+  }
+
+  /**
+   * Run fn with a transaction: its writes, unlinks, renames and symlinks are staged
+   * and applied together when fn returns, or dropped when it throws
+   * A committed transaction that was interrupted is finished by the next ready().
+   *
+   * @example
+   * await fs.transaction(async tx => {
+   *   await tx.writeFile('/config.json.new', data)
+   *   await tx.rename('/config.json.new', '/config.json')
+   * })
+   */
+  async transaction<T>(fn: (tx: Transaction) => Promise<T>): Promise<T> {
+    this.log('transaction')
+    try {
+      return await this.transactionManager.run(fn)
+    } catch (err) {
+      this.logError('transaction', err)
+      throw err
+    }
+  }
+
+  /**
+   * Take an advisory lock on a path and resolve with a function that releases it
+   * Locks are shared with other tabs and workers through navigator.locks where it
+   * exists. They don't stop reads or writes - only other lock() calls wait.
+   * Fails with EBUSY if the lock isn't granted within options.timeout (the instance's
+   * lockTimeout by default), or right away with options.ifAvailable.
+   *
+   * @example
+   * const release = await fs.lock('/db.json', { timeout: 5000 })
+   * try { ... } finally { release() }
+   */
+  async lock(path: string, options: LockOptions = {}): Promise<() => void> {
+    const normalizedPath = normalize(path)
+    this.log('lock', normalizedPath, options)
+    return this.handleManager.lock(normalizedPath, {
+      mode: options.mode,
+      timeout: options.timeout,
+      ifAvailable: options.ifAvailable,
+      crossContext: true,
+      advisory: true
+    })
+  }
+
   /**
    * Reset internal caches
    * Useful when external processes modify the filesystem
@@ -1394,6 +2117,7 @@ export default class OPFS {
     }
 
     this.symlinkManager.reset()
+    this.metadataManager.reset()
     this.packedStorage.reset()
     this.handleManager.clearCache()
   }
@@ -1410,7 +2134,118 @@ export default class OPFS {
     }
 
     this.symlinkManager.reset()
+    this.metadataManager.reset()
     await this.packedStorage.clear()
     this.handleManager.clearCache()
   }
+
+  // Sync API (worker contexts)
+
+  /**
+   * Prepare the sync methods: snapshot the given files and directory trees and hold a
+   * sync access handle for each of their files, so readFileSync/writeFileSync/... never
+   * have to wait. Held files can't be opened by other contexts until releaseSync(), so
+   * name only the paths the sync methods need.
+   * Needs a worker context with sync access handles (useSync). Calling it again
+   * releases the previous snapshot first.
+   */
+  async prepareSync(paths: string | string[] = '/'): Promise<void> {
+    if (this.hybrid || !this.useSync) {
+      throw createENOTSUP('prepareSync', 'sync methods need FileSystemSyncAccessHandle in a worker with useSync')
+    }
+
+    this.log('prepareSync', paths)
+    try {
+      await this.releaseSync()
+      const syncFs = new SyncFileSystem({
+        handleManager: this.handleManager,
+        symlinkManager: this.symlinkManager,
+        metadataManager: this.metadataManager,
+        packedStorage: this.packedStorage,
+        createStats: (type, size, lastModified, meta) => this.createStats(type, size, lastModified, meta),
+        emit: (eventType, p) => this.watchManager.emit(eventType, p),
+        readdir: (p) => this.readdir(p, { withFileTypes: true }) as Promise<Dirent[]>,
+        writeFile: (p, data) => this.writeFile(p, data),
+        mkdir: (p, options) => this.mkdir(p, options),
+        unlink: (p) => this.unlink(p),
+        logError: (method, err) => this.logError(method, err)
+      })
+      try {
+        await syncFs.prepare(typeof paths === 'string' ? [paths] : paths)
+      } catch (err) {
+        syncFs.close()
+        throw err
+      }
+      this.syncFs = syncFs
+    } catch (err) {
+      this.logError('prepareSync', err)
+      throw wrapError(err)
+    }
+  }
+
+  /**
+   * Wait until changes made through the sync methods reached OPFS, then close the
+   * held sync access handles so other contexts can open the files again
+   * Rejects with the first error of those background writes, if any.
+   */
+  async releaseSync(): Promise<void> {
+    const syncFs = this.syncFs
+    this.syncFs = null
+    await syncFs?.release()
+  }
+
+  private getSyncFs(syscall: string): SyncFileSystem {
+    if (!this.syncFs) {
+      throw createENOTSUP(syscall, 'call prepareSync() first')
+    }
+    this.syncFs.checkPersisted()
+    return this.syncFs
+  }
+
+  existsSync(path: string): boolean {
+    return this.getSyncFs('access').existsSync(path)
+  }
+
+  statSync(path: string): Stats {
+    return this.getSyncFs('stat').statSync(path)
+  }
+
+  readdirSync(path: string, options?: ReaddirOptions): string[] | Dirent[] {
+    return this.getSyncFs('scandir').readdirSync(path, options)
+  }
+
+  readFileSync(path: string, options?: ReadFileOptions): string | Uint8Array {
+    return this.getSyncFs('open').readFileSync(path, options)
+  }
+
+  writeFileSync(path: string, data: string | Uint8Array, options?: WriteFileOptions): void {
+    this.getSyncFs('open').writeFileSync(path, data, options)
+  }
+
+  mkdirSync(path: string, options?: MkdirOptions | number): string | undefined {
+    return this.getSyncFs('mkdir').mkdirSync(path, typeof options === 'number' ? { mode: options } : options)
+  }
+
+  unlinkSync(path: string): void {
+    this.getSyncFs('unlink').unlinkSync(path)
+  }
+
+  /**
+   * Open a file descriptor for readSync/writeSync (flags like open())
+   */
+  openSync(path: string, flags: string | number = 'r'): number {
+    return this.getSyncFs('open').openSync(path, flags)
+  }
+
+  readSync(fd: number, buffer: Uint8Array, offset?: number, length?: number, position?: number | null): number {
+    return this.getSyncFs('read').readSync(fd, buffer, offset, length, position)
+  }
+
+  writeSync(fd: number, data: string | Uint8Array, offset?: number, length?: number, position?: number | null): number {
+    return this.getSyncFs('write').writeSync(fd, data, offset, length, position)
+  }
+
+  closeSync(fd: number): void {
+    this.getSyncFs('close').closeSync(fd)
+  }
 }
@@ -0,0 +1,149 @@
+/**
+ * Write-ahead journal for files that are rewritten in place
+ *
+ * OPFS can't swap files atomically, so rewriting a file through a sync access handle
+ * (truncate, then write) loses it if the context dies in between. A journaled write
+ * first stores the new content next to the file:
+ *
+ * <file>.journal: [magic: 4][content length: 4][content CRC32: 4][content...]
+ *
+ * Then the file is rewritten and the journal removed. On recovery, a journal whose
+ * CRC32 matches is complete, so its content replaces the (possibly torn) file. A journal
+ * that doesn't match was torn itself - before the file was touched - and is discarded,
+ * leaving the last good version of the file.
+ *
+ * Writable streams (async mode) are committed atomically on close and skip the journal.
+ */
+
+import type { HandleManager } from './handle-manager.js'
+
+const JOURNAL_MAGIC = 0x4c4e524a // "JRNL"
+const JOURNAL_HEADER_SIZE = 12
+
+// CRC32 lookup table (pre-computed for performance)
+const CRC32_TABLE = new Uint32Array(256)
+for (let i = 0; i < 256; i++) {
+  let c = i
+  for (let j = 0; j < 8; j++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  }
+  CRC32_TABLE[i] = c
+}
+
+/**
+ * Calculate CRC32 checksum of data
+ */
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC32_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/**
+ * Replace the content of a file (sync access handle, or a writable stream)
+ */
+export async function writeFileContent(fileHandle: FileSystemFileHandle, data: Uint8Array, useSync: boolean): Promise<void> {
+  if (useSync) {
+    const access = await fileHandle.createSyncAccessHandle()
+    try {
+      access.truncate(0)
+      let written = 0
+      while (written < data.length) {
+        written += access.write(data.subarray(written), { at: written })
+      }
+      access.flush()
+    } finally {
+      access.close()
+    }
+  } else {
+    const writable = await fileHandle.createWritable()
+    await writable.write(data)
+    await writable.close()
+  }
+}
+
+/**
+ * Journal for one file
+ * Callers hold the file's lock around write() and recover().
+ */
+export class WriteAheadJournal {
+  private handleManager: HandleManager
+  private useSync: boolean
+  private journalPath: string
+
+  constructor(handleManager: HandleManager, useSync: boolean, path: string) {
+    this.handleManager = handleManager
+    this.useSync = useSync
+    this.journalPath = path + '.journal'
+  }
+
+  /**
+   * Check if a root entry name is this journal
+   */
+  isJournalFile(name: string): boolean {
+    return name === this.journalPath.replace(/^\/+/, '')
+  }
+
+  /**
+   * Journal data, then let apply rewrite the file with it
+   */
+  async write(data: Uint8Array, apply: (data: Uint8Array) => Promise<void>): Promise<void> {
+    if (!this.useSync) {
+      await apply(data)
+      return
+    }
+
+    const record = new Uint8Array(JOURNAL_HEADER_SIZE + data.length)
+    const view = new DataView(record.buffer)
+    view.setUint32(0, JOURNAL_MAGIC, true)
+    view.setUint32(4, data.length, true)
+    view.setUint32(8, crc32(data), true)
+    record.set(data, JOURNAL_HEADER_SIZE)
+
+    const { fileHandle } = await this.handleManager.getHandle(this.journalPath, { create: true })
+    await writeFileContent(fileHandle!, record, true)
+    await apply(data)
+    await this.discard()
+  }
+
+  /**
+   * Replay a complete journal with apply, and remove any journal
+   * Returns true if the file was restored from the journal.
+   */
+  async recover(apply: (data: Uint8Array) => Promise<void>): Promise<boolean> {
+    const { fileHandle } = await this.handleManager.getHandle(this.journalPath)
+    if (!fileHandle) return false
+
+    const record = new Uint8Array(await (await fileHandle.getFile()).arrayBuffer())
+    const data = this.verify(record)
+    if (data) {
+      await apply(data)
+    }
+    await this.discard()
+    return data !== null
+  }
+
+  /**
+   * Content of a journal record, or null if it is torn
+   */
+  private verify(record: Uint8Array): Uint8Array | null {
+    if (record.length < JOURNAL_HEADER_SIZE) return null
+
+    const view = new DataView(record.buffer, record.byteOffset, record.byteLength)
+    const length = view.getUint32(4, true)
+    if (view.getUint32(0, true) !== JOURNAL_MAGIC || record.length !== JOURNAL_HEADER_SIZE + length) return null
+
+    const data = record.subarray(JOURNAL_HEADER_SIZE)
+    return crc32(data) === view.getUint32(8, true) ? data : null
+  }
+
+  /**
+   * Remove the journal without replaying it
+   */
+  async discard(): Promise<void> {
+    const root = await this.handleManager.getRoot()
+    await root.removeEntry(this.journalPath.replace(/^\/+/, '')).catch(() => {})
+  }
+}
@@ -0,0 +1,281 @@
+import type { FileMetadata, MetadataCache } from './types.js'
+import type { HandleManager } from './handle-manager.js'
+import { WriteAheadJournal, writeFileContent } from './journal.js'
+
+const METADATA_FILE = '/.opfs-meta.json'
+
+/**
+ * Manages POSIX-style metadata (mode, ownership, timestamps) using a JSON metadata file
+ *
+ * OPFS has no notion of modes, owners or settable timestamps, so entries are only
+ * created when chmod/chown/utimes are called. Paths without an entry fall back to defaults.
+ */
+export class MetadataManager {
+  private cache: MetadataCache = {}
+  private cacheCount = 0 // Track count to skip work when no metadata exists
+  private handleManager: HandleManager
+  private useSync: boolean
+  private loadPromise: Promise<MetadataCache> | null = null // Avoid multiple concurrent loads
+  private diskLoaded = false // Track if we've loaded from disk
+  private journal: WriteAheadJournal
+  private recoveryChecked = false
+
+  constructor(handleManager: HandleManager, useSync: boolean) {
+    this.handleManager = handleManager
+    this.useSync = useSync
+    this.journal = new WriteAheadJournal(handleManager, useSync, METADATA_FILE)
+  }
+
+  /**
+   * Reset all metadata state (called when root directory is cleared)
+   */
+  reset(): void {
+    this.cache = {}
+    this.cacheCount = 0
+    this.loadPromise = null
+    this.diskLoaded = false
+    this.recoveryChecked = false
+  }
+
+  /**
+   * Restore the metadata file from its journal if a save was interrupted
+   * Returns true if it was restored.
+   */
+  async recover(): Promise<boolean> {
+    if (this.recoveryChecked) return false
+
+    const release = await this.handleManager.lock(METADATA_FILE)
+    try {
+      if (this.recoveryChecked) return false
+      const restored = await this.journal.recover(data => this.writeFile(data))
+      this.recoveryChecked = true
+      return restored
+    } finally {
+      release()
+    }
+  }
+
+  /**
+   * Load metadata from disk
+   * Uses loadPromise to avoid multiple concurrent disk reads
+   */
+  async load(): Promise<MetadataCache> {
+    if (this.diskLoaded) return this.cache
+    if (this.loadPromise) return this.loadPromise
+
+    this.loadPromise = this.loadFromDisk()
+    const result = await this.loadPromise
+    this.loadPromise = null
+    return result
+  }
+
+  /**
+   * Actually read from disk
+   */
+  private async loadFromDisk(): Promise<MetadataCache> {
+    try {
+      await this.recover()
+      const { fileHandle } = await this.handleManager.getHandle(METADATA_FILE)
+      if (fileHandle) {
+        const file = await fileHandle.getFile()
+        const text = await file.text()
+        this.cache = text ? JSON.parse(text) : {}
+        this.cacheCount = Object.keys(this.cache).length
+      }
+    } catch {
+      // Error reading - keep empty cache
+    }
+
+    this.diskLoaded = true
+    return this.cache
+  }
+
+  /**
+   * Save metadata to disk
+   * Journaled, so an interrupted save leaves the previous or the new metadata.
+   */
+  private async save(): Promise<void> {
+    const buffer = new TextEncoder().encode(JSON.stringify(this.cache))
+
+    const release = await this.handleManager.lock(METADATA_FILE)
+    try {
+      await this.journal.write(buffer, data => this.writeFile(data))
+    } finally {
+      release()
+    }
+  }
+
+  /**
+   * Replace the metadata file
+   * Note: Caller must hold the lock
+   */
+  private async writeFile(data: Uint8Array): Promise<void> {
+    const { fileHandle } = await this.handleManager.getHandle(METADATA_FILE, { create: true })
+    if (fileHandle) {
+      await writeFileContent(fileHandle, data, this.useSync)
+    }
+  }
+
+  /**
+   * Get metadata for a path (undefined if none was ever set)
+   */
+  async get(path: string): Promise<FileMetadata | undefined> {
+    const metadata = await this.load()
+    if (this.cacheCount === 0) return undefined
+    return metadata[path]
+  }
+
+  /**
+   * Get metadata for a path without waiting (undefined until load() has completed)
+   */
+  peek(path: string): FileMetadata | undefined {
+    return this.diskLoaded ? this.cache[path] : undefined
+  }
+
+  /**
+   * Merge fields into a path's metadata and persist
+   * Any change bumps ctime, like a real inode change would.
+   * createdMs seeds birthtime when the path has no metadata yet.
+   */
+  async set(path: string, fields: FileMetadata, createdMs?: number): Promise<void> {
+    const metadata = await this.load()
+
+    let entry = metadata[path]
+    if (!entry) {
+      entry = createdMs !== undefined ? { birthtimeMs: createdMs } : {}
+      metadata[path] = entry
+      this.cacheCount++
+    }
+
+    Object.assign(entry, fields, { ctimeMs: Date.now() })
+    await this.save()
+  }
+
+  /**
+   * Bump mtime/ctime for paths that already have metadata
+   * Only needed for storage without a lastModified (packed files)
+   */
+  async touch(paths: string[]): Promise<void> {
+    const metadata = await this.load()
+    if (this.cacheCount === 0) return
+
+    const now = Date.now()
+    let changed = false
+    for (const path of paths) {
+      const entry = metadata[path]
+      if (entry) {
+        entry.mtimeMs = now
+        entry.ctimeMs = now
+        delete entry.lastModified
+        changed = true
+      }
+    }
+
+    if (changed) await this.save()
+  }
+
+  /**
+   * Drop explicit atime/mtime of a path so its OPFS lastModified applies again
+   * Needed when a packed file (no lastModified) becomes a standalone file
+   */
+  async clearTimes(path: string): Promise<void> {
+    const metadata = await this.load()
+    if (this.cacheCount === 0) return
+
+    const entry = metadata[path]
+    if (!entry) return
+
+    delete entry.atimeMs
+    delete entry.mtimeMs
+    delete entry.lastModified
+    entry.ctimeMs = Date.now()
+    await this.save()
+  }
+
+  /**
+   * Remove metadata for a path and everything below it
+   */
+  async remove(path: string): Promise<void> {
+    const metadata = await this.load()
+    if (this.cacheCount === 0) return
+
+    const prefix = path === '/' ? '/' : path + '/'
+    let changed = false
+    for (const key of Object.keys(metadata)) {
+      if (key === path || key.startsWith(prefix)) {
+        delete metadata[key]
+        this.cacheCount--
+        changed = true
+      }
+    }
+
+    if (changed) await this.save()
+  }
+
+  /**
+   * Move metadata for a path and everything below it
+   * When lastModified is given, the moved entry's mtime snapshot is rebased onto it
+   * (the content was rewritten by the move but not actually modified), unless the
+   * snapshot had already gone stale. previousLastModified is undefined for packed files.
+   */
+  async rename(oldPath: string, newPath: string, lastModified?: number, previousLastModified?: number): Promise<void> {
+    const metadata = await this.load()
+    if (this.cacheCount === 0) return
+
+    const prefix = oldPath + '/'
+    const moved: Array<[string, FileMetadata]> = []
+    for (const key of Object.keys(metadata)) {
+      if (key === oldPath || key.startsWith(prefix)) {
+        const entry = metadata[key]
+        if (
+          key === oldPath &&
+          lastModified !== undefined &&
+          entry.mtimeMs !== undefined &&
+          entry.lastModified === previousLastModified
+        ) {
+          entry.lastModified = lastModified
+        }
+        moved.push([newPath + key.slice(oldPath.length), entry])
+        delete metadata[key]
+      }
+    }
+
+    if (moved.length === 0) return
+
+    for (const [key, entry] of moved) {
+      metadata[key] = entry
+    }
+    this.cacheCount = Object.keys(metadata).length
+    await this.save()
+  }
+
+  /**
+   * Copy mode and ownership from one path to another (like copyFile does on POSIX)
+   */
+  async copy(src: string, dest: string): Promise<void> {
+    const metadata = await this.load()
+    if (this.cacheCount === 0) return
+
+    const entry = metadata[src]
+    const existing = metadata[dest]
+    if (!entry && !existing) return
+
+    if (!entry) {
+      delete metadata[dest]
+      this.cacheCount--
+    } else {
+      const now = Date.now()
+      if (!existing) this.cacheCount++
+      metadata[dest] = { mode: entry.mode, uid: entry.uid, gid: entry.gid, ctimeMs: now, birthtimeMs: now }
+    }
+
+    await this.save()
+  }
+
+  /**
+   * Check if path is the metadata file or its journal
+   */
+  isMetadataFile(name: string): boolean {
+    return name === METADATA_FILE.replace(/^\/+/, '') || this.journal.isJournalFile(name)
+  }
+}
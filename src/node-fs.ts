@@ -0,0 +1,263 @@
+import type OPFS from './index.js'
+import type { FSConstants, FileHandle, Stats } from './types.js'
+import { constants } from './constants.js'
+import { FSError, wrapError, createEBADF } from './errors.js'
+
+/**
+ * Node.js style callback: an error or null, then the result
+ */
+export type NodeCallback<T> = (err: FSError | null, result?: T) => void
+
+/** A tuple and all of its shorter prefixes */
+type Prefixes<T extends unknown[]> = T extends [...infer Init, unknown] ? T | Prefixes<Init> : T
+
+/**
+ * Argument list of a callback variant: the promise method's arguments, where the
+ * optional ones can be left out before the callback
+ */
+type WithCallback<A extends unknown[], C> = Prefixes<Required<A>> extends infer P
+  ? P extends A ? [...P, C] : never
+  : never
+
+type CallbackMethod<F> = F extends (...args: infer A) => Promise<infer R>
+  ? (...args: WithCallback<A, NodeCallback<R>>) => void
+  : never
+
+/** Async methods that get a callback variant and a promises entry */
+const ASYNC_METHODS = [
+  'readFile', 'readRange', 'readFileBatch', 'writeFile', 'writeFileBatch', 'appendFile',
+  'mkdir', 'rmdir', 'rm', 'unlink', 'readdir', 'opendir', 'stat', 'lstat', 'backFile',
+  'rename', 'copyFile', 'cp', 'symlink', 'readlink', 'symlinkBatch', 'realpath',
+  'access', 'truncate', 'mkdtemp', 'chmod', 'chown', 'utimes', 'lutimes', 'du', 'statfs',
+  'compact', 'gc', 'ready', 'prepareSync', 'releaseSync'
+] as const
+
+/** Methods that are synchronous already and are passed through as they are */
+const SYNC_METHODS = [
+  'watch', 'watchTree', 'watchFile', 'unwatchFile', 'createReadStream', 'createWriteStream',
+  'existsSync', 'statSync', 'readdirSync', 'readFileSync', 'writeFileSync', 'mkdirSync',
+  'unlinkSync', 'openSync', 'readSync', 'writeSync', 'closeSync', 'resetCache', 'terminate'
+] as const
+
+type AsyncMethodName = typeof ASYNC_METHODS[number]
+type SyncMethodName = typeof SYNC_METHODS[number]
+
+/**
+ * fs.promises: the promise methods, with Node.js style errors
+ */
+export type NodePromisesFS = Pick<OPFS, AsyncMethodName | 'open' | 'exists'> & {
+  constants: FSConstants
+}
+
+/**
+ * Node.js callback API over an OPFS instance (see createNodeFS)
+ */
+export type NodeFS = { [K in AsyncMethodName]: CallbackMethod<OPFS[K]> } & Pick<OPFS, SyncMethodName> & {
+  /** Opens a file descriptor for read/write/fstat/ftruncate/fsync/close */
+  open(path: string, callback: NodeCallback<number>): void
+  open(path: string, flags: string | number | undefined, callback: NodeCallback<number>): void
+  open(path: string, flags: string | number | undefined, mode: number | undefined, callback: NodeCallback<number>): void
+  read(
+    fd: number,
+    buffer: Uint8Array,
+    offset: number,
+    length: number,
+    position: number | null,
+    callback: (err: FSError | null, bytesRead?: number, buffer?: Uint8Array) => void
+  ): void
+  write(
+    fd: number,
+    data: string | Uint8Array,
+    callback: (err: FSError | null, bytesWritten?: number, data?: string | Uint8Array) => void
+  ): void
+  write(
+    fd: number,
+    buffer: Uint8Array,
+    offset: number | undefined,
+    length: number | undefined,
+    position: number | null | undefined,
+    callback: (err: FSError | null, bytesWritten?: number, buffer?: Uint8Array) => void
+  ): void
+  fstat(fd: number, callback: NodeCallback<Stats>): void
+  ftruncate(fd: number, callback: NodeCallback<void>): void
+  ftruncate(fd: number, len: number | undefined, callback: NodeCallback<void>): void
+  fsync(fd: number, callback: NodeCallback<void>): void
+  close(fd: number, callback?: NodeCallback<void>): void
+  /** Like Node.js, the callback only gets the result */
+  exists(path: string, callback: (exists: boolean) => void): void
+  promises: NodePromisesFS
+  constants: FSConstants
+}
+
+/** Node.js reports some errors under a different syscall than the method name */
+const SYSCALLS: Record<string, string> = {
+  readFile: 'open',
+  readRange: 'open',
+  writeFile: 'open',
+  appendFile: 'open',
+  readdir: 'scandir',
+  copyFile: 'copyfile',
+  truncate: 'open'
+}
+
+/**
+ * Give an error the shape of Node.js fs errors: an FSError with code, errno, syscall and path
+ */
+export function toNodeError(err: unknown, method: string): FSError {
+  const error = wrapError(err)
+  error.syscall ??= SYSCALLS[method] ?? method
+  return error
+}
+
+/** Position of the options argument of methods that accept an encoding string instead */
+const ENCODING_OPTIONS: Record<string, number> = {
+  readFile: 1,
+  writeFile: 2,
+  appendFile: 2
+}
+
+/**
+ * Turn `readFile(path, 'utf8')` style arguments into an options object
+ */
+function normalizeArgs(method: string, args: unknown[]): unknown[] {
+  const index = ENCODING_OPTIONS[method]
+  if (index !== undefined && typeof args[index] === 'string') {
+    args = [...args]
+    args[index] = { encoding: args[index] }
+  }
+  return args
+}
+
+/**
+ * Split a Node.js style argument list into the arguments and the callback
+ */
+function takeCallback(args: unknown[], method: string): [unknown[], (...results: unknown[]) => void] {
+  const callback = args[args.length - 1]
+  if (typeof callback !== 'function') {
+    throw new TypeError(`The "cb" argument of ${method}() must be of type function`)
+  }
+  return [args.slice(0, -1), callback as (...results: unknown[]) => void]
+}
+
+/**
+ * Create a Node.js fs compatible object from an OPFS instance
+ *
+ * Every async method gets a callback variant (`fs.readFile(path, options, cb)`),
+ * the promise methods are available on `fs.promises`, and errors carry `code`,
+ * `errno`, `syscall` and `path` like Node.js errors. Callback `open` returns a
+ * numeric file descriptor for `read`, `write`, `fstat`, `ftruncate`, `fsync` and
+ * `close`; `promises.open` returns a FileHandle.
+ *
+ * @example
+ * const fs = createNodeFS(new OPFS())
+ * fs.readFile('/file.txt', 'utf8', (err, data) => { ... })
+ * const data = await fs.promises.readFile('/file.txt')
+ */
+export function createNodeFS(opfs: OPFS): NodeFS {
+  const handles = new Map<number, FileHandle>()
+  let nextFd = 3
+
+  const getHandle = (fd: number, syscall: string): FileHandle => {
+    const handle = handles.get(fd)
+    if (!handle) throw createEBADF(syscall)
+    return handle
+  }
+
+  // Run an async operation and report its result to a callback
+  // The callback runs outside the promise chain, so its own errors aren't swallowed.
+  const settle = (
+    method: string,
+    callback: (...results: unknown[]) => void,
+    operation: () => Promise<unknown[]>
+  ): void => {
+    Promise.resolve()
+      .then(operation)
+      .then(
+        results => queueMicrotask(() => callback(null, ...results)),
+        err => queueMicrotask(() => callback(toNodeError(err, method)))
+      )
+  }
+
+  const promises = { constants } as Record<string, unknown>
+  const nodeFs = { constants, promises } as Record<string, unknown>
+
+  for (const method of [...ASYNC_METHODS, 'open', 'exists'] as const) {
+    const fn = (opfs[method] as (...args: unknown[]) => Promise<unknown>).bind(opfs)
+    promises[method] = (...args: unknown[]) => fn(...normalizeArgs(method, args)).catch(err => {
+      throw toNodeError(err, method)
+    })
+  }
+
+  for (const method of ASYNC_METHODS) {
+    const fn = (opfs[method] as (...args: unknown[]) => Promise<unknown>).bind(opfs)
+    nodeFs[method] = (...allArgs: unknown[]) => {
+      const [args, callback] = takeCallback(allArgs, method)
+      settle(method, callback, async () => [await fn(...normalizeArgs(method, args))])
+    }
+  }
+
+  for (const method of SYNC_METHODS) {
+    nodeFs[method] = (opfs[method] as (...args: unknown[]) => unknown).bind(opfs)
+  }
+
+  nodeFs.exists = (path: string, callback: (exists: boolean) => void) => {
+    opfs.exists(path).then(
+      exists => queueMicrotask(() => callback(exists)),
+      () => queueMicrotask(() => callback(false))
+    )
+  }
+
+  nodeFs.open = (path: string, ...rest: unknown[]) => {
+    const [[flags, mode], callback] = takeCallback(rest, 'open')
+    settle('open', callback, async () => {
+      const handle = await opfs.open(path, (flags ?? 'r') as string | number, mode as number | undefined)
+      const fd = nextFd++
+      handles.set(fd, handle)
+      return [fd]
+    })
+  }
+
+  nodeFs.read = (fd: number, ...rest: unknown[]) => {
+    const [[buffer, offset, length, position], callback] = takeCallback(rest, 'read')
+    settle('read', callback, async () => {
+      const { bytesRead } = await getHandle(fd, 'read').read(
+        buffer as Uint8Array, offset as number, length as number, position as number | null
+      )
+      return [bytesRead, buffer]
+    })
+  }
+
+  nodeFs.write = (fd: number, ...rest: unknown[]) => {
+    const [[data, offset, length, position], callback] = takeCallback(rest, 'write')
+    settle('write', callback, async () => {
+      const buffer = typeof data === 'string' ? new TextEncoder().encode(data) : data as Uint8Array
+      const { bytesWritten } = await getHandle(fd, 'write').write(
+        buffer, offset as number | undefined, length as number | undefined, (position ?? null) as number | null
+      )
+      return [bytesWritten, data]
+    })
+  }
+
+  nodeFs.fstat = (fd: number, callback: NodeCallback<Stats>) => {
+    settle('fstat', callback as (...results: unknown[]) => void, async () => [await getHandle(fd, 'fstat').stat()])
+  }
+
+  nodeFs.ftruncate = (fd: number, ...rest: unknown[]) => {
+    const [[len], callback] = takeCallback(rest, 'ftruncate')
+    settle('ftruncate', callback, async () => [await getHandle(fd, 'ftruncate').truncate(len as number | undefined)])
+  }
+
+  nodeFs.fsync = (fd: number, callback: NodeCallback<void>) => {
+    settle('fsync', callback as (...results: unknown[]) => void, async () => [await getHandle(fd, 'fsync').sync()])
+  }
+
+  nodeFs.close = (fd: number, callback: NodeCallback<void> = () => {}) => {
+    settle('close', callback as (...results: unknown[]) => void, async () => {
+      const handle = getHandle(fd, 'close')
+      handles.delete(fd)
+      return [await handle.close()]
+    })
+  }
+
+  return nodeFs as unknown as NodeFS
+}
@@ -17,10 +17,28 @@ import type {
   Stats,
   StatFs,
   RmOptions,
+  RmdirOptions,
   CpOptions,
+  MkdirOptions,
   SymlinkDefinition,
-  DiskUsage
+  DiskUsage,
+  CompactResult,
+  ReadStreamOptions,
+  WriteStreamOptions,
+  WriteStream,
+  WatchOptions,
+  WatchCallback,
+  FSWatcher,
+  TreeWatchOptions,
+  TreeWatcher,
+  WatchFileOptions,
+  WatchFileListener,
+  StatWatcher,
+  SyncChannel,
+  SyncChannelOptions
 } from './types.js'
+import { createSyncChannel, serveSyncChannel } from './sync-bridge.js'
+import { createReadStream } from './streams.js'
 
 export type Backend = 'main' | 'worker'
 
@@ -31,6 +49,14 @@ export interface OPFSHybridOptions {
   write?: Backend
   /** Worker URL (required if using worker backend) */
   workerUrl?: URL | string
+  /** Start a new worker when the worker crashes (default: false) */
+  autoRestart?: boolean
+  /** Lock internal files across tabs and workers with navigator.locks (default: false) */
+  crossContextLocks?: boolean
+  /** Milliseconds to wait for an internal lock before failing with EBUSY (default: 0, waits forever) */
+  lockTimeout?: number
+  /** Directory of the origin's OPFS the file system is scoped to (default: '/') */
+  root?: string
   /** Enable verbose logging */
   verbose?: boolean
 }
@@ -54,14 +80,21 @@ export class OPFSHybrid {
     this.verbose = options.verbose ?? false
 
     // Always create main fs (needed for main backend or as fallback)
-    this.mainFs = new OPFS({ useSync: false, verbose: this.verbose })
+    const { crossContextLocks, lockTimeout, root } = options
+    this.mainFs = new OPFS({ useSync: false, verbose: this.verbose, crossContextLocks, lockTimeout, root })
 
     // Create worker if needed
     if (this.readBackend === 'worker' || this.writeBackend === 'worker') {
       if (!this.workerUrl) {
         throw new Error('workerUrl is required when using worker backend')
       }
-      this.workerFs = new OPFSWorker({ workerUrl: this.workerUrl })
+      this.workerFs = new OPFSWorker({
+        workerUrl: this.workerUrl,
+        autoRestart: options.autoRestart,
+        crossContextLocks,
+        lockTimeout,
+        root
+      })
       this.workerReady = this.workerFs.ready()
     }
   }
@@ -83,6 +116,7 @@ export class OPFSHybrid {
       this.workerFs.terminate()
       this.workerFs = null
     }
+    this.mainFs.terminate()
   }
 
   private getReadFs(): OPFS | OPFSWorker {
@@ -109,6 +143,35 @@ export class OPFSHybrid {
     return this.getReadFs().readFileBatch(paths)
   }
 
+  async readRange(path: string, position: number, length: number): Promise<Uint8Array> {
+    return this.getReadFs().readRange(path, position, length)
+  }
+
+  /**
+   * Watch on the main thread - events from the worker arrive over the broadcast channel
+   */
+  watch(path: string, options?: WatchOptions, listener?: WatchCallback): FSWatcher {
+    return this.mainFs.watch(path, options, listener)
+  }
+
+  watchTree(root: string, options?: TreeWatchOptions): TreeWatcher {
+    return this.mainFs.watchTree(root, options)
+  }
+
+  watchFile(path: string, options: WatchFileOptions, listener: WatchFileListener): StatWatcher {
+    return this.mainFs.watchFile(path, options, listener)
+  }
+
+  unwatchFile(path: string, listener?: WatchFileListener): void {
+    this.mainFs.unwatchFile(path, listener)
+  }
+
+  createReadStream(path: string, options: ReadStreamOptions = {}): ReadableStream<Uint8Array> {
+    return createReadStream(path, options, {
+      readRange: (p, position, length) => this.readRange(p, position, length)
+    })
+  }
+
   async readdir(path: string, options?: ReaddirOptions): Promise<string[] | import('./types.js').Dirent[]> {
     return this.getReadFs().readdir(path, options)
   }
@@ -152,26 +215,36 @@ export class OPFSHybrid {
   }
 
   async writeFileBatch(entries: BatchWriteEntry[]): Promise<void> {
-    return this.getWriteFs().writeFileBatch(entries)
+    // Batch writes may remove standalone files the read side still has pooled handles for
+    if (this.readBackend !== this.writeBackend && this.workerFs) {
+      await this.workerFs.writeFileBatch(entries)
+      this.mainFs.resetCache()
+    } else {
+      return this.getWriteFs().writeFileBatch(entries)
+    }
+  }
+
+  createWriteStream(path: string, options?: WriteStreamOptions): WriteStream {
+    return this.getWriteFs().createWriteStream(path, options)
   }
 
   async appendFile(path: string, data: string | Uint8Array, options?: WriteFileOptions): Promise<void> {
     return this.getWriteFs().appendFile(path, data, options)
   }
 
-  async mkdir(path: string): Promise<void> {
-    return this.getWriteFs().mkdir(path)
+  async mkdir(path: string, options?: MkdirOptions | number): Promise<string | undefined> {
+    return this.getWriteFs().mkdir(path, options)
   }
 
-  async rmdir(path: string): Promise<void> {
+  async rmdir(path: string, options?: RmdirOptions): Promise<void> {
     // rmdir affects both backends' state
     if (this.readBackend !== this.writeBackend && this.workerFs) {
       // Clear via worker (does actual deletion and resets worker's symlink cache)
-      await this.workerFs.rmdir(path)
+      await this.workerFs.rmdir(path, options)
       // Reset main thread's cache (no actual file operations, just cache invalidation)
       this.mainFs.resetCache()
     } else {
-      return this.getWriteFs().rmdir(path)
+      return this.getWriteFs().rmdir(path, options)
     }
   }
 
@@ -221,25 +294,63 @@ export class OPFSHybrid {
   }
 
   async chmod(path: string, mode: number): Promise<void> {
-    return this.getWriteFs().chmod(path, mode)
+    // Metadata is cached per backend, so the read side must reload it
+    if (this.readBackend !== this.writeBackend && this.workerFs) {
+      await this.workerFs.chmod(path, mode)
+      this.mainFs.resetCache()
+    } else {
+      return this.getWriteFs().chmod(path, mode)
+    }
   }
 
   async chown(path: string, uid: number, gid: number): Promise<void> {
-    return this.getWriteFs().chown(path, uid, gid)
+    if (this.readBackend !== this.writeBackend && this.workerFs) {
+      await this.workerFs.chown(path, uid, gid)
+      this.mainFs.resetCache()
+    } else {
+      return this.getWriteFs().chown(path, uid, gid)
+    }
   }
 
   async utimes(path: string, atime: Date | number, mtime: Date | number): Promise<void> {
-    return this.getWriteFs().utimes(path, atime, mtime)
+    if (this.readBackend !== this.writeBackend && this.workerFs) {
+      await this.workerFs.utimes(path, atime, mtime)
+      this.mainFs.resetCache()
+    } else {
+      return this.getWriteFs().utimes(path, atime, mtime)
+    }
   }
 
   async lutimes(path: string, atime: Date | number, mtime: Date | number): Promise<void> {
-    return this.getWriteFs().lutimes(path, atime, mtime)
+    if (this.readBackend !== this.writeBackend && this.workerFs) {
+      await this.workerFs.lutimes(path, atime, mtime)
+      this.mainFs.resetCache()
+    } else {
+      return this.getWriteFs().lutimes(path, atime, mtime)
+    }
   }
 
   async mkdtemp(prefix: string): Promise<string> {
     return this.getWriteFs().mkdtemp(prefix)
   }
 
+  async compact(): Promise<CompactResult> {
+    return this.getWriteFs().compact()
+  }
+
+  /**
+   * Create a channel for blocking access from another worker (see OPFSSyncClient)
+   * Served by the worker when there is one, otherwise by the main thread instance.
+   */
+  async createSyncChannel(options?: SyncChannelOptions): Promise<SyncChannel> {
+    if (this.workerFs) {
+      return this.workerFs.createSyncChannel(options)
+    }
+    const { client, server } = createSyncChannel(options)
+    serveSyncChannel(server, this.mainFs)
+    return client
+  }
+
   /**
    * Reset internal caches on both backends
    */
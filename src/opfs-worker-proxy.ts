@@ -16,14 +16,37 @@ import type {
   Stats,
   StatFs,
   RmOptions,
+  RmdirOptions,
   CpOptions,
+  MkdirOptions,
   DiskUsage,
-  SymlinkDefinition
+  CompactResult,
+  SymlinkDefinition,
+  ReadStreamOptions,
+  WriteStreamOptions,
+  WriteStream,
+  WatchOptions,
+  WatchCallback,
+  FSWatcher,
+  TreeWatchOptions,
+  TreeWatcher,
+  WatchFileOptions,
+  WatchFileListener,
+  StatWatcher,
+  SyncChannel,
+  SyncChannelOptions
 } from './types.js'
 import { constants } from './constants.js'
 import { FSError } from './errors.js'
+import { createReadStream, withBytesWritten } from './streams.js'
+import { WatchManager } from './watch-manager.js'
+import { deserializeStats, deserializeError, type SerializedStats, type SerializedError } from './serialization.js'
+import { createTreeWatcher } from './tree-watcher.js'
+import { StatWatchManager } from './stat-watcher.js'
+import { createSyncChannel } from './sync-bridge.js'
 
 interface PendingRequest {
+  method: string
   resolve: (value: unknown) => void
   reject: (error: Error) => void
 }
@@ -32,7 +55,7 @@ interface WorkerResponse {
   id?: number
   type?: string
   result?: unknown
-  error?: { message: string; code?: string }
+  error?: SerializedError
 }
 
 export interface OPFSWorkerOptions {
@@ -40,6 +63,14 @@ export interface OPFSWorkerOptions {
   workerUrl?: string | URL
   /** Worker initialization options */
   workerOptions?: WorkerOptions
+  /** Start a new worker when the worker crashes after it was ready (default: false) */
+  autoRestart?: boolean
+  /** Lock internal files across tabs and workers with navigator.locks (default: false) */
+  crossContextLocks?: boolean
+  /** Milliseconds to wait for an internal lock before failing with EBUSY (default: 0, waits forever) */
+  lockTimeout?: number
+  /** Directory of the origin's OPFS the file system is scoped to (default: '/') */
+  root?: string
 }
 
 /**
@@ -49,32 +80,38 @@ export interface OPFSWorkerOptions {
  * - Non-blocking main thread
  * - Uses sync access handles (faster) in the worker
  * - Compatible with libraries that reuse buffers (e.g., isomorphic-git)
+ *
+ * Errors thrown in the worker arrive as FSErrors with all their fields. If the worker
+ * crashes, pending requests fail with EPIPE; with `autoRestart` a new worker takes over
+ * (sync channels and open write streams of the old one are gone).
  */
 export class OPFSWorker {
   private worker: Worker | null = null
+  private options: OPFSWorkerOptions
   private pendingRequests = new Map<number, PendingRequest>()
   private nextId = 1
-  private readyPromise: Promise<void>
-  private readyResolve!: () => void
+  private readyPromise!: Promise<void>
+  private configured!: Promise<void>
+  private crashError: FSError | null = null
+  private watchManager: WatchManager
+  private statWatchManager = new StatWatchManager({
+    stat: (path) => this.stat(path),
+    readdir: (path) => this.readdir(path) as Promise<string[]>
+  })
 
   /** File system constants */
   public readonly constants = constants
 
   constructor(options: OPFSWorkerOptions = {}) {
-    this.readyPromise = new Promise((resolve) => {
-      this.readyResolve = resolve
-    })
-
-    this.initWorker(options)
+    this.options = options
+    this.watchManager = new WatchManager(options.root)
+    this.initWorker()
   }
 
-  private initWorker(options: OPFSWorkerOptions): void {
-    const { workerUrl, workerOptions = { type: 'module' } } = options
+  private initWorker(): void {
+    const { workerUrl, workerOptions = { type: 'module' } } = this.options
 
-    if (workerUrl) {
-      this.worker = new Worker(workerUrl, workerOptions)
-    } else {
-      // Try to create worker from the bundled script
+    if (!workerUrl) {
       // Users should provide workerUrl in production
       throw new Error(
         'OPFSWorker requires a workerUrl option pointing to the worker script. ' +
@@ -82,12 +119,32 @@ export class OPFSWorker {
       )
     }
 
-    this.worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+    const worker = new Worker(workerUrl, workerOptions)
+    let started = false
+    let readyResolve!: () => void
+    let readyReject!: (error: Error) => void
+    this.worker = worker
+    this.crashError = null
+    this.readyPromise = new Promise((resolve, reject) => {
+      readyResolve = resolve
+      readyReject = reject
+    })
+    // A crash before anyone called ready() shouldn't be an unhandled rejection
+    this.readyPromise.catch(() => {})
+
+    // Root and lock settings go first, so they apply to every request. The worker only
+    // creates its instance (and recovers that root's internal files) once they arrive.
+    const { crossContextLocks, lockTimeout, root } = this.options
+    this.configured = this.call<void>('configure', [{ crossContextLocks, lockTimeout, root }])
+    this.configured.catch(() => {})
+
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
       const { id, type, result, error } = event.data
 
       // Handle ready signal
       if (type === 'ready') {
-        this.readyResolve()
+        started = true
+        readyResolve()
         return
       }
 
@@ -97,8 +154,7 @@ export class OPFSWorker {
         if (pending) {
           this.pendingRequests.delete(id)
           if (error) {
-            const fsError = new FSError(error.message, error.code || 'UNKNOWN')
-            pending.reject(fsError)
+            pending.reject(deserializeError(error))
           } else {
             pending.resolve(result)
           }
@@ -106,16 +162,42 @@ export class OPFSWorker {
       }
     }
 
-    this.worker.onerror = (event) => {
-      console.error('[OPFSWorker] Worker error:', event)
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault()
+      if (this.worker !== worker) return
+
+      // The worker's state is unknown now, so its requests can't be answered anymore
+      const original = new Error(event.message || 'Worker error')
+      console.error('[OPFSWorker] Worker crashed:', original.message)
+      worker.terminate()
+      this.worker = null
+      this.rejectPending(method => new FSError(
+        `EPIPE: worker crashed (${original.message}), ${method}`, 'EPIPE', { syscall: method, original }
+      ))
+
+      if (this.options.autoRestart && started) {
+        this.initWorker()
+      } else {
+        this.crashError = new FSError(`EPIPE: worker crashed (${original.message})`, 'EPIPE', { original })
+        readyReject(this.crashError)
+      }
     }
   }
 
+  private rejectPending(createError: (method: string) => Error): void {
+    for (const [, pending] of this.pendingRequests) {
+      pending.reject(createError(pending.method))
+    }
+    this.pendingRequests.clear()
+  }
+
   /**
-   * Wait for the worker to be ready
+   * Wait for the worker to be ready (and scoped to the root, if any)
+   * Rejects with EPIPE if the worker crashes before it is.
    */
   async ready(): Promise<void> {
-    return this.readyPromise
+    await this.readyPromise
+    await this.configured
   }
 
   /**
@@ -125,24 +207,22 @@ export class OPFSWorker {
     if (this.worker) {
       this.worker.terminate()
       this.worker = null
-
-      // Reject all pending requests
-      for (const [, pending] of this.pendingRequests) {
-        pending.reject(new Error('Worker terminated'))
-      }
-      this.pendingRequests.clear()
+      this.rejectPending(() => new Error('Worker terminated'))
     }
+    this.watchManager.close()
+    this.statWatchManager.close()
   }
 
   private call<T>(method: string, args: unknown[], transfer?: Transferable[]): Promise<T> {
     return new Promise((resolve, reject) => {
       if (!this.worker) {
-        reject(new Error('Worker not initialized or terminated'))
+        reject(this.crashError ?? new Error('Worker not initialized or terminated'))
         return
       }
 
       const id = this.nextId++
       this.pendingRequests.set(id, {
+        method,
         resolve: resolve as (value: unknown) => void,
         reject
       })
@@ -169,6 +249,10 @@ export class OPFSWorker {
     await this.call<void>('writeFile', [path, data, options])
   }
 
+  async readRange(path: string, position: number, length: number): Promise<Uint8Array> {
+    return this.call<Uint8Array>('readRange', [path, position, length])
+  }
+
   async readFileBatch(paths: string[]): Promise<BatchReadResult[]> {
     return this.call<BatchReadResult[]>('readFileBatch', [paths])
   }
@@ -197,12 +281,12 @@ export class OPFSWorker {
 
   // Directory operations
 
-  async mkdir(path: string): Promise<void> {
-    await this.call<void>('mkdir', [path])
+  async mkdir(path: string, options?: MkdirOptions | number): Promise<string | undefined> {
+    return this.call<string | undefined>('mkdir', [path, options])
   }
 
-  async rmdir(path: string): Promise<void> {
-    await this.call<void>('rmdir', [path])
+  async rmdir(path: string, options?: RmdirOptions): Promise<void> {
+    await this.call<void>('rmdir', [path, options])
   }
 
   async readdir(path: string, options?: ReaddirOptions): Promise<string[] | Dirent[]> {
@@ -238,61 +322,13 @@ export class OPFSWorker {
   // Stat operations
 
   async stat(path: string): Promise<Stats> {
-    const result = await this.call<{
-      type: string
-      size: number
-      mode: number
-      ctime: string
-      ctimeMs: number
-      mtime: string
-      mtimeMs: number
-      target?: string
-    }>('stat', [path])
-
-    return this.deserializeStats(result)
+    const result = await this.call<SerializedStats>('stat', [path])
+    return deserializeStats(result)
   }
 
   async lstat(path: string): Promise<Stats> {
-    const result = await this.call<{
-      type: string
-      size: number
-      mode: number
-      ctime: string
-      ctimeMs: number
-      mtime: string
-      mtimeMs: number
-      target?: string
-    }>('lstat', [path])
-
-    return this.deserializeStats(result)
-  }
-
-  private deserializeStats(data: {
-    type: string
-    size: number
-    mode: number
-    ctime: string
-    ctimeMs: number
-    mtime: string
-    mtimeMs: number
-    target?: string
-  }): Stats {
-    const ctime = new Date(data.ctime)
-    const mtime = new Date(data.mtime)
-
-    return {
-      type: data.type as 'file' | 'dir' | 'symlink',
-      size: data.size,
-      mode: data.mode,
-      ctime,
-      ctimeMs: data.ctimeMs,
-      mtime,
-      mtimeMs: data.mtimeMs,
-      target: data.target,
-      isFile: () => data.type === 'file',
-      isDirectory: () => data.type === 'dir',
-      isSymbolicLink: () => data.type === 'symlink'
-    }
+    const result = await this.call<SerializedStats>('lstat', [path])
+    return deserializeStats(result)
   }
 
   async exists(path: string): Promise<boolean> {
@@ -329,6 +365,96 @@ export class OPFSWorker {
     return this.call<string>('realpath', [path])
   }
 
+  // Stream operations
+
+  /**
+   * Watch for file changes
+   * The worker broadcasts the events of its operations, so no round trip is needed here.
+   */
+  watch(path: string, options: WatchOptions = {}, listener?: WatchCallback): FSWatcher {
+    return this.watchManager.watch(path, options, listener)
+  }
+
+  /**
+   * Watch a directory tree with chokidar-style events
+   * Events come over the broadcast channel, the snapshot is read through the worker.
+   */
+  watchTree(root: string, options: TreeWatchOptions = {}): TreeWatcher {
+    return createTreeWatcher(root, options, {
+      subscribe: (path, callback) => this.watchManager.subscribe(path, callback),
+      stat: (path) => this.stat(path),
+      readdir: (path) => this.readdir(path) as Promise<string[]>
+    })
+  }
+
+  /**
+   * Poll a path's stats through the worker, like Node.js watchFile
+   */
+  watchFile(path: string, listener: WatchFileListener): StatWatcher
+  watchFile(path: string, options: WatchFileOptions, listener: WatchFileListener): StatWatcher
+  watchFile(
+    path: string,
+    optionsOrListener: WatchFileOptions | WatchFileListener,
+    listener?: WatchFileListener
+  ): StatWatcher {
+    if (typeof optionsOrListener === 'function') {
+      return this.statWatchManager.watchFile(path, {}, optionsOrListener)
+    }
+    return this.statWatchManager.watchFile(path, optionsOrListener, listener!)
+  }
+
+  unwatchFile(path: string, listener?: WatchFileListener): void {
+    this.statWatchManager.unwatchFile(path, listener)
+  }
+
+  /**
+   * Create a read stream whose chunks are read in the worker on demand
+   * Each chunk is one postMessage round trip, so memory stays bounded by highWaterMark
+   */
+  createReadStream(path: string, options: ReadStreamOptions = {}): ReadableStream<Uint8Array> {
+    return createReadStream(path, options, {
+      readRange: (p, position, length) => this.readRange(p, position, length)
+    })
+  }
+
+  /**
+   * Create a write stream backed by a stream in the worker
+   * Chunks are sent as they are written; backpressure applies to the round trips
+   */
+  createWriteStream(path: string, options: WriteStreamOptions = {}): WriteStream {
+    const { highWaterMark = 16 * 1024, ...streamOptions } = options
+    let streamId: number
+    let bytesWritten = 0
+
+    const stream = new WritableStream<Uint8Array>({
+      start: async () => {
+        streamId = await this.call<number>('openWriteStream', [path, streamOptions])
+      },
+      write: async (chunk) => {
+        // Copied rather than transferred, the caller may reuse the buffer
+        await this.call<void>('writeStream', [streamId, chunk])
+        bytesWritten += chunk.length
+      },
+      close: () => this.call<void>('closeWriteStream', [streamId]),
+      abort: () => this.call<void>('abortWriteStream', [streamId])
+    }, { highWaterMark, size: (chunk) => chunk.byteLength })
+
+    return withBytesWritten(stream, () => bytesWritten)
+  }
+
+  // Sync bridge
+
+  /**
+   * Create a channel for blocking access to this worker's file system
+   * Transfer the returned channel to another worker and pass it to OPFSSyncClient there.
+   * Requires a cross-origin isolated page (fails with ENOTSUP otherwise).
+   */
+  async createSyncChannel(options?: SyncChannelOptions): Promise<SyncChannel> {
+    const { client, server } = createSyncChannel(options)
+    await this.call<void>('serveSyncChannel', [server], [server.port])
+    return client
+  }
+
   // Other operations
 
   async rename(oldPath: string, newPath: string): Promise<void> {
@@ -355,6 +481,13 @@ export class OPFSWorker {
     await this.call<void>('lutimes', [path, atime, mtime])
   }
 
+  /**
+   * Compact the pack file in the worker
+   */
+  async compact(): Promise<CompactResult> {
+    return this.call<CompactResult>('compact', [])
+  }
+
   /**
    * Reset internal caches to free memory
    * Useful for long-running benchmarks or after bulk operations
@@ -6,7 +6,9 @@
  */
 
 import OPFS from './index.js'
-import type { BatchWriteEntry, SymlinkDefinition } from './types.js'
+import type { BatchWriteEntry, SymlinkDefinition, WriteStreamOptions, SyncChannel, MkdirOptions, RmdirOptions, OPFSOptions } from './types.js'
+import { serializeStats, serializeError, type SerializedError } from './serialization.js'
+import { serveSyncChannel } from './sync-bridge.js'
 
 // Message types
 interface WorkerRequest {
@@ -18,27 +20,75 @@ interface WorkerRequest {
 interface WorkerResponse {
   id: number
   result?: unknown
-  error?: { message: string; code?: string }
+  error?: SerializedError
   // For transferable arrays
   transfer?: ArrayBuffer[]
 }
 
-// Initialize OPFS with sync mode (available in workers)
+// Options sent by OPFSWorker before its first request
+type WorkerConfig = Pick<OPFSOptions, 'crossContextLocks' | 'lockTimeout' | 'root'>
+let config: WorkerConfig = {}
+
+// OPFS in sync mode (available in workers), created on first use so that a
+// 'configure' sent before the first request decides its root
 let fs: OPFS | null = null
+let recovered: Promise<void> = Promise.resolve()
 
 function getFS(): OPFS {
   if (!fs) {
-    fs = new OPFS({ useSync: true, verbose: false })
+    fs = new OPFS({ useSync: true, verbose: false, ...config })
+    // Restore internal files interrupted by a crash before the first request
+    recovered = fs.ready()
+    recovered.catch(() => {})
   }
   return fs
 }
 
+/**
+ * Get the instance once its root has been recovered
+ * Recovery also runs lazily on first access, so a failure doesn't fail requests.
+ */
+async function openFS(): Promise<OPFS> {
+  const opfs = getFS()
+  await recovered.catch(() => {})
+  return opfs
+}
+
+/**
+ * Drop the instance, so the next request creates a new one
+ * Terminating it closes its watch channel and the sync access handles it holds.
+ */
+function dropFS(): void {
+  fs?.terminate()
+  fs = null
+}
+
+// Write streams opened through OPFSWorker.createWriteStream
+const writeStreams = new Map<number, WritableStreamDefaultWriter<Uint8Array>>()
+let nextStreamId = 1
+
+function getWriteStream(streamId: number): WritableStreamDefaultWriter<Uint8Array> {
+  const writer = writeStreams.get(streamId)
+  if (!writer) throw new Error(`Unknown write stream: ${streamId}`)
+  return writer
+}
+
 // Handle incoming messages
 self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
   const { id, method, args } = event.data
 
   try {
-    const opfs = getFS()
+    if (method === 'configure') {
+      // A new instance for the root, which restores that root's internal files
+      dropFS()
+      config = args[0] as WorkerConfig
+      getFS()
+      await recovered
+      self.postMessage({ id, result: undefined } satisfies WorkerResponse)
+      return
+    }
+
+    const opfs = await openFS()
     let result: unknown
     const transfer: ArrayBuffer[] = []
 
@@ -62,6 +112,13 @@ self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
         result = undefined
         break
 
+      case 'readRange': {
+        const data = await opfs.readRange(args[0] as string, args[1] as number, args[2] as number)
+        result = data
+        transfer.push(data.buffer as ArrayBuffer)
+        break
+      }
+
       case 'readFileBatch': {
         const results = await opfs.readFileBatch(args[0] as string[])
         // Transfer all buffers
@@ -101,12 +158,11 @@ self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
 
       // Directory operations
       case 'mkdir':
-        await opfs.mkdir(args[0] as string)
-        result = undefined
+        result = await opfs.mkdir(args[0] as string, args[1] as MkdirOptions | number)
         break
 
       case 'rmdir':
-        await opfs.rmdir(args[0] as string)
+        await opfs.rmdir(args[0] as string, args[1] as RmdirOptions)
         result = undefined
         break
 
@@ -199,6 +255,54 @@ self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
         result = undefined
         break
 
+      // Stream operations
+      case 'openWriteStream': {
+        const streamId = nextStreamId++
+        const stream = opfs.createWriteStream(args[0] as string, args[1] as WriteStreamOptions)
+        writeStreams.set(streamId, stream.getWriter())
+        result = streamId
+        break
+      }
+
+      case 'writeStream': {
+        const streamId = args[0] as number
+        try {
+          await getWriteStream(streamId).write(args[1] as Uint8Array)
+        } catch (err) {
+          // The stream is errored now, the proxy won't close or abort it
+          writeStreams.delete(streamId)
+          throw err
+        }
+        result = undefined
+        break
+      }
+
+      case 'closeWriteStream': {
+        const writer = getWriteStream(args[0] as number)
+        writeStreams.delete(args[0] as number)
+        await writer.close()
+        result = undefined
+        break
+      }
+
+      case 'abortWriteStream': {
+        const writer = writeStreams.get(args[0] as number)
+        writeStreams.delete(args[0] as number)
+        await writer?.abort()
+        result = undefined
+        break
+      }
+
+      case 'serveSyncChannel':
+        // Served with getFS so the channel keeps working after gc()
+        serveSyncChannel(args[0] as SyncChannel, getFS)
+        result = undefined
+        break
+
+      case 'compact':
+        result = await opfs.compact()
+        break
+
       case 'resetCache':
         opfs.resetCache()
         result = undefined
@@ -207,8 +311,7 @@ self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
       case 'gc':
         // Force full garbage collection by completely reinitializing the OPFS instance
         // This releases all handles and caches, allowing browser to clean up resources
-        fs = null
-        fs = new OPFS({ useSync: true, verbose: false })
+        dropFS()
         result = undefined
         break
 
@@ -223,31 +326,11 @@ self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
       self.postMessage(response)
     }
   } catch (err) {
-    const error = err as Error & { code?: string }
-    const response: WorkerResponse = {
-      id,
-      error: {
-        message: error.message,
-        code: error.code
-      }
-    }
+    // Error subclasses lose their fields in structured cloning, so send them field by field
+    const response: WorkerResponse = { id, error: serializeError(err) }
     self.postMessage(response)
   }
 }
 
-// Serialize Stats object (functions can't be transferred)
-function serializeStats(stats: { type: string; size: number; mode: number; ctime: Date; ctimeMs: number; mtime: Date; mtimeMs: number; target?: string }) {
-  return {
-    type: stats.type,
-    size: stats.size,
-    mode: stats.mode,
-    ctime: stats.ctime.toISOString(),
-    ctimeMs: stats.ctimeMs,
-    mtime: stats.mtime.toISOString(),
-    mtimeMs: stats.mtimeMs,
-    target: stats.target
-  }
-}
-
-// Signal that worker is ready
+// OPFSWorker sends 'configure' first, so nothing is recovered before the root is known
 self.postMessage({ type: 'ready' })
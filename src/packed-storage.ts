@@ -4,19 +4,41 @@
  * Instead of creating 100 separate files (100 OPFS API calls),
  * we write all data to one pack file with an index (1-2 API calls).
  *
- * Format:
- * [index length: 4 bytes][CRC32: 4 bytes][JSON index][file data...]
+ * Format (v2, log-structured):
+ * [header: magic(4) version(4) committed size(8)]
+ * [generation 1: file data... | JSON index | footer]
+ * [generation 2: file data... | JSON index | footer]
+ * ...
+ *
+ * Footer: [index offset: 8][index length: 4][index CRC32: 4][magic: 4]
+ *
+ * Each batch appends its data and a complete new index generation, so earlier
+ * entries survive. The header's committed size points at the end of the latest
+ * generation and is only updated once the generation is written, so a torn
+ * append leaves the previous generation readable.
  *
  * Index format:
- * { "path": { offset: number, size: number, originalSize?: number }, ... }
+ * { "path": { offset: number, size: number, originalSize?: number, crc?: number }, ... }
  *
  * When originalSize is present, data is compressed (size = compressed, originalSize = uncompressed)
- * CRC32 is calculated over [JSON index][file data...] for integrity verification.
+ * crc is the CRC32 of the stored bytes, verified on read.
+ *
+ * Superseded data and old index generations are dead space until compact()
+ * rewrites the pack (automatically once dead space crosses compactThreshold).
+ *
+ * Legacy v1 packs ([index length: 4][CRC32: 4][JSON index][file data...]) are still
+ * readable and are upgraded to v2 on the first write.
+ *
+ * Rewriting the whole pack (compaction, v1 upgrade) goes through the write-ahead
+ * journal (.opfs-pack.journal), so an interrupted rewrite is finished on next access.
+ * A pack that is still unreadable after that fails reads with EIO, and is kept as
+ * .opfs-pack.corrupt-<timestamp> by the next write to the pack or recover().
  */
 
+import type { CompactResult } from './types.js'
 import type { HandleManager } from './handle-manager.js'
-import { fileLock } from './handle-manager.js'
-import { createECORRUPTED } from './errors.js'
+import { createECORRUPTED, createEIO } from './errors.js'
+import { WriteAheadJournal, crc32, writeFileContent } from './journal.js'
 
 // ============ Compression ============
 // Uses browser's native CompressionStream API
@@ -85,57 +107,98 @@ async function decompress(data: Uint8Array): Promise<Uint8Array> {
   return result
 }
 
-// ============ CRC32 ============
-
-// CRC32 lookup table (pre-computed for performance)
-const CRC32_TABLE = new Uint32Array(256)
-for (let i = 0; i < 256; i++) {
-  let c = i
-  for (let j = 0; j < 8; j++) {
-    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
-  }
-  CRC32_TABLE[i] = c
-}
-
-/**
- * Calculate CRC32 checksum of data
- */
-function crc32(data: Uint8Array): number {
-  let crc = 0xffffffff
-  for (let i = 0; i < data.length; i++) {
-    crc = CRC32_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
-  }
-  return (crc ^ 0xffffffff) >>> 0
-}
-
 // ============ Types ============
 
 interface PackIndexEntry {
   offset: number
   size: number
   originalSize?: number // Present if compressed
+  crc?: number // CRC32 of stored bytes, present if checksums were enabled on write
 }
 
 interface PackIndex {
   [path: string]: PackIndexEntry
 }
 
+/** Latest index generation as loaded from disk */
+interface PackState {
+  index: PackIndex
+  version: number
+  committed: number // End of the latest generation (0 if the pack is empty)
+  indexSize: number // Byte length of the latest JSON index
+}
+
+interface StoredEntry {
+  path: string
+  data: Uint8Array
+  originalSize?: number
+}
+
+/** Random access to an open pack file (sync access handle, or File + writable stream) */
+interface PackIO {
+  size: number
+  read(offset: number, length: number): Promise<Uint8Array>
+  write(data: Uint8Array, offset: number): Promise<void>
+  truncate(size: number): Promise<void>
+  flush(): void
+}
+
 const PACK_FILE = '/.opfs-pack'
+const CORRUPT_SUFFIX = '.corrupt-' // Corrupt packs are kept as .opfs-pack.corrupt-<timestamp>
+const PACK_VERSION = 2
+const PACK_MAGIC = 0x4b50464f // "OFPK"
+const FOOTER_MAGIC = 0x4e45474f // "OGEN"
+const HEADER_SIZE = 16
+const FOOTER_SIZE = 20
+
+// Don't bother compacting until at least this much space can be reclaimed
+const AUTO_COMPACT_MIN_BYTES = 1024 * 1024
+
+function emptyState(): PackState {
+  return { index: {}, version: PACK_VERSION, committed: 0, indexSize: 0 }
+}
+
+/**
+ * Size and mtime of the pack file (null if it can't be read right now)
+ */
+async function stamp(fileHandle: FileSystemFileHandle): Promise<{ size: number; lastModified: number } | null> {
+  try {
+    const { size, lastModified } = await fileHandle.getFile()
+    return { size, lastModified }
+  } catch {
+    return null
+  }
+}
 
 export class PackedStorage {
   private handleManager: HandleManager
   private useSync: boolean
   private useCompression: boolean
   private useChecksum: boolean
+  private compactThreshold: number
   private index: PackIndex | null = null
   private indexLoaded = false
-
-  constructor(handleManager: HandleManager, useSync: boolean, useCompression = false, useChecksum = true) {
+  // Pack file size and mtime when index was loaded, so it can be reused while they match
+  private indexStamp: { size: number; lastModified: number } | null = null
+  private journal: WriteAheadJournal
+  private recoveryChecked = false
+  // Decompressed entry of an unfinished sequential read (read streams ask for one chunk at a time)
+  private rangeCache: { path: string; committed: number; offset: number; data: Uint8Array } | null = null
+
+  constructor(
+    handleManager: HandleManager,
+    useSync: boolean,
+    useCompression = false,
+    useChecksum = true,
+    compactThreshold = 0.5
+  ) {
     this.handleManager = handleManager
     this.useSync = useSync
     // Only enable compression if API is available
     this.useCompression = useCompression && typeof CompressionStream !== 'undefined'
     this.useChecksum = useChecksum
+    this.compactThreshold = compactThreshold
+    this.journal = new WriteAheadJournal(handleManager, useSync, PACK_FILE)
   }
 
   /**
@@ -144,6 +207,9 @@ export class PackedStorage {
   reset(): void {
     this.index = null
     this.indexLoaded = false
+    this.indexStamp = null
+    this.recoveryChecked = false
+    this.rangeCache = null
   }
 
   /**
@@ -152,92 +218,378 @@ export class PackedStorage {
   async clear(): Promise<void> {
     this.index = null
     this.indexLoaded = false
+    this.indexStamp = null
+    this.recoveryChecked = false
+    this.rangeCache = null
 
+    const root = await this.handleManager.getRoot()
     try {
-      const root = await this.handleManager.getRoot()
       await root.removeEntry(PACK_FILE.replace(/^\//, ''))
     } catch {
-      // Pack file doesn't exist, that's fine
+      // File doesn't exist, that's fine
     }
+    await this.journal.discard()
   }
 
   /**
-   * Load pack index from disk (always reloads to support hybrid mode)
-   * Verifies CRC32 checksum for integrity
-   * Note: Caller must hold the lock
+   * Restore the pack from its journal if a rewrite was interrupted, and move it aside
+   * if it is still unreadable
+   * Returns true if it was restored.
    */
-  private async loadIndex(): Promise<PackIndex> {
+  async recover(): Promise<boolean> {
+    const { fileHandle } = await this.handleManager.getHandle(PACK_FILE)
+    if (!fileHandle) return false
+
+    const release = await this.handleManager.lock(PACK_FILE)
     try {
-      const { fileHandle } = await this.handleManager.getHandle(PACK_FILE)
-      if (!fileHandle) {
-        return {}
+      const restored = await this.recoverJournal(fileHandle)
+      await this.openIO(fileHandle, (io) => this.loadState(io, true))
+      return restored
+    } finally {
+      release()
+    }
+  }
+
+  /**
+   * Open the pack file under the lock and run fn against it
+   * Returns null if the pack file doesn't exist (and create is false)
+   */
+  private async withPack<T>(create: boolean, fn: (io: PackIO) => Promise<T>): Promise<T | null> {
+    const { fileHandle } = await this.handleManager.getHandle(PACK_FILE, { create })
+    if (!fileHandle) return null
+
+    const release = await this.handleManager.lock(PACK_FILE)
+    try {
+      await this.recoverJournal(fileHandle)
+      this.index = null
+      const result = await this.openIO(fileHandle, fn)
+      // fn loaded or wrote the latest index if it set one
+      this.indexStamp = this.index ? await stamp(fileHandle) : null
+      return result
+    } finally {
+      release()
+    }
+  }
+
+  /**
+   * The index of the last pack access, if the pack file hasn't changed since
+   * An empty index if there is no pack file; null if the pack has to be read.
+   */
+  private async cachedIndex(): Promise<PackIndex | null> {
+    const { fileHandle } = await this.handleManager.getHandle(PACK_FILE)
+    if (!fileHandle) return {}
+    if (!this.index || !this.indexStamp) return null
+
+    const current = await stamp(fileHandle)
+    const unchanged = current?.size === this.indexStamp.size && current.lastModified === this.indexStamp.lastModified
+    return unchanged ? this.index : null
+  }
+
+  /**
+   * Open a file for random access and run fn against it
+   * Note: Caller must hold the lock
+   */
+  private async openIO<T>(fileHandle: FileSystemFileHandle, fn: (io: PackIO) => Promise<T>): Promise<T> {
+    if (this.useSync) {
+      const access = await fileHandle.createSyncAccessHandle()
+      try {
+        return await fn({
+          size: access.getSize(),
+          read: async (offset, length) => {
+            const buffer = new Uint8Array(length)
+            access.read(buffer, { at: offset })
+            return buffer
+          },
+          write: async (data, offset) => {
+            access.write(data, { at: offset })
+          },
+          truncate: async (size) => access.truncate(size),
+          flush: () => access.flush()
+        })
+      } finally {
+        access.close()
       }
+    }
 
-      if (this.useSync) {
-        const release = await fileLock.acquire(PACK_FILE)
-        try {
-          const access = await fileHandle.createSyncAccessHandle()
-          try {
-            const size = access.getSize()
-            if (size < 8) {
-              return {}
-            }
-
-            // Read header: index length + CRC32
-            const header = new Uint8Array(8)
-            access.read(header, { at: 0 })
-            const view = new DataView(header.buffer)
-            const indexLen = view.getUint32(0, true)
-            const storedCrc = view.getUint32(4, true)
-
-            // Read everything after header (index + data) for CRC verification
-            const contentSize = size - 8
-            const content = new Uint8Array(contentSize)
-            access.read(content, { at: 8 })
-
-            // Verify CRC32 if enabled
-            if (this.useChecksum && storedCrc !== 0) {
-              const calculatedCrc = crc32(content)
-              if (calculatedCrc !== storedCrc) {
-                throw createECORRUPTED(PACK_FILE)
-              }
-            }
-
-            // Parse index from content
-            const indexJson = new TextDecoder().decode(content.subarray(0, indexLen))
-            return JSON.parse(indexJson)
-          } finally {
-            access.close()
-          }
-        } finally {
-          release()
-        }
-      } else {
-        const file = await fileHandle.getFile()
-        const data = new Uint8Array(await file.arrayBuffer())
-        if (data.length < 8) {
-          return {}
-        }
+    // Async mode: read from a File snapshot, write through a writable that keeps existing data
+    const file = await fileHandle.getFile()
+    let writable: FileSystemWritableFileStream | null = null
+    const getWritable = async () => {
+      writable ??= await fileHandle.createWritable({ keepExistingData: true })
+      return writable
+    }
 
-        const view = new DataView(data.buffer)
-        const indexLen = view.getUint32(0, true)
-        const storedCrc = view.getUint32(4, true)
+    try {
+      const result = await fn({
+        size: file.size,
+        read: async (offset, length) => new Uint8Array(await file.slice(offset, offset + length).arrayBuffer()),
+        write: async (data, offset) => {
+          const stream = await getWritable()
+          await stream.seek(offset)
+          await stream.write(data)
+        },
+        truncate: async (size) => (await getWritable()).truncate(size),
+        flush: () => {} // Writable streams are committed atomically on close
+      })
+      if (writable) await (writable as FileSystemWritableFileStream).close()
+      return result
+    } catch (err) {
+      if (writable) await (writable as FileSystemWritableFileStream).abort()
+      throw err
+    }
+  }
 
-        // Verify CRC32 over content (everything after header) if enabled
-        const content = data.subarray(8)
-        if (this.useChecksum && storedCrc !== 0) {
-          const calculatedCrc = crc32(content)
-          if (calculatedCrc !== storedCrc) {
-            throw createECORRUPTED(PACK_FILE)
-          }
-        }
+  /**
+   * Read the latest index generation (v2) or the single index (v1)
+   * Verifies CRC32 checksums for integrity
+   */
+  private async readState(io: PackIO): Promise<PackState> {
+    if (io.size < 8) return emptyState()
+
+    const decoder = new TextDecoder()
+    const head = await io.read(0, Math.min(HEADER_SIZE, io.size))
+    const view = new DataView(head.buffer)
+
+    if (io.size >= HEADER_SIZE && view.getUint32(0, true) === PACK_MAGIC) {
+      const version = view.getUint32(4, true)
+      const committed = Number(view.getBigUint64(8, true))
+      if (version !== PACK_VERSION || committed > io.size || committed < HEADER_SIZE + FOOTER_SIZE) {
+        throw createECORRUPTED(PACK_FILE)
+      }
+
+      const footer = new DataView((await io.read(committed - FOOTER_SIZE, FOOTER_SIZE)).buffer)
+      if (footer.getUint32(16, true) !== FOOTER_MAGIC) {
+        throw createECORRUPTED(PACK_FILE)
+      }
+
+      const indexOffset = Number(footer.getBigUint64(0, true))
+      const indexLen = footer.getUint32(8, true)
+      const storedCrc = footer.getUint32(12, true)
+      const indexBuf = await io.read(indexOffset, indexLen)
 
-        const indexJson = new TextDecoder().decode(content.subarray(0, indexLen))
-        return JSON.parse(indexJson)
+      if (this.useChecksum && storedCrc !== 0 && crc32(indexBuf) !== storedCrc) {
+        throw createECORRUPTED(PACK_FILE)
       }
+
+      return { index: JSON.parse(decoder.decode(indexBuf)), version, committed, indexSize: indexLen }
+    }
+
+    // Legacy v1: CRC32 is calculated over everything after the 8-byte header
+    const indexLen = view.getUint32(0, true)
+    const storedCrc = view.getUint32(4, true)
+    const content = await io.read(8, io.size - 8)
+
+    if (this.useChecksum && storedCrc !== 0 && crc32(content) !== storedCrc) {
+      throw createECORRUPTED(PACK_FILE)
+    }
+
+    return {
+      index: JSON.parse(decoder.decode(content.subarray(0, indexLen))),
+      version: 1,
+      committed: io.size,
+      indexSize: indexLen
+    }
+  }
+
+  /**
+   * Load pack state from an open pack (always reloads to support hybrid mode)
+   * Torn rewrites are restored from the journal before this, so an unreadable pack is
+   * really corrupt: reads fail with EIO and leave it alone, writes (quarantine) move it
+   * aside and start over empty.
+   */
+  private async loadState(io: PackIO, quarantine = false): Promise<PackState> {
+    let state: PackState
+    try {
+      state = await this.readState(io)
     } catch {
-      return {}
+      if (!quarantine) throw createEIO(PACK_FILE, 'read')
+      await this.moveAside(io)
+      state = emptyState()
+    }
+    this.index = state.index
+    return state
+  }
+
+  /**
+   * Copy a corrupt pack to .opfs-pack.corrupt-<timestamp>, then empty it
+   * Note: Caller must hold the lock
+   */
+  private async moveAside(io: PackIO): Promise<void> {
+    const content = await io.read(0, io.size)
+    const { fileHandle } = await this.handleManager.getHandle(`${PACK_FILE}${CORRUPT_SUFFIX}${Date.now()}`, { create: true })
+    await writeFileContent(fileHandle!, content, this.useSync)
+    await io.truncate(0)
+    io.flush()
+  }
+
+  /**
+   * Load the latest pack index from disk
+   */
+  private async loadIndex(): Promise<PackIndex> {
+    const state = await this.withPack(false, (io) => this.loadState(io))
+    return state?.index ?? {}
+  }
+
+  /**
+   * Read the stored (possibly compressed) bytes of an entry, verifying its CRC32
+   */
+  private async readEntry(io: PackIO, path: string, entry: PackIndexEntry): Promise<Uint8Array> {
+    const buffer = await io.read(entry.offset, entry.size)
+    if (this.useChecksum && entry.crc !== undefined && crc32(buffer) !== entry.crc) {
+      throw createECORRUPTED(path)
+    }
+    return buffer
+  }
+
+  /**
+   * Build a generation starting at `start`: [file data...][JSON index][footer]
+   * Adds the entries to index (mutated in place)
+   */
+  private buildGeneration(index: PackIndex, entries: StoredEntry[], start: number): { generation: Uint8Array; indexSize: number } {
+    let dataSize = 0
+    for (const { path, data, originalSize } of entries) {
+      const entry: PackIndexEntry = { offset: start + dataSize, size: data.length }
+      if (originalSize !== undefined) {
+        entry.originalSize = originalSize
+      }
+      if (this.useChecksum) {
+        entry.crc = crc32(data)
+      }
+      index[path] = entry
+      dataSize += data.length
+    }
+
+    const indexBuf = new TextEncoder().encode(JSON.stringify(index))
+    const generation = new Uint8Array(dataSize + indexBuf.length + FOOTER_SIZE)
+    for (const { path, data } of entries) {
+      generation.set(data, index[path].offset - start)
+    }
+    generation.set(indexBuf, dataSize)
+
+    const footer = new DataView(generation.buffer, dataSize + indexBuf.length, FOOTER_SIZE)
+    footer.setBigUint64(0, BigInt(start + dataSize), true)
+    footer.setUint32(8, indexBuf.length, true)
+    footer.setUint32(12, this.useChecksum ? crc32(indexBuf) : 0, true)
+    footer.setUint32(16, FOOTER_MAGIC, true)
+
+    return { generation, indexSize: indexBuf.length }
+  }
+
+  /**
+   * Build the pack header pointing at the end of the committed generations
+   */
+  private buildHeader(committed: number): Uint8Array {
+    const header = new Uint8Array(HEADER_SIZE)
+    const view = new DataView(header.buffer)
+    view.setUint32(0, PACK_MAGIC, true)
+    view.setUint32(4, PACK_VERSION, true)
+    view.setBigUint64(8, BigInt(committed), true)
+    return header
+  }
+
+  /**
+   * Append a data segment plus a new index generation, then commit it via the header
+   * Empty and v1 packs are (re)written from scratch, carrying over live v1 entries
+   */
+  private async appendGeneration(
+    io: PackIO,
+    state: PackState,
+    entries: StoredEntry[],
+    removals: string[] = []
+  ): Promise<PackState> {
+    let index: PackIndex
+    let start: number
+
+    if (state.version === PACK_VERSION && state.committed > 0) {
+      index = { ...state.index }
+      start = state.committed
+    } else {
+      // Read all surviving v1 entries before anything gets overwritten
+      const replaced = new Set([...entries.map(({ path }) => path), ...removals])
+      const carried: StoredEntry[] = []
+      for (const [path, entry] of Object.entries(state.index)) {
+        if (replaced.has(path)) continue
+        carried.push({ path, data: await io.read(entry.offset, entry.size), originalSize: entry.originalSize })
+      }
+      entries = [...carried, ...entries]
+      index = {}
+      start = HEADER_SIZE
+    }
+
+    for (const path of removals) {
+      delete index[path]
+    }
+
+    const { generation, indexSize } = this.buildGeneration(index, entries, start)
+    const committed = start + generation.length
+
+    if (state.committed > 0 && start === HEADER_SIZE) {
+      // Upgrading a v1 pack overwrites it in place, so journal the new pack first
+      const content = new Uint8Array(committed)
+      content.set(this.buildHeader(committed), 0)
+      content.set(generation, HEADER_SIZE)
+      await this.journal.write(content, (data) => this.replaceContent(io, data))
+      this.index = index
+      return { index, version: PACK_VERSION, committed, indexSize }
+    }
+
+    // The generation must be on disk before the header points at it
+    await io.write(generation, start)
+    io.flush()
+    await io.write(this.buildHeader(committed), 0)
+
+    // Drop leftovers of a torn append or an upgraded v1 pack
+    if (io.size > committed) {
+      await io.truncate(committed)
     }
+
+    this.index = index
+    return { index, version: PACK_VERSION, committed, indexSize }
+  }
+
+  /**
+   * Bytes in the pack that no live entry or the latest index refers to
+   */
+  private deadBytes(state: PackState): number {
+    let live = HEADER_SIZE + state.indexSize + FOOTER_SIZE
+    for (const entry of Object.values(state.index)) {
+      live += entry.size
+    }
+    return Math.max(0, state.committed - live)
+  }
+
+  /**
+   * Compact automatically once dead space crosses the configured ratio
+   */
+  private async maybeCompact(state: PackState | null): Promise<void> {
+    if (!state || this.compactThreshold <= 0 || state.committed === 0) return
+
+    const dead = this.deadBytes(state)
+    if (dead >= AUTO_COMPACT_MIN_BYTES && dead / state.committed >= this.compactThreshold) {
+      await this.compact()
+    }
+  }
+
+  /**
+   * Replace the pack contents with a complete pack image
+   * Only called through the journal, which restores the image if this is interrupted.
+   */
+  private async replaceContent(io: PackIO, content: Uint8Array): Promise<void> {
+    await io.truncate(0)
+    await io.write(content, 0)
+    io.flush()
+  }
+
+  /**
+   * Finish an interrupted rewrite of the pack from the journal (once per instance)
+   * Note: Caller must hold the lock
+   */
+  private async recoverJournal(packHandle: FileSystemFileHandle): Promise<boolean> {
+    if (this.recoveryChecked) return false
+
+    const restored = await this.journal.recover((content) => this.openIO(packHandle, (io) => this.replaceContent(io, content)))
+    this.recoveryChecked = true
+    return restored
   }
 
   /**
@@ -259,122 +611,151 @@ export class PackedStorage {
     return entry.originalSize ?? entry.size
   }
 
+  /**
+   * Check if a path is a directory implied by packed file paths
+   * The pack only stores files, so a directory exists as long as a file below it does
+   */
+  async isDirectory(dirPath: string): Promise<boolean> {
+    const index = await this.loadIndex()
+    const prefix = dirPath === '/' ? '/' : dirPath + '/'
+    for (const key in index) {
+      if (key.startsWith(prefix)) return true
+    }
+    return false
+  }
+
+  /**
+   * List the direct children of a directory implied by packed file paths
+   * Maps each name to whether it is a (virtual) directory
+   */
+  async readdir(dirPath: string): Promise<Map<string, boolean>> {
+    const index = await this.loadIndex()
+    const prefix = dirPath === '/' ? '/' : dirPath + '/'
+    const entries = new Map<string, boolean>()
+
+    for (const key in index) {
+      if (!key.startsWith(prefix)) continue
+      const rest = key.slice(prefix.length)
+      const slash = rest.indexOf('/')
+      if (slash === -1) {
+        if (!entries.has(rest)) entries.set(rest, false)
+      } else {
+        entries.set(rest.slice(0, slash), true)
+      }
+    }
+
+    return entries
+  }
+
+  /**
+   * Check if name is one of the pack files
+   */
+  isPackFile(name: string): boolean {
+    const packName = PACK_FILE.replace(/^\/+/, '')
+    return name === packName || name.startsWith(packName + CORRUPT_SUFFIX) || this.journal.isJournalFile(name)
+  }
+
   /**
    * Read a file from the pack
    * Handles decompression if file was stored compressed
    */
   async read(path: string): Promise<Uint8Array | null> {
-    const index = await this.loadIndex()
-    const entry = index[path]
-    if (!entry) return null
+    const stored = await this.withPack(false, async (io) => {
+      const { index } = await this.loadState(io)
+      const entry = index[path]
+      if (!entry) return null
+      return { data: await this.readEntry(io, path, entry), originalSize: entry.originalSize }
+    })
 
-    const { fileHandle } = await this.handleManager.getHandle(PACK_FILE)
-    if (!fileHandle) return null
+    if (!stored) return null
 
-    let buffer: Uint8Array
+    // Decompress if needed
+    if (stored.originalSize !== undefined) {
+      return decompress(stored.data)
+    }
 
-    if (this.useSync) {
-      const release = await fileLock.acquire(PACK_FILE)
-      try {
-        const access = await fileHandle.createSyncAccessHandle()
-        try {
-          buffer = new Uint8Array(entry.size)
-          access.read(buffer, { at: entry.offset })
-        } finally {
-          access.close()
+    return stored.data
+  }
+
+  /**
+   * Read a byte range of a file from the pack
+   * Uncompressed entries are read in place (their CRC32 is only verified when the
+   * range covers the whole entry); compressed entries have to be decompressed in full,
+   * which is done once for consecutive reads of the same entry.
+   */
+  async readRange(path: string, position: number, length: number): Promise<Uint8Array | null> {
+    const stored = await this.withPack(false, async (io) => {
+      const { index, committed } = await this.loadState(io)
+      const entry = index[path]
+      if (!entry) return null
+
+      if (entry.originalSize !== undefined) {
+        // Any later generation or compaction changes the committed length
+        const cached = this.rangeCache
+        const hit = cached?.path === path && cached.committed === committed && cached.offset === entry.offset
+        return {
+          compressed: true as const,
+          data: hit ? cached.data : await this.readEntry(io, path, entry),
+          decompressed: hit,
+          committed,
+          offset: entry.offset
         }
-      } finally {
-        release()
       }
-    } else {
-      const file = await fileHandle.getFile()
-      const data = new Uint8Array(await file.arrayBuffer())
-      buffer = data.slice(entry.offset, entry.offset + entry.size)
-    }
 
-    // Decompress if needed
-    if (entry.originalSize !== undefined) {
-      return decompress(buffer)
-    }
+      if (position === 0 && length >= entry.size) {
+        return { compressed: false as const, data: await this.readEntry(io, path, entry) }
+      }
 
-    return buffer
+      const start = Math.min(position, entry.size)
+      return { compressed: false as const, data: await io.read(entry.offset + start, Math.min(length, entry.size - start)) }
+    })
+
+    if (!stored) return null
+    if (!stored.compressed) return stored.data
+
+    // Keep the decompressed entry for the next range until a read starts past its end,
+    // which is how a stream finds out it is done
+    const data = stored.decompressed ? stored.data : await decompress(stored.data)
+    const whole = position === 0 && length >= data.length
+    this.rangeCache = whole || position >= data.length
+      ? null
+      : { path, committed: stored.committed, offset: stored.offset, data }
+    return data.slice(position, position + length)
   }
 
   /**
    * Read multiple files from the pack in a single operation
-   * Loads index once, reads all data in parallel
+   * Loads index once, reads all data with one open handle
    * Handles decompression if files were stored compressed
    */
   async readBatch(paths: string[]): Promise<Map<string, Uint8Array | null>> {
     const results = new Map<string, Uint8Array | null>()
     if (paths.length === 0) return results
 
-    const index = await this.loadIndex()
-
-    // Find which paths are in the pack
-    const toRead: Array<{ path: string; offset: number; size: number; originalSize?: number }> = []
     for (const path of paths) {
-      const entry = index[path]
-      if (entry) {
-        toRead.push({ path, offset: entry.offset, size: entry.size, originalSize: entry.originalSize })
-      } else {
-        results.set(path, null)
-      }
+      results.set(path, null)
     }
 
-    if (toRead.length === 0) return results
-
-    const { fileHandle } = await this.handleManager.getHandle(PACK_FILE)
-    if (!fileHandle) {
-      for (const { path } of toRead) {
-        results.set(path, null)
-      }
-      return results
-    }
-
-    // Read all files
-    const decompressPromises: Array<{ path: string; promise: Promise<Uint8Array> }> = []
-
-    if (this.useSync) {
-      const release = await fileLock.acquire(PACK_FILE)
-      try {
-        const access = await fileHandle.createSyncAccessHandle()
-        try {
-          for (const { path, offset, size, originalSize } of toRead) {
-            const buffer = new Uint8Array(size)
-            access.read(buffer, { at: offset })
-
-            if (originalSize !== undefined) {
-              // Queue for decompression
-              decompressPromises.push({ path, promise: decompress(buffer) })
-            } else {
-              results.set(path, buffer)
-            }
-          }
-        } finally {
-          access.close()
-        }
-      } finally {
-        release()
-      }
-    } else {
-      const file = await fileHandle.getFile()
-      const data = new Uint8Array(await file.arrayBuffer())
-      for (const { path, offset, size, originalSize } of toRead) {
-        const buffer = data.slice(offset, offset + size)
-
-        if (originalSize !== undefined) {
-          decompressPromises.push({ path, promise: decompress(buffer) })
-        } else {
-          results.set(path, buffer)
+    const stored = await this.withPack(false, async (io) => {
+      const { index } = await this.loadState(io)
+      const found: StoredEntry[] = []
+      for (const path of paths) {
+        const entry = index[path]
+        if (entry) {
+          found.push({ path, data: await this.readEntry(io, path, entry), originalSize: entry.originalSize })
         }
       }
-    }
+      return found
+    })
 
-    // Wait for all decompressions
-    for (const { path, promise } of decompressPromises) {
-      results.set(path, await promise)
-    }
+    if (!stored) return results
+
+    // Decompress in parallel outside the lock
+    await Promise.all(
+      stored.map(async ({ path, data, originalSize }) => {
+        results.set(path, originalSize !== undefined ? await decompress(data) : data)
+      })
+    )
 
     return results
   }
@@ -382,17 +763,15 @@ export class PackedStorage {
   /**
    * Write multiple files to the pack in a single operation
    * This is the key optimization - 100 files become 1 write!
-   * Includes CRC32 checksum for integrity verification.
+   * Entries are appended as a new generation; files from earlier batches survive.
    * Optionally compresses data for smaller storage.
-   * Note: This replaces the entire pack with the new entries
+   * Returns the paths that replaced an existing packed file.
    */
-  async writeBatch(entries: Array<{ path: string; data: Uint8Array }>): Promise<void> {
-    if (entries.length === 0) return
+  async writeBatch(entries: Array<{ path: string; data: Uint8Array }>): Promise<string[]> {
+    if (entries.length === 0) return []
 
-    const encoder = new TextEncoder()
-
-    // Compress data if enabled
-    let processedEntries: Array<{ path: string; data: Uint8Array; originalSize?: number }>
+    // Compress data if enabled (before taking the lock)
+    let processedEntries: StoredEntry[]
     if (this.useCompression) {
       processedEntries = await Promise.all(
         entries.map(async ({ path, data }) => {
@@ -408,190 +787,113 @@ export class PackedStorage {
       processedEntries = entries
     }
 
-    // Calculate total data size (using compressed sizes where applicable)
-    let totalDataSize = 0
-    for (const { data } of processedEntries) {
-      totalDataSize += data.length
-    }
-
-    // Build index - iterate until offsets stabilize
-    // (offset changes -> JSON length changes -> header size changes -> offset changes)
-    // Header format: [index length: 4][CRC32: 4][JSON index][file data...]
-    const newIndex: PackIndex = {}
-    let headerSize = 8 // 4 bytes index length + 4 bytes CRC32
-    let prevHeaderSize = 0
-
-    // Iterate until stable (usually 2-3 iterations)
-    while (headerSize !== prevHeaderSize) {
-      prevHeaderSize = headerSize
-
-      let currentOffset = headerSize
-      for (const { path, data, originalSize } of processedEntries) {
-        const entry: PackIndexEntry = { offset: currentOffset, size: data.length }
-        if (originalSize !== undefined) {
-          entry.originalSize = originalSize
-        }
-        newIndex[path] = entry
-        currentOffset += data.length
-      }
-
-      const indexBuf = encoder.encode(JSON.stringify(newIndex))
-      headerSize = 8 + indexBuf.length
-    }
-
-    // Build the complete pack file
-    const finalIndexBuf = encoder.encode(JSON.stringify(newIndex))
-    const totalSize = headerSize + totalDataSize
-    const packBuffer = new Uint8Array(totalSize)
-    const view = new DataView(packBuffer.buffer)
-
-    // Write index JSON at offset 8
-    packBuffer.set(finalIndexBuf, 8)
-
-    // Write data at correct offsets
-    for (const { path, data } of processedEntries) {
-      const entry = newIndex[path]
-      packBuffer.set(data, entry.offset)
+    // Later duplicates in the same batch win
+    const deduped = new Map<string, StoredEntry>()
+    for (const entry of processedEntries) {
+      deduped.delete(entry.path)
+      deduped.set(entry.path, entry)
     }
 
-    // Calculate CRC32 over content (index + data, everything after header) if enabled
-    const content = packBuffer.subarray(8)
-    const checksum = this.useChecksum ? crc32(content) : 0
+    let replaced: string[] = []
+    const state = await this.withPack(true, async (io) => {
+      const current = await this.loadState(io, true)
+      replaced = [...deduped.keys()].filter((path) => path in current.index)
+      return this.appendGeneration(io, current, [...deduped.values()])
+    })
 
-    // Write header (index length + CRC32)
-    view.setUint32(0, finalIndexBuf.length, true)
-    view.setUint32(4, checksum, true)
-
-    await this.writePackFile(packBuffer)
-    this.index = newIndex
+    await this.maybeCompact(state)
+    return replaced
   }
 
   /**
-   * Write the pack file to OPFS
-   * Note: Caller must hold the lock
+   * Remove a path from the pack index
+   * Note: Only appends a new index generation, the data stays until compaction
    */
-  private async writePackFile(data: Uint8Array): Promise<void> {
-    const { fileHandle } = await this.handleManager.getHandle(PACK_FILE, { create: true })
-    if (!fileHandle) return
+  async remove(path: string): Promise<boolean> {
+    return this.removeFromIndex((index) => (path in index ? [path] : []))
+  }
 
-    if (this.useSync) {
-      const release = await fileLock.acquire(PACK_FILE)
-      try {
-        const access = await fileHandle.createSyncAccessHandle()
-        try {
-          access.truncate(data.length)
-          access.write(data, { at: 0 })
-        } finally {
-          access.close()
-        }
-      } finally {
-        release()
-      }
-    } else {
-      const writable = await fileHandle.createWritable()
-      await writable.write(data)
-      await writable.close()
-    }
+  /**
+   * Remove all packed files below a directory in a single generation
+   */
+  async removeTree(dirPath: string): Promise<boolean> {
+    const prefix = dirPath === '/' ? '/' : dirPath + '/'
+    return this.removeFromIndex((index) => Object.keys(index).filter((key) => key.startsWith(prefix)))
   }
 
   /**
-   * Remove a path from the pack index
-   * Note: Doesn't reclaim space, just removes from index and recalculates CRC32
+   * Move all packed files below a directory to a new directory path
+   * Only the index changes - the new generation points at the existing data.
    */
-  async remove(path: string): Promise<boolean> {
-    const index = await this.loadIndex()
-    if (!(path in index)) return false
+  async renameTree(oldDir: string, newDir: string): Promise<boolean> {
+    const prefix = oldDir + '/'
+    const state = await this.withPack(false, async (io) => {
+      const current = await this.loadState(io)
+      const moved = Object.keys(current.index).filter((key) => key.startsWith(prefix))
+      if (moved.length === 0) return null
+
+      const index = { ...current.index }
+      for (const path of moved) {
+        index[newDir + path.slice(oldDir.length)] = index[path]
+        delete index[path]
+      }
+      return this.appendGeneration(io, { ...current, index }, [])
+    })
 
-    delete index[path]
+    return state !== null
+  }
 
-    const { fileHandle } = await this.handleManager.getHandle(PACK_FILE)
-    if (!fileHandle) return true
+  /**
+   * Append a generation without the paths selected from the current index
+   * Returns false if nothing was selected
+   */
+  private async removeFromIndex(select: (index: PackIndex) => string[]): Promise<boolean> {
+    // Most calls check a path that was never packed, which needs no pack access
+    const cached = await this.cachedIndex()
+    if (cached && select(cached).length === 0) return false
 
-    // Need to read existing file to recalculate CRC32
-    const encoder = new TextEncoder()
-    const newIndexBuf = encoder.encode(JSON.stringify(index))
+    const state = await this.withPack(false, async (io) => {
+      const current = await this.loadState(io)
+      const removals = select(current.index)
+      if (removals.length === 0) return null
+      return this.appendGeneration(io, current, [], removals)
+    })
 
-    if (this.useSync) {
-      const release = await fileLock.acquire(PACK_FILE)
-      try {
-        const access = await fileHandle.createSyncAccessHandle()
-        try {
-          const size = access.getSize()
-
-          // Read old header to get old index length
-          const oldHeader = new Uint8Array(8)
-          access.read(oldHeader, { at: 0 })
-          const oldIndexLen = new DataView(oldHeader.buffer).getUint32(0, true)
-
-          // Read data portion (after old index)
-          const dataStart = 8 + oldIndexLen
-          const dataSize = size - dataStart
-          const dataPortion = new Uint8Array(dataSize)
-          if (dataSize > 0) {
-            access.read(dataPortion, { at: dataStart })
-          }
+    if (!state) return false
 
-          // Build new content (new index + data)
-          const newContent = new Uint8Array(newIndexBuf.length + dataSize)
-          newContent.set(newIndexBuf, 0)
-          if (dataSize > 0) {
-            newContent.set(dataPortion, newIndexBuf.length)
-          }
+    await this.maybeCompact(state)
+    return true
+  }
 
-          // Calculate new CRC32 if enabled
-          const checksum = this.useChecksum ? crc32(newContent) : 0
+  /**
+   * Rewrite the pack with only live entries and the latest index
+   * Crash-safe: the compacted pack is journaled before it replaces the pack,
+   * and an interrupted swap is finished on next access.
+   */
+  async compact(): Promise<CompactResult> {
+    const result = await this.withPack(false, async (io) => {
+      // Don't compact a pack we can't read - that would discard its contents
+      const state = await this.readState(io)
+      const bytesBefore = io.size
+
+      const entries: StoredEntry[] = []
+      for (const [path, entry] of Object.entries(state.index)) {
+        entries.push({ path, data: await this.readEntry(io, path, entry), originalSize: entry.originalSize })
+      }
 
-          // Build new header
-          const newHeader = new Uint8Array(8)
-          const view = new DataView(newHeader.buffer)
-          view.setUint32(0, newIndexBuf.length, true)
-          view.setUint32(4, checksum, true)
+      const index: PackIndex = {}
+      const { generation } = this.buildGeneration(index, entries, HEADER_SIZE)
+      const content = new Uint8Array(HEADER_SIZE + generation.length)
+      content.set(this.buildHeader(content.length), 0)
+      content.set(generation, HEADER_SIZE)
 
-          // Write new file
-          const newFile = new Uint8Array(8 + newContent.length)
-          newFile.set(newHeader, 0)
-          newFile.set(newContent, 8)
+      await this.journal.write(content, (data) => this.replaceContent(io, data))
 
-          access.truncate(newFile.length)
-          access.write(newFile, { at: 0 })
-        } finally {
-          access.close()
-        }
-      } finally {
-        release()
-      }
-    } else {
-      // For non-sync, rewrite the whole file
-      const file = await fileHandle.getFile()
-      const oldData = new Uint8Array(await file.arrayBuffer())
-
-      if (oldData.length < 8) return true
-
-      const oldIndexLen = new DataView(oldData.buffer).getUint32(0, true)
-      const dataStart = 8 + oldIndexLen
-      const dataPortion = oldData.subarray(dataStart)
-
-      // Build new content
-      const newContent = new Uint8Array(newIndexBuf.length + dataPortion.length)
-      newContent.set(newIndexBuf, 0)
-      newContent.set(dataPortion, newIndexBuf.length)
-
-      // Calculate CRC32 if enabled
-      const checksum = this.useChecksum ? crc32(newContent) : 0
-
-      // Build new file
-      const newFile = new Uint8Array(8 + newContent.length)
-      const view = new DataView(newFile.buffer)
-      view.setUint32(0, newIndexBuf.length, true)
-      view.setUint32(4, checksum, true)
-      newFile.set(newContent, 8)
-
-      const writable = await fileHandle.createWritable()
-      await writable.write(newFile)
-      await writable.close()
-    }
+      this.index = index
+      return { bytesBefore, bytesAfter: content.length, bytesReclaimed: Math.max(0, bytesBefore - content.length) }
+    })
 
-    return true
+    return result ?? { bytesBefore: 0, bytesAfter: 0, bytesReclaimed: 0 }
   }
 
   /**
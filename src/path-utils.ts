@@ -1,3 +1,5 @@
+import { createEINVAL } from './errors.js'
+
 // Path normalization cache - LRU-style with max size
 const normalizeCache = new Map<string, string>()
 const CACHE_MAX_SIZE = 1000
@@ -95,3 +97,89 @@ export function isRoot(path: string): boolean {
 export function segments(path: string): string[] {
   return normalize(path).split('/').filter(Boolean)
 }
+
+/**
+ * Compile a glob pattern into a RegExp matching relative paths
+ * Supports `*` and `?` (within a segment), `**` (any number of segments),
+ * `[abc]` classes and `{a,b}` alternatives. Unmatched braces and brackets are literals;
+ * a pattern that still doesn't compile (e.g. `[z-a]`) fails with EINVAL.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = ''
+  let braceDepth = 0
+  const braces = matchedBraces(pattern)
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        const atSegmentStart = i === 0 || pattern[i - 1] === '/'
+        const atSegmentEnd = i + 2 === pattern.length || pattern[i + 2] === '/'
+        if (atSegmentStart && atSegmentEnd) {
+          // "**/" matches zero or more directories, a trailing "**" anything below
+          if (pattern[i + 2] === '/') {
+            source += '(?:.*/)?'
+            i += 2
+          } else {
+            source += '.*'
+            i += 1
+          }
+          continue
+        }
+        i += 1
+      }
+      source += '[^/]*'
+    } else if (char === '?') {
+      source += '[^/]'
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 1)
+      if (end === -1) {
+        source += '\\['
+      } else {
+        const body = pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')
+        source += `[${body}]`
+        i = end
+      }
+    } else if (char === '{' && braces.has(i)) {
+      braceDepth++
+      source += '(?:'
+    } else if (char === '}' && braces.has(i)) {
+      braceDepth--
+      source += ')'
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|'
+    } else {
+      source += char.replace(/[.+^$()|{}\\]/g, '\\$&')
+    }
+  }
+
+  try {
+    return new RegExp(`^${source}$`)
+  } catch {
+    throw createEINVAL(pattern, 'watch')
+  }
+}
+
+/**
+ * Positions of the braces in a glob that have a partner
+ */
+function matchedBraces(pattern: string): Set<number> {
+  const matched = new Set<number>()
+  const open: number[] = []
+
+  for (let i = 0; i < pattern.length; i++) {
+    if (pattern[i] === '[') {
+      // Braces inside a class are part of it
+      const end = pattern.indexOf(']', i + 1)
+      if (end !== -1) i = end
+    } else if (pattern[i] === '{') {
+      open.push(i)
+    } else if (pattern[i] === '}' && open.length > 0) {
+      matched.add(open.pop()!)
+      matched.add(i)
+    }
+  }
+
+  return matched
+}
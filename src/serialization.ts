@@ -0,0 +1,116 @@
+import type { Stats } from './types.js'
+import { FSError, wrapError } from './errors.js'
+
+/** Stats as sent between contexts (Dates and methods are rebuilt on the receiving side) */
+export interface SerializedStats {
+  type: string
+  size: number
+  mode: number
+  uid: number
+  gid: number
+  atimeMs: number
+  ctimeMs: number
+  mtimeMs: number
+  birthtimeMs: number
+  target?: string
+}
+
+/**
+ * Serialize a Stats object (functions can't be cloned or transferred)
+ */
+export function serializeStats(stats: Stats): SerializedStats {
+  return {
+    type: stats.type,
+    size: stats.size,
+    mode: stats.mode,
+    uid: stats.uid,
+    gid: stats.gid,
+    atimeMs: stats.atimeMs,
+    ctimeMs: stats.ctimeMs,
+    mtimeMs: stats.mtimeMs,
+    birthtimeMs: stats.birthtimeMs,
+    target: stats.target
+  }
+}
+
+/**
+ * Rebuild a Stats object from its serialized form
+ */
+export function deserializeStats(data: SerializedStats): Stats {
+  return {
+    type: data.type as 'file' | 'dir' | 'symlink',
+    size: data.size,
+    mode: data.mode,
+    uid: data.uid,
+    gid: data.gid,
+    atime: new Date(data.atimeMs),
+    atimeMs: data.atimeMs,
+    ctime: new Date(data.ctimeMs),
+    ctimeMs: data.ctimeMs,
+    mtime: new Date(data.mtimeMs),
+    mtimeMs: data.mtimeMs,
+    birthtime: new Date(data.birthtimeMs),
+    birthtimeMs: data.birthtimeMs,
+    target: data.target,
+    isFile: () => data.type === 'file',
+    isDirectory: () => data.type === 'dir',
+    isSymbolicLink: () => data.type === 'symlink'
+  }
+}
+
+/** An error as sent between contexts (Error subclasses lose their fields when cloned) */
+export interface SerializedError {
+  name: string
+  message: string
+  code?: string
+  errno?: number
+  syscall?: string
+  path?: string
+  stack?: string
+  original?: SerializedError
+}
+
+/**
+ * Serialize an error with all FSError fields, keeping the name of DOMExceptions
+ */
+export function serializeError(err: unknown): SerializedError {
+  const error = (err instanceof Error ? err : new Error(String(err))) as Error & Partial<FSError>
+  return {
+    name: error.name,
+    message: error.message,
+    code: typeof error.code === 'string' ? error.code : undefined,
+    errno: error.errno,
+    syscall: error.syscall,
+    path: error.path,
+    stack: error.stack,
+    original: error.original ? serializeError(error.original) : undefined
+  }
+}
+
+/**
+ * Rebuild an error from its serialized form
+ * Errors with a code become FSErrors, DOMExceptions are mapped like wrapError does.
+ * The stack is the one from the context that threw.
+ */
+export function deserializeError(data: SerializedError): FSError {
+  const original = data.original ? restoreError(data.original) : undefined
+  const error = data.code
+    ? new FSError(data.message, data.code, { syscall: data.syscall, path: data.path, original })
+    : wrapError(restoreError(data), { syscall: data.syscall, path: data.path })
+  error.errno = data.errno ?? error.errno
+  if (data.stack) error.stack = data.stack
+  return error
+}
+
+const ERROR_TYPES: Record<string, ErrorConstructor> = { Error, TypeError, RangeError, SyntaxError, ReferenceError }
+
+/** Rebuild a plain Error or DOMException with its name */
+function restoreError(data: SerializedError): Error {
+  if (data.code) return deserializeError(data)
+  const ErrorType = ERROR_TYPES[data.name]
+  const error = ErrorType || typeof DOMException === 'undefined'
+    ? new (ErrorType ?? Error)(data.message)
+    : new DOMException(data.message, data.name)
+  if (data.stack) error.stack = data.stack
+  return error
+}
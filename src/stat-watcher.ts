@@ -0,0 +1,193 @@
+import type { Stats, StatWatcher, WatchFileOptions, WatchFileListener, DirectoryChanges } from './types.js'
+import { normalize } from './path-utils.js'
+
+const DEFAULT_INTERVAL = 5007
+
+/**
+ * Operations a stat poller needs from its file system
+ */
+export interface StatWatcherContext {
+  stat(path: string): Promise<Stats>
+  readdir(path: string): Promise<string[]>
+}
+
+interface PolledPath {
+  watcher: StatWatcher
+  listeners: Set<WatchFileListener>
+  interval: number
+  persistent: boolean
+  entries: boolean
+  prev: Stats | null // null until the first poll
+  prevNames: string[]
+  timer: ReturnType<typeof setTimeout> | null
+}
+
+/**
+ * Polls paths for watchFile()
+ *
+ * Unlike watch(), polling also sees changes made without this library (another SDK
+ * writing to the same origin). Like Node.js there is one poller per path: later
+ * watchFile() calls for the same path add listeners to it and share its interval.
+ */
+export class StatWatchManager {
+  private polled: Map<string, PolledPath> = new Map()
+  private context: StatWatcherContext
+
+  constructor(context: StatWatcherContext) {
+    this.context = context
+  }
+
+  /**
+   * Start polling a path (or add a listener to its poller)
+   */
+  watchFile(path: string, options: WatchFileOptions, listener: WatchFileListener): StatWatcher {
+    const normalizedPath = normalize(path)
+    const existing = this.polled.get(normalizedPath)
+    if (existing) {
+      existing.listeners.add(listener)
+      return existing.watcher
+    }
+
+    const polled: PolledPath = {
+      watcher: {
+        ref: () => {
+          polled.persistent = true
+          return polled.watcher
+        },
+        unref: () => {
+          polled.persistent = false
+          return polled.watcher
+        }
+      },
+      listeners: new Set([listener]),
+      interval: options.interval ?? DEFAULT_INTERVAL,
+      persistent: options.persistent ?? true,
+      entries: options.entries ?? false,
+      prev: null,
+      prevNames: [],
+      timer: null
+    }
+    this.polled.set(normalizedPath, polled)
+    void this.poll(normalizedPath, polled)
+
+    return polled.watcher
+  }
+
+  /**
+   * Remove a listener, or all listeners of a path, and stop polling once none are left
+   */
+  unwatchFile(path: string, listener?: WatchFileListener): void {
+    const normalizedPath = normalize(path)
+    const polled = this.polled.get(normalizedPath)
+    if (!polled) return
+
+    if (listener) polled.listeners.delete(listener)
+    else polled.listeners.clear()
+
+    if (polled.listeners.size === 0) {
+      this.stop(normalizedPath, polled)
+    }
+  }
+
+  /**
+   * Stop polling all paths
+   */
+  close(): void {
+    for (const [path, polled] of this.polled) {
+      this.stop(path, polled)
+    }
+  }
+
+  private stop(path: string, polled: PolledPath): void {
+    if (polled.timer) clearTimeout(polled.timer)
+    polled.timer = null
+    this.polled.delete(path)
+  }
+
+  /**
+   * Stat the path, call the listeners if anything changed and schedule the next poll
+   * The first poll only records the baseline.
+   */
+  private async poll(path: string, polled: PolledPath): Promise<void> {
+    const curr = await this.context.stat(path).catch(() => createZeroStats())
+    const names = polled.entries && curr.isDirectory()
+      ? await this.context.readdir(path).then(list => [...list].sort(), () => [])
+      : []
+
+    // unwatchFile() may have been called while stat was pending
+    if (this.polled.get(path) !== polled) return
+
+    const prev = polled.prev
+    polled.prev = curr
+    const prevNames = polled.prevNames
+    polled.prevNames = names
+
+    if (prev) {
+      const changes = polled.entries ? diffNames(prevNames, names) : undefined
+      const entriesChanged = changes !== undefined && (changes.added.length > 0 || changes.removed.length > 0)
+      if (entriesChanged || statsChanged(prev, curr)) {
+        for (const listener of [...polled.listeners]) {
+          try {
+            listener(curr, prev, changes)
+          } catch (err) {
+            // Don't stop polling because of a listener, but don't swallow its error either
+            queueMicrotask(() => {
+              throw err
+            })
+          }
+        }
+      }
+    }
+
+    if (this.polled.get(path) !== polled) return
+    polled.timer = setTimeout(() => this.poll(path, polled), polled.interval)
+    if (!polled.persistent) {
+      (polled.timer as { unref?: () => void }).unref?.()
+    }
+  }
+}
+
+function statsChanged(prev: Stats, curr: Stats): boolean {
+  return (
+    prev.size !== curr.size ||
+    prev.mode !== curr.mode ||
+    prev.mtimeMs !== curr.mtimeMs ||
+    prev.ctimeMs !== curr.ctimeMs ||
+    prev.uid !== curr.uid ||
+    prev.gid !== curr.gid
+  )
+}
+
+function diffNames(prev: string[], curr: string[]): DirectoryChanges {
+  const before = new Set(prev)
+  const after = new Set(curr)
+  return {
+    added: curr.filter(name => !before.has(name)),
+    removed: prev.filter(name => !after.has(name))
+  }
+}
+
+/**
+ * Stats reported for a path that doesn't exist, like Node.js (all zero, epoch dates)
+ */
+function createZeroStats(): Stats {
+  const epoch = new Date(0)
+  return {
+    type: 'file',
+    size: 0,
+    mode: 0,
+    uid: 0,
+    gid: 0,
+    atime: epoch,
+    atimeMs: 0,
+    ctime: epoch,
+    ctimeMs: 0,
+    mtime: epoch,
+    mtimeMs: 0,
+    birthtime: epoch,
+    birthtimeMs: 0,
+    isFile: () => false,
+    isDirectory: () => false,
+    isSymbolicLink: () => false
+  }
+}
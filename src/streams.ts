@@ -1,16 +1,39 @@
-import type { ReadStreamOptions, WriteStreamOptions } from './types.js'
+import type { ReadStreamOptions, WriteStreamOptions, WriteStream } from './types.js'
+import type { HandleManager } from './handle-manager.js'
+
+// Chunk size for copying between swap file and target
+const COPY_CHUNK_SIZE = 1024 * 1024
+
+// Swap files live here, hidden from readdir; a stream holds a lock on its swap file
+// while open, so recovery only removes the ones left behind by a closed context
+const SWAP_DIR = '/.opfs-swap'
 
 export interface ReadStreamContext {
-  readFile(path: string): Promise<Uint8Array>
+  /** Read up to length bytes at position (fewer at the end of the file) */
+  readRange(path: string, position: number, length: number): Promise<Uint8Array>
+}
+
+/**
+ * Incremental writer for an open file
+ * Nothing is visible in the file until close(); abort() discards all writes.
+ */
+export interface StreamWriter {
+  /** File size when opened */
+  size: number
+  write(data: Uint8Array, position: number): Promise<void>
+  close(): Promise<void>
+  abort(): Promise<void>
 }
 
 export interface WriteStreamContext {
-  readFile(path: string): Promise<Uint8Array>
-  writeFile(path: string, data: Uint8Array): Promise<void>
+  /** Open a writer according to flags (rejects with ENOENT for 'r+' on a missing file) */
+  open(path: string, flags: string): Promise<StreamWriter>
 }
 
 /**
  * Create a ReadableStream for reading file contents
+ * Each pull reads one highWaterMark-sized range, so memory stays bounded
+ * regardless of file size and bytes before start are never loaded.
  */
 export function createReadStream(
   path: string,
@@ -19,29 +42,17 @@ export function createReadStream(
 ): ReadableStream<Uint8Array> {
   const { start = 0, end = Infinity, highWaterMark = 64 * 1024 } = options
   let position = start
-  let closed = false
-  let cachedData: Uint8Array | null = null
 
   return new ReadableStream({
     async pull(controller) {
-      if (closed) {
-        controller.close()
-        return
-      }
-
       try {
-        // Cache file data on first read - avoid re-reading on every pull
-        if (cachedData === null) {
-          cachedData = await context.readFile(path)
-        }
-
-        const endPos = Math.min(end, cachedData.length)
-        const chunk = cachedData.subarray(position, Math.min(position + highWaterMark, endPos))
+        const length = Math.min(highWaterMark, end - position)
+        const chunk = length > 0
+          ? await context.readRange(path, position, length)
+          : new Uint8Array(0)
 
-        if (chunk.length === 0 || position >= endPos) {
+        if (chunk.length === 0) {
           controller.close()
-          closed = true
-          cachedData = null // Release memory
           return
         }
 
@@ -50,60 +61,203 @@ export function createReadStream(
       } catch (err) {
         controller.error(err)
       }
-    },
-    cancel() {
-      closed = true
-      cachedData = null // Release memory
     }
   })
 }
 
 /**
- * Create a WritableStream for writing file contents
+ * Create a WritableStream that writes each chunk to the file as it arrives
+ * Writers see backpressure once highWaterMark bytes are queued.
  */
 export function createWriteStream(
   path: string,
   options: WriteStreamOptions,
   context: WriteStreamContext
-): WritableStream<Uint8Array> {
-  const { flags = 'w', start = 0 } = options
-  const chunks: Array<{ data: Uint8Array; position: number }> = []
+): WriteStream {
+  const { flags = 'w', start = 0, highWaterMark = 16 * 1024 } = options
+  let writer: StreamWriter | null = null
   let position = start
+  let bytesWritten = 0
+
+  const stream = new WritableStream<Uint8Array>({
+    async start() {
+      writer = await context.open(path, flags)
+      if (flags.includes('a')) {
+        position = writer.size
+      }
+    },
 
-  return new WritableStream({
     async write(chunk) {
-      chunks.push({ data: chunk, position })
+      await writer!.write(chunk, position)
       position += chunk.length
+      bytesWritten += chunk.length
     },
 
     async close() {
-      // Combine all chunks
-      let existingData = new Uint8Array(0)
+      await writer!.close()
+    },
 
-      if (!flags.includes('w')) {
-        try {
-          existingData = await context.readFile(path)
-        } catch (e) {
-          if ((e as { code?: string }).code !== 'ENOENT') throw e
-        }
-      }
+    async abort() {
+      await writer?.abort()
+    }
+  }, { highWaterMark, size: (chunk) => chunk.byteLength })
 
-      let maxSize = existingData.length
-      for (const { data, position } of chunks) {
-        maxSize = Math.max(maxSize, position + data.length)
-      }
+  return withBytesWritten(stream, () => bytesWritten)
+}
+
+/**
+ * Expose a live bytesWritten counter on a WritableStream
+ */
+export function withBytesWritten(stream: WritableStream<Uint8Array>, getBytesWritten: () => number): WriteStream {
+  return Object.defineProperty(stream, 'bytesWritten', { get: getBytesWritten }) as WriteStream
+}
+
+/**
+ * Open a writer backed by a FileSystemWritableFileStream
+ * The browser writes to a swap file and only replaces the original on close.
+ */
+export async function openWritableWriter(
+  fileHandle: FileSystemFileHandle,
+  keepExistingData: boolean
+): Promise<StreamWriter> {
+  const size = keepExistingData ? (await fileHandle.getFile()).size : 0
+  const writable = await fileHandle.createWritable({ keepExistingData })
+
+  return {
+    size,
+    async write(data, position) {
+      await writable.seek(position)
+      await writable.write(data)
+    },
+    close: () => writable.close(),
+    abort: () => writable.abort()
+  }
+}
 
-      const finalData = new Uint8Array(maxSize)
+/**
+ * Open a writer backed by a sync access handle on a swap file in SWAP_DIR
+ * For browsers without createWritable: the target is only locked and overwritten on close.
+ */
+export async function openSwapWriter(
+  handleManager: HandleManager,
+  fileHandle: FileSystemFileHandle,
+  keepExistingData: boolean
+): Promise<StreamWriter> {
+  const root = await handleManager.getRoot()
+  const swapDir = await root.getDirectoryHandle(SWAP_DIR.slice(1), { create: true })
+  const swapName = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}.swap`
+  // Locked before it exists, so recovery never takes it for an orphan
+  const release = await lockSwapFile(handleManager, swapName)
+
+  let swap: FileSystemSyncAccessHandle
+  try {
+    const swapHandle = await swapDir.getFileHandle(swapName, { create: true })
+    swap = await swapHandle.createSyncAccessHandle()
+  } catch (err) {
+    await swapDir.removeEntry(swapName).catch(() => {})
+    release()
+    throw err
+  }
+
+  const discard = async () => {
+    try {
+      swap.close()
+      await swapDir.removeEntry(swapName)
+    } finally {
+      release()
+    }
+  }
 
-      if (!flags.includes('w')) {
-        finalData.set(existingData, 0)
+  try {
+    if (keepExistingData) {
+      const source = await fileHandle.createSyncAccessHandle()
+      try {
+        copySync(source, swap)
+      } finally {
+        source.close()
       }
+    }
+  } catch (err) {
+    await discard()
+    throw err
+  }
 
-      for (const { data, position } of chunks) {
-        finalData.set(data, position)
+  return {
+    size: swap.getSize(),
+    async write(data, position) {
+      let written = 0
+      while (written < data.length) {
+        written += swap.write(data.subarray(written), { at: position + written })
+      }
+    },
+    async close() {
+      try {
+        swap.flush()
+        const target = await fileHandle.createSyncAccessHandle()
+        try {
+          copySync(swap, target)
+          target.flush()
+        } finally {
+          target.close()
+        }
+      } finally {
+        await discard()
       }
+    },
+    abort: discard
+  }
+}
 
-      await context.writeFile(path, finalData)
+/**
+ * Remove swap files of streams that were never closed (e.g. by a closed tab)
+ * Swap files of streams that are still open, here or in other contexts, are kept.
+ */
+export async function removeOrphanSwapFiles(handleManager: HandleManager): Promise<void> {
+  const root = await handleManager.getRoot()
+  let swapDir: FileSystemDirectoryHandle
+  try {
+    swapDir = await root.getDirectoryHandle(SWAP_DIR.slice(1))
+  } catch {
+    return
+  }
+
+  const names: string[] = []
+  for await (const [name] of swapDir.entries()) names.push(name)
+
+  for (const name of names) {
+    const release = await lockSwapFile(handleManager, name, true).catch(() => null)
+    if (!release) continue
+    try {
+      await swapDir.removeEntry(name)
+    } catch {
+      // Gone already, or still open by a context that doesn't share the lock
+    } finally {
+      release()
     }
-  })
+  }
+}
+
+/**
+ * Check if a root entry name is the swap directory
+ */
+export function isSwapDir(name: string): boolean {
+  return name === SWAP_DIR.slice(1)
+}
+
+function lockSwapFile(handleManager: HandleManager, name: string, ifAvailable = false): Promise<() => void> {
+  return handleManager.lock(`${SWAP_DIR}/${name}`, { crossContext: true, timeout: 0, ifAvailable })
+}
+
+/**
+ * Replace target's content with source's in bounded chunks
+ */
+function copySync(source: FileSystemSyncAccessHandle, target: FileSystemSyncAccessHandle): void {
+  const size = source.getSize()
+  target.truncate(size)
+
+  const buffer = new Uint8Array(Math.min(size, COPY_CHUNK_SIZE))
+  for (let offset = 0; offset < size; offset += buffer.length) {
+    const bytesRead = source.read(buffer, { at: offset })
+    target.write(buffer.subarray(0, bytesRead), { at: offset })
+  }
 }
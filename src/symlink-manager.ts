@@ -1,6 +1,6 @@
 import type { SymlinkCache, SymlinkDefinition } from './types.js'
 import type { HandleManager } from './handle-manager.js'
-import { fileLock } from './handle-manager.js'
+import { WriteAheadJournal, writeFileContent } from './journal.js'
 import { normalize } from './path-utils.js'
 import { createELOOP, createEINVAL, createEEXIST } from './errors.js'
 
@@ -19,10 +19,13 @@ export class SymlinkManager {
   private useSync: boolean
   private loadPromise: Promise<SymlinkCache> | null = null // Avoid multiple concurrent loads
   private diskLoaded = false // Track if we've loaded from disk
+  private journal: WriteAheadJournal
+  private recoveryChecked = false
 
   constructor(handleManager: HandleManager, useSync: boolean) {
     this.handleManager = handleManager
     this.useSync = useSync
+    this.journal = new WriteAheadJournal(handleManager, useSync, SYMLINK_FILE)
     // Initialize with empty cache - most operations won't need symlinks
     this.cache = {}
     this.cacheCount = 0
@@ -38,6 +41,25 @@ export class SymlinkManager {
     this.dirty = false
     this.loadPromise = null
     this.diskLoaded = false
+    this.recoveryChecked = false
+  }
+
+  /**
+   * Restore the symlink file from its journal if a save was interrupted
+   * Returns true if it was restored.
+   */
+  async recover(): Promise<boolean> {
+    if (this.recoveryChecked) return false
+
+    const release = await this.handleManager.lock(SYMLINK_FILE)
+    try {
+      if (this.recoveryChecked) return false
+      const restored = await this.journal.recover(data => this.writeFile(data))
+      this.recoveryChecked = true
+      return restored
+    } finally {
+      release()
+    }
   }
 
   /**
@@ -63,6 +85,7 @@ export class SymlinkManager {
    */
   private async loadFromDisk(): Promise<SymlinkCache> {
     try {
+      await this.recover()
       const { fileHandle } = await this.handleManager.getHandle(SYMLINK_FILE)
       if (!fileHandle) {
         // No symlink file exists - keep empty cache
@@ -89,43 +112,35 @@ export class SymlinkManager {
 
   /**
    * Save symlinks to metadata file
+   * Journaled, so an interrupted save leaves the previous or the new symlinks.
    */
   async save(): Promise<void> {
     if (!this.cache) return
 
     // Use compact JSON (no formatting) for better performance
-    const data = JSON.stringify(this.cache)
-    const { fileHandle } = await this.handleManager.getHandle(SYMLINK_FILE, { create: true })
+    const buffer = new TextEncoder().encode(JSON.stringify(this.cache))
 
-    if (!fileHandle) return
-
-    const buffer = new TextEncoder().encode(data)
-
-    if (this.useSync) {
-      const release = await fileLock.acquire(SYMLINK_FILE)
-      try {
-        const access = await fileHandle.createSyncAccessHandle()
-        try {
-          access.truncate(0)
-          let written = 0
-          while (written < buffer.length) {
-            written += access.write(buffer.subarray(written), { at: written })
-          }
-        } finally {
-          access.close()
-        }
-      } finally {
-        release()
-      }
-    } else {
-      const writable = await fileHandle.createWritable()
-      await writable.write(buffer)
-      await writable.close()
+    const release = await this.handleManager.lock(SYMLINK_FILE)
+    try {
+      await this.journal.write(buffer, data => this.writeFile(data))
+    } finally {
+      release()
     }
 
     this.dirty = false
   }
 
+  /**
+   * Replace the symlink file
+   * Note: Caller must hold the lock
+   */
+  private async writeFile(data: Uint8Array): Promise<void> {
+    const { fileHandle } = await this.handleManager.getHandle(SYMLINK_FILE, { create: true })
+    if (fileHandle) {
+      await writeFileContent(fileHandle, data, this.useSync)
+    }
+  }
+
   /**
    * Flush pending changes if dirty
    */
@@ -153,7 +168,16 @@ export class SymlinkManager {
       return path
     }
 
-    // We have symlinks in memory - resolve them
+    return this.resolveLoaded(path, maxDepth)
+  }
+
+  /**
+   * Resolve a path through the symlinks in memory without waiting
+   * Callers that need symlinks from disk must have awaited load() first.
+   */
+  resolveLoaded(path: string, maxDepth = MAX_SYMLINK_DEPTH): string {
+    if (this.cacheCount === 0) return path
+
     // Check resolved cache first for instant lookup
     const cached = this.resolvedCache.get(path)
     if (cached !== undefined) {
@@ -310,6 +334,48 @@ export class SymlinkManager {
     return false
   }
 
+  /**
+   * Move all symlinks below a directory to a new directory path
+   */
+  async renameTree(oldDir: string, newDir: string): Promise<boolean> {
+    const symlinks = await this.load()
+    if (this.cacheCount === 0) return false
+
+    const prefix = oldDir + '/'
+    const moved = Object.keys(symlinks).filter(path => path.startsWith(prefix))
+    if (moved.length === 0) return false
+
+    for (const path of moved) {
+      symlinks[newDir + path.slice(oldDir.length)] = symlinks[path]
+      delete symlinks[path]
+    }
+    this.clearResolvedCache() // Invalidate resolved cache
+    this.dirty = true
+    await this.flush()
+    return true
+  }
+
+  /**
+   * Remove all symlinks below a directory
+   */
+  async removeTree(dirPath: string): Promise<boolean> {
+    const symlinks = await this.load()
+    if (this.cacheCount === 0) return false
+
+    const prefix = dirPath === '/' ? '/' : dirPath + '/'
+    const removed = Object.keys(symlinks).filter(path => path.startsWith(prefix))
+    if (removed.length === 0) return false
+
+    for (const path of removed) {
+      delete symlinks[path]
+      this.cacheCount--
+    }
+    this.clearResolvedCache() // Invalidate resolved cache
+    this.dirty = true
+    await this.flush()
+    return true
+  }
+
   /**
    * Get all symlinks in a directory
    */
@@ -330,9 +396,9 @@ export class SymlinkManager {
   }
 
   /**
-   * Check if path is the symlink metadata file
+   * Check if path is the symlink metadata file or its journal
    */
   isMetadataFile(name: string): boolean {
-    return name === SYMLINK_FILE.replace(/^\/+/, '')
+    return name === SYMLINK_FILE.replace(/^\/+/, '') || this.journal.isJournalFile(name)
   }
 }
@@ -0,0 +1,255 @@
+import type { SyncChannel, SyncChannelOptions, FileHandle, Dirent, MkdirOptions } from './types.js'
+import type OPFS from './index.js'
+import { createENOTSUP, createEBADF } from './errors.js'
+import { serializeStats, serializeError, type SerializedError } from './serialization.js'
+
+/*
+ * Sync channel protocol
+ *
+ * Client and server share one buffer: three Int32 control slots (state, chunk length,
+ * flags) followed by the data area. A message is a JSON header plus an optional binary
+ * payload; messages larger than the data area are sent in chunks, each one handed over
+ * by flipping the state and acknowledged by the other side:
+ *
+ *   client: REQUEST chunk (MORE) -> server: ACK -> ... -> client: REQUEST chunk (last)
+ *   server: RESPONSE chunk (MORE) -> client: ACK -> ... -> server: RESPONSE chunk (last)
+ *
+ * The client blocks with Atomics.wait on the state slot. The server can't block (it
+ * needs its event loop for OPFS), so the client also posts an empty message on the
+ * port whenever it hands something over.
+ */
+
+const STATE = 0
+const LENGTH = 1
+const FLAGS = 2
+const HEADER_BYTES = 16
+
+export const IDLE = 0
+export const REQUEST = 1
+export const RESPONSE = 2
+export const ACK = 3
+
+const MORE = 1
+
+const DEFAULT_BUFFER_SIZE = 1024 * 1024
+
+/**
+ * View of a sync channel's shared buffer
+ */
+export class ChannelBuffer {
+  readonly control: Int32Array
+  private data: Uint8Array
+
+  constructor(buffer: SharedArrayBuffer) {
+    this.control = new Int32Array(buffer, 0, HEADER_BYTES / 4)
+    this.data = new Uint8Array(buffer, HEADER_BYTES)
+  }
+
+  get state(): number {
+    return Atomics.load(this.control, STATE)
+  }
+
+  setState(state: number): void {
+    Atomics.store(this.control, STATE, state)
+    Atomics.notify(this.control, STATE)
+  }
+
+  /**
+   * Copy the chunk of message starting at offset and hand it over with state
+   * Returns the offset of the next chunk (message.length when this was the last one).
+   */
+  put(message: Uint8Array, offset: number, state: number): number {
+    const length = Math.min(this.data.length, message.length - offset)
+    this.data.set(message.subarray(offset, offset + length))
+    const next = offset + length
+    Atomics.store(this.control, LENGTH, length)
+    Atomics.store(this.control, FLAGS, next < message.length ? MORE : 0)
+    this.setState(state)
+    return next
+  }
+
+  /**
+   * Copy out the chunk that was handed over
+   */
+  take(): { chunk: Uint8Array; more: boolean } {
+    const length = Atomics.load(this.control, LENGTH)
+    return {
+      chunk: this.data.slice(0, length),
+      more: (Atomics.load(this.control, FLAGS) & MORE) !== 0
+    }
+  }
+}
+
+/**
+ * Encode a message: [header length (u32)][JSON header][payload]
+ */
+export function encodeMessage(header: unknown, payload?: Uint8Array): Uint8Array {
+  const json = new TextEncoder().encode(JSON.stringify(header))
+  const message = new Uint8Array(4 + json.length + (payload?.length ?? 0))
+  new DataView(message.buffer).setUint32(0, json.length)
+  message.set(json, 4)
+  if (payload) message.set(payload, 4 + json.length)
+  return message
+}
+
+export function decodeMessage<T>(message: Uint8Array): { header: T; payload: Uint8Array } {
+  const jsonLength = new DataView(message.buffer, message.byteOffset).getUint32(0)
+  const header = JSON.parse(new TextDecoder().decode(message.subarray(4, 4 + jsonLength))) as T
+  return { header, payload: message.subarray(4 + jsonLength) }
+}
+
+export function concatChunks(chunks: Uint8Array[]): Uint8Array {
+  if (chunks.length === 1) return chunks[0]
+  const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0))
+  let offset = 0
+  for (const chunk of chunks) {
+    result.set(chunk, offset)
+    offset += chunk.length
+  }
+  return result
+}
+
+export interface SyncRequest {
+  method: string
+  args: unknown[]
+}
+
+export interface SyncResponse {
+  result?: unknown
+  error?: SerializedError
+}
+
+/**
+ * Create a sync channel: the client end goes to the worker that blocks, the server end
+ * to the context that owns the OPFS instance (see serveSyncChannel)
+ * SharedArrayBuffer is only available on cross-origin isolated pages.
+ */
+export function createSyncChannel(options: SyncChannelOptions = {}): { client: SyncChannel; server: SyncChannel } {
+  if (typeof SharedArrayBuffer === 'undefined' || globalThis.crossOriginIsolated !== true) {
+    throw createENOTSUP(
+      'createSyncChannel',
+      'SharedArrayBuffer needs a cross-origin isolated page, serve it with COOP "same-origin" and COEP "require-corp" headers'
+    )
+  }
+
+  const buffer = new SharedArrayBuffer(HEADER_BYTES + (options.bufferSize ?? DEFAULT_BUFFER_SIZE))
+  const { port1, port2 } = new MessageChannel()
+  return {
+    client: { buffer, port: port1 },
+    server: { buffer, port: port2 }
+  }
+}
+
+/**
+ * Answer the requests of an OPFSSyncClient with an OPFS instance
+ * Pass a function to always use the current instance. Returns a function that
+ * stops serving and closes the file handles the client left open.
+ */
+export function serveSyncChannel(channel: SyncChannel, fs: OPFS | (() => OPFS)): () => void {
+  const buffer = new ChannelBuffer(channel.buffer)
+  const getFs = typeof fs === 'function' ? fs : () => fs
+  const handles = new Map<number, FileHandle>()
+  let nextFd = 3
+  let requestChunks: Uint8Array[] = []
+  let response: Uint8Array | null = null
+  let responseOffset = 0
+
+  const respond = (message: Uint8Array): void => {
+    response = message
+    responseOffset = buffer.put(message, 0, RESPONSE)
+  }
+
+  const getHandle = (fd: number, syscall: string): FileHandle => {
+    const handle = handles.get(fd)
+    if (!handle) throw createEBADF(syscall)
+    return handle
+  }
+
+  const handle = async ({ method, args }: SyncRequest, payload: Uint8Array): Promise<[unknown, Uint8Array?]> => {
+    const opfs = getFs()
+    const path = args[0] as string
+
+    switch (method) {
+      case 'readFile':
+        return [null, await opfs.readFile(path) as Uint8Array]
+      case 'writeFile':
+        return [await opfs.writeFile(path, payload)]
+      case 'stat':
+        return [serializeStats(await opfs.stat(path))]
+      case 'lstat':
+        return [serializeStats(await opfs.lstat(path))]
+      case 'readdir': {
+        if (args[1] !== true) return [await opfs.readdir(path)]
+        const dirents = await opfs.readdir(path, { withFileTypes: true }) as Dirent[]
+        return [dirents.map(dirent => ({
+          name: dirent.name,
+          type: dirent.isSymbolicLink() ? 'symlink' : dirent.isDirectory() ? 'dir' : 'file'
+        }))]
+      }
+      case 'exists':
+        return [await opfs.exists(path)]
+      case 'mkdir':
+        return [await opfs.mkdir(path, args[1] as MkdirOptions | undefined)]
+      case 'unlink':
+        return [await opfs.unlink(path)]
+      case 'open': {
+        const fd = nextFd++
+        handles.set(fd, await opfs.open(path, args[1] as string | number))
+        return [fd]
+      }
+      case 'read': {
+        const [fd, length, position] = args as [number, number, number | null]
+        const data = new Uint8Array(length)
+        const { bytesRead } = await getHandle(fd, 'read').read(data, 0, length, position)
+        return [null, data.subarray(0, bytesRead)]
+      }
+      case 'write': {
+        const [fd, position] = args as [number, number | null]
+        const { bytesWritten } = await getHandle(fd, 'write').write(payload, 0, payload.length, position)
+        return [bytesWritten]
+      }
+      case 'close': {
+        const fileHandle = getHandle(args[0] as number, 'close')
+        handles.delete(args[0] as number)
+        return [await fileHandle.close()]
+      }
+      default:
+        throw new Error(`Unknown method: ${method}`)
+    }
+  }
+
+  const process = async (message: Uint8Array): Promise<void> => {
+    try {
+      const { header, payload } = decodeMessage<SyncRequest>(message)
+      const [result, data] = await handle(header, payload)
+      respond(encodeMessage({ result } satisfies SyncResponse, data))
+    } catch (err) {
+      respond(encodeMessage({ error: serializeError(err) } satisfies SyncResponse))
+    }
+  }
+
+  channel.port.onmessage = () => {
+    const state = buffer.state
+    if (state === REQUEST) {
+      const { chunk, more } = buffer.take()
+      requestChunks.push(chunk)
+      if (more) {
+        buffer.setState(ACK)
+        return
+      }
+      const message = concatChunks(requestChunks)
+      requestChunks = []
+      void process(message)
+    } else if (state === ACK && response) {
+      responseOffset = buffer.put(response, responseOffset, RESPONSE)
+      if (responseOffset >= response.length) response = null
+    }
+  }
+
+  return () => {
+    channel.port.onmessage = null
+    channel.port.close()
+    for (const fileHandle of handles.values()) void fileHandle.close()
+    handles.clear()
+  }
+}
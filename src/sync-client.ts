@@ -0,0 +1,167 @@
+import type { Stats, Dirent, SyncChannel, SyncClientOptions, ReadFileOptions, ReaddirOptions, MkdirOptions } from './types.js'
+import { FSError } from './errors.js'
+import { deserializeStats, deserializeError, type SerializedStats } from './serialization.js'
+import {
+  ChannelBuffer,
+  IDLE,
+  REQUEST,
+  ACK,
+  encodeMessage,
+  decodeMessage,
+  concatChunks,
+  type SyncResponse
+} from './sync-bridge.js'
+
+/**
+ * Blocking file system client for a sync channel
+ *
+ * Runs in a worker that is allowed to block (Atomics.wait isn't allowed on the main
+ * thread), e.g. the worker of esbuild-wasm or a WASI runtime. Each call blocks until
+ * the context serving the channel (the OPFS worker, see OPFSWorker.createSyncChannel)
+ * has answered it.
+ *
+ * @example
+ * // main thread
+ * const channel = await fs.createSyncChannel()
+ * runtime.postMessage(channel, [channel.port])
+ *
+ * // runtime worker
+ * const client = new OPFSSyncClient(event.data)
+ * const source = client.readFileSync('/src/index.ts', { encoding: 'utf-8' })
+ */
+export class OPFSSyncClient {
+  private buffer: ChannelBuffer
+  private port: MessagePort
+  private timeout: number | undefined
+  private broken = false
+
+  constructor(channel: SyncChannel, options: SyncClientOptions = {}) {
+    this.buffer = new ChannelBuffer(channel.buffer)
+    this.port = channel.port
+    this.timeout = options.timeout
+  }
+
+  readFileSync(path: string, options: ReadFileOptions = {}): string | Uint8Array {
+    const { payload } = this.call('readFile', [path])
+    return options.encoding ? new TextDecoder(options.encoding).decode(payload) : payload
+  }
+
+  writeFileSync(path: string, data: string | Uint8Array): void {
+    const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data
+    this.call('writeFile', [path], bytes)
+  }
+
+  statSync(path: string): Stats {
+    return deserializeStats(this.call('stat', [path]).result as SerializedStats)
+  }
+
+  lstatSync(path: string): Stats {
+    return deserializeStats(this.call('lstat', [path]).result as SerializedStats)
+  }
+
+  readdirSync(path: string, options?: ReaddirOptions): string[] | Dirent[] {
+    if (!options?.withFileTypes) {
+      return this.call('readdir', [path]).result as string[]
+    }
+    const entries = this.call('readdir', [path, true]).result as { name: string; type: string }[]
+    return entries.map(({ name, type }) => ({
+      name,
+      isFile: () => type === 'file',
+      isDirectory: () => type === 'dir',
+      isSymbolicLink: () => type === 'symlink'
+    }))
+  }
+
+  existsSync(path: string): boolean {
+    return this.call('exists', [path]).result as boolean
+  }
+
+  mkdirSync(path: string, options?: MkdirOptions): string | undefined {
+    return this.call('mkdir', [path, options]).result as string | undefined
+  }
+
+  unlinkSync(path: string): void {
+    this.call('unlink', [path])
+  }
+
+  openSync(path: string, flags: string | number = 'r'): number {
+    return this.call('open', [path, flags]).result as number
+  }
+
+  readSync(
+    fd: number,
+    buffer: Uint8Array,
+    offset = 0,
+    length = buffer.length - offset,
+    position: number | null = null
+  ): number {
+    const { payload } = this.call('read', [fd, length, position])
+    buffer.set(payload, offset)
+    return payload.length
+  }
+
+  writeSync(
+    fd: number,
+    data: string | Uint8Array,
+    offset = 0,
+    length?: number,
+    position: number | null = null
+  ): number {
+    const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data
+    const chunk = bytes.subarray(offset, length === undefined ? undefined : offset + length)
+    return this.call('write', [fd, position], chunk).result as number
+  }
+
+  closeSync(fd: number): void {
+    this.call('close', [fd])
+  }
+
+  /**
+   * Send a request and block until its response has arrived
+   */
+  private call(method: string, args: unknown[], data?: Uint8Array): { result: unknown; payload: Uint8Array } {
+    if (this.broken) {
+      throw new FSError(`EPIPE: sync channel is unusable after a timeout, ${method}`, 'EPIPE', { syscall: method })
+    }
+
+    // Send the request, waiting for the server to acknowledge every chunk but the last
+    const request = encodeMessage({ method, args }, data)
+    let offset = 0
+    do {
+      offset = this.buffer.put(request, offset, REQUEST)
+      this.port.postMessage(null)
+      this.wait(method, REQUEST)
+    } while (offset < request.length)
+
+    // Receive the response, acknowledging every chunk but the last
+    const chunks: Uint8Array[] = []
+    for (;;) {
+      const { chunk, more } = this.buffer.take()
+      chunks.push(chunk)
+      if (!more) break
+      this.buffer.setState(ACK)
+      this.port.postMessage(null)
+      this.wait(method, ACK)
+    }
+    this.buffer.setState(IDLE)
+
+    const { header, payload } = decodeMessage<SyncResponse>(concatChunks(chunks))
+    if (header.error) throw deserializeError(header.error)
+    return { result: header.result, payload }
+  }
+
+  /**
+   * Block until the server has changed the state we handed over
+   */
+  private wait(method: string, state: number): void {
+    const deadline = this.timeout === undefined ? Infinity : Date.now() + this.timeout
+    while (this.buffer.state === state) {
+      const remaining = deadline - Date.now()
+      if (remaining <= 0 || Atomics.wait(this.buffer.control, 0, state, remaining) === 'timed-out') {
+        // The server may still answer later, which would corrupt the next call
+        this.broken = true
+        throw new FSError(`ETIMEDOUT: sync channel timed out, ${method}`, 'ETIMEDOUT', { syscall: method })
+      }
+    }
+  }
+}
@@ -0,0 +1,559 @@
+import type { Stats, Dirent, FileMetadata, ReadFileOptions, WriteFileOptions, ReaddirOptions, MkdirOptions } from './types.js'
+import type { HandleManager } from './handle-manager.js'
+import type { SymlinkManager } from './symlink-manager.js'
+import type { MetadataManager } from './metadata-manager.js'
+import type { PackedStorage } from './packed-storage.js'
+import { parseFlags } from './constants.js'
+import { createENOENT, createEEXIST, createEISDIR, createENOTDIR, createEBADF, wrapError, FSError } from './errors.js'
+import { normalize, dirname, basename, join, isRoot } from './path-utils.js'
+
+/**
+ * What the sync file system needs from its OPFS instance
+ * Structural changes are persisted through the instance's async methods.
+ */
+export interface SyncFileSystemContext {
+  handleManager: HandleManager
+  symlinkManager: SymlinkManager
+  metadataManager: MetadataManager
+  packedStorage: PackedStorage
+  createStats(type: 'file' | 'dir', size: number, lastModified: number, meta?: FileMetadata): Stats
+  emit(eventType: 'rename' | 'change', path: string): void
+  readdir(path: string): Promise<Dirent[]>
+  writeFile(path: string, data: Uint8Array): Promise<void>
+  mkdir(path: string, options: MkdirOptions): Promise<string | undefined>
+  unlink(path: string): Promise<void>
+  logError(method: string, err: unknown): void
+}
+
+interface SyncEntry {
+  kind: 'file' | 'dir' | 'symlink'
+  /** Held sync access handle of a standalone file */
+  access?: FileSystemSyncAccessHandle
+  /** Content of a file without a handle yet (packed, or created since prepare) */
+  data?: Uint8Array
+  /** data has changes that are queued to be written */
+  dirty?: boolean
+  mtimeMs: number
+}
+
+interface OpenFile {
+  path: string
+  entry: SyncEntry
+  position: number
+  readable: boolean
+  writable: boolean
+  append: boolean
+  sync: boolean
+  modified: boolean
+}
+
+const FIRST_FD = 3 // 0-2 are stdio in Node.js
+
+/**
+ * Synchronous file system over a snapshot of the tree, for worker contexts
+ *
+ * OPFS can only read and write synchronously through a FileSystemSyncAccessHandle,
+ * and getting handles is always async. prepare() therefore walks the given paths once,
+ * resolves their directory handles and opens a sync access handle for every file in
+ * them, so reads and writes of existing files never wait. Sync access handles are
+ * exclusive, so only the paths the caller names are held. Creating and removing
+ * entries updates the snapshot right away and is persisted through the async API in
+ * the background, in order; new files live in memory until their handle is open.
+ */
+export class SyncFileSystem {
+  private context: SyncFileSystemContext
+  private entries: Map<string, SyncEntry> = new Map()
+  private fds: Map<number, OpenFile> = new Map()
+  private nextFd = FIRST_FD
+  private queue: Promise<void> = Promise.resolve() // Background persistence
+  private failure: FSError | null = null // First persistence step that failed
+  private failureReported = false
+
+  constructor(context: SyncFileSystemContext) {
+    this.context = context
+  }
+
+  /**
+   * Snapshot the given files and directory trees and open sync access handles for their files
+   */
+  async prepare(paths: string[]): Promise<void> {
+    const { symlinkManager, metadataManager } = this.context
+    await Promise.all([symlinkManager.load(), metadataManager.load()])
+
+    for (const path of paths) {
+      const normalizedPath = normalize(path)
+      for (let dir = dirname(normalizedPath); ; dir = dirname(dir)) {
+        if (!this.entries.has(dir)) this.entries.set(dir, { kind: 'dir', mtimeMs: 0 })
+        if (isRoot(dir)) break
+      }
+      if (isRoot(normalizedPath)) {
+        await this.scan(normalizedPath)
+        continue
+      }
+      // Files are prepared on their own, directories with everything below them
+      const dirent = await this.findDirent(normalizedPath)
+      if (dirent) await this.add(normalizedPath, dirent)
+    }
+  }
+
+  /**
+   * Wait for background persistence, then close every held handle
+   * Fails with the first error of background persistence, if any.
+   */
+  async release(): Promise<void> {
+    await this.queue
+    this.close()
+    if (this.failure) throw this.failure
+  }
+
+  /**
+   * Throw the first error of background persistence, once
+   * Called before each sync method, so the call after a failed write reports it.
+   */
+  checkPersisted(): void {
+    if (!this.failure || this.failureReported) return
+    this.failureReported = true
+    throw this.failure
+  }
+
+  /**
+   * Close every held handle without waiting for background persistence
+   */
+  close(): void {
+    for (const [path, entry] of this.entries) {
+      if (entry.access) {
+        this.context.handleManager.releaseSyncAccess(path)
+      }
+    }
+    this.entries.clear()
+    this.fds.clear()
+  }
+
+  existsSync(path: string): boolean {
+    try {
+      this.lookup(path)
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  statSync(path: string): Stats {
+    const { resolvedPath, entry } = this.lookup(path)
+    const meta = this.context.metadataManager.peek(resolvedPath)
+    if (entry.kind === 'dir') {
+      return this.context.createStats('dir', 0, 0, meta)
+    }
+    return this.context.createStats('file', sizeOf(entry), entry.mtimeMs, meta)
+  }
+
+  readdirSync(path: string, options?: ReaddirOptions): string[] | Dirent[] {
+    const { resolvedPath, entry } = this.lookup(path)
+    if (entry.kind !== 'dir') {
+      throw createENOTDIR(path, 'scandir')
+    }
+
+    const prefix = resolvedPath === '/' ? '/' : resolvedPath + '/'
+    const children: Array<[string, SyncEntry]> = []
+    for (const [childPath, child] of this.entries) {
+      if (childPath.length > prefix.length && childPath.startsWith(prefix) && !childPath.includes('/', prefix.length)) {
+        children.push([basename(childPath), child])
+      }
+    }
+
+    if (options?.withFileTypes !== true) {
+      return children.map(([name]) => name)
+    }
+    return children.map(([name, child]) => ({
+      name,
+      isFile: () => child.kind === 'file',
+      isDirectory: () => child.kind === 'dir',
+      isSymbolicLink: () => child.kind === 'symlink'
+    }))
+  }
+
+  readFileSync(path: string, options: ReadFileOptions = {}): string | Uint8Array {
+    const { entry } = this.lookup(path)
+    if (entry.kind === 'dir') throw createEISDIR(path, 'read')
+
+    const buffer = new Uint8Array(sizeOf(entry))
+    readAt(entry, buffer, 0)
+    return options.encoding ? new TextDecoder(options.encoding).decode(buffer) : buffer
+  }
+
+  writeFileSync(path: string, data: string | Uint8Array, _options: WriteFileOptions = {}): void {
+    const buffer = typeof data === 'string' ? new TextEncoder().encode(data) : data
+    const { resolvedPath, entry } = this.openEntry(path, 'open')
+
+    if (entry.access) {
+      entry.access.truncate(buffer.length)
+      writeFully(entry.access, buffer, 0)
+      entry.access.flush()
+      this.touched(resolvedPath, entry)
+    } else {
+      entry.data = buffer.slice()
+      this.persist(resolvedPath, entry)
+    }
+  }
+
+  mkdirSync(path: string, options: MkdirOptions = {}): string | undefined {
+    const normalizedPath = normalize(path)
+    if (this.entries.has(normalizedPath)) {
+      if (options.recursive && this.tryLookup(normalizedPath)?.entry.kind === 'dir') return undefined
+      throw createEEXIST(path, 'mkdir')
+    }
+    if (this.hasFileAncestor(normalizedPath)) {
+      throw createENOTDIR(path, 'mkdir')
+    }
+    if (!options.recursive && !this.entries.has(dirname(normalizedPath))) {
+      throw createENOENT(path, 'mkdir')
+    }
+
+    let first = normalizedPath
+    while (!isRoot(first) && !this.entries.has(dirname(first))) first = dirname(first)
+    this.createParents(normalizedPath)
+    this.entries.set(normalizedPath, { kind: 'dir', mtimeMs: Date.now() })
+    this.enqueue('mkdir', async () => {
+      await this.context.mkdir(normalizedPath, { recursive: true, mode: options.mode })
+    })
+    return options.recursive ? first : undefined
+  }
+
+  unlinkSync(path: string): void {
+    const normalizedPath = this.resolveParent(normalize(path))
+    const entry = this.entries.get(normalizedPath)
+    if (!entry) throw createENOENT(path)
+    if (entry.kind === 'dir') throw createEISDIR(path, 'unlink')
+
+    this.entries.delete(normalizedPath)
+    if (entry.access) {
+      this.context.handleManager.releaseSyncAccess(normalizedPath)
+    }
+    this.enqueue('unlink', () => this.context.unlink(normalizedPath).catch(err => {
+      // A file created and removed before it was persisted never reached OPFS
+      if ((err as FSError).code !== 'ENOENT') throw err
+    }))
+  }
+
+  openSync(path: string, flags: string | number = 'r'): number {
+    const { readable, writable, create, exclusive, truncate, append, sync } = parseFlags(flags, path)
+
+    const normalizedPath = normalize(path)
+    let resolved = this.tryLookup(normalizedPath)
+    if (exclusive && (resolved || this.entries.has(normalizedPath))) throw createEEXIST(path, 'open')
+    if (resolved?.entry.kind === 'dir' && writable) throw createEISDIR(path, 'open')
+    if (!resolved) {
+      if (!create) throw createENOENT(path)
+      resolved = this.openEntry(path, 'open')
+      this.persist(resolved.resolvedPath, resolved.entry)
+    }
+
+    const { resolvedPath, entry } = resolved
+    if (truncate && entry.kind === 'file' && sizeOf(entry) > 0) {
+      this.truncateEntry(resolvedPath, entry)
+    }
+
+    const fd = this.nextFd++
+    this.fds.set(fd, {
+      path: resolvedPath,
+      entry,
+      position: append ? sizeOf(entry) : 0,
+      readable,
+      writable,
+      append,
+      sync,
+      modified: false
+    })
+    return fd
+  }
+
+  readSync(
+    fd: number,
+    buffer: Uint8Array,
+    offset = 0,
+    length = buffer.length - offset,
+    position: number | null = null
+  ): number {
+    const file = this.fds.get(fd)
+    if (!file || !file.readable || !this.isCurrent(file)) throw createEBADF('read')
+    if (file.entry.kind === 'dir') throw createEISDIR(file.path, 'read')
+
+    const at = position ?? file.position
+    const bytesRead = readAt(file.entry, buffer.subarray(offset, offset + length), at)
+    if (position === null) file.position += bytesRead
+    return bytesRead
+  }
+
+  writeSync(
+    fd: number,
+    data: string | Uint8Array,
+    offset = 0,
+    length?: number,
+    position: number | null = null
+  ): number {
+    const file = this.fds.get(fd)
+    if (!file || !file.writable || !this.isCurrent(file)) throw createEBADF('write')
+
+    const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data
+    const chunk = bytes.subarray(offset, length === undefined ? undefined : offset + length)
+    const at = file.append ? sizeOf(file.entry) : position ?? file.position
+    const { entry } = file
+
+    if (entry.access) {
+      writeFully(entry.access, chunk, at)
+      if (file.sync) entry.access.flush()
+      entry.mtimeMs = Date.now()
+      file.modified = true
+    } else {
+      const current = entry.data ?? new Uint8Array(0)
+      const next = new Uint8Array(Math.max(current.length, at + chunk.length))
+      next.set(current)
+      next.set(chunk, at)
+      entry.data = next
+      this.persist(file.path, entry)
+    }
+
+    if (position === null || file.append) file.position = at + chunk.length
+    return chunk.length
+  }
+
+  closeSync(fd: number): void {
+    const file = this.fds.get(fd)
+    if (!file) throw createEBADF('close')
+    this.fds.delete(fd)
+
+    if (file.modified && this.isCurrent(file)) {
+      file.entry.access!.flush()
+      this.context.emit('change', file.path)
+    }
+  }
+
+  /**
+   * Record the entries of a directory, recursively
+   */
+  private async scan(dir: string): Promise<void> {
+    let dirents: Dirent[]
+    try {
+      dirents = await this.context.readdir(dir)
+    } catch (err) {
+      if ((err as FSError).code === 'ENOENT') return
+      throw err
+    }
+
+    for (const dirent of dirents) {
+      await this.add(join(dir, dirent.name), dirent)
+    }
+  }
+
+  /**
+   * Record an entry that isn't in the snapshot yet
+   * Directories get their handle resolved and are scanned (again, if an earlier path was inside).
+   */
+  private async add(path: string, dirent: Dirent): Promise<void> {
+    if (dirent.isDirectory()) {
+      if (!this.entries.has(path)) this.entries.set(path, { kind: 'dir', mtimeMs: 0 })
+      await this.context.handleManager.getDirectoryHandle(path)
+      await this.scan(path)
+    } else if (!this.entries.has(path)) {
+      this.entries.set(path, dirent.isSymbolicLink() ? { kind: 'symlink', mtimeMs: 0 } : await this.openFile(path))
+    }
+  }
+
+  /**
+   * The directory entry for a path, or null if it doesn't exist
+   */
+  private async findDirent(path: string): Promise<Dirent | null> {
+    try {
+      const dirents = await this.context.readdir(dirname(path))
+      return dirents.find(dirent => dirent.name === basename(path)) ?? null
+    } catch (err) {
+      const code = (err as FSError).code
+      if (code === 'ENOENT' || code === 'ENOTDIR') return null
+      throw err
+    }
+  }
+
+  /**
+   * Hold a sync access handle for a standalone file, or load a packed file into memory
+   */
+  private async openFile(path: string): Promise<SyncEntry> {
+    const { handleManager, packedStorage } = this.context
+    const { fileHandle } = await handleManager.getHandle(path).catch(() => ({ fileHandle: null }))
+
+    if (!fileHandle) {
+      const data = await packedStorage.read(path)
+      return { kind: 'file', data: data ?? new Uint8Array(0), mtimeMs: 0 }
+    }
+
+    const file = await fileHandle.getFile()
+    const { access } = await handleManager.holdSyncAccess(path, fileHandle)
+    return { kind: 'file', access, mtimeMs: file.lastModified }
+  }
+
+  /**
+   * Find the entry for a path, following a symlink at the path
+   */
+  private lookup(path: string): { resolvedPath: string; entry: SyncEntry } {
+    const normalizedPath = normalize(path)
+    const resolved = this.tryLookup(normalizedPath)
+    if (!resolved) throw this.hasFileAncestor(normalizedPath) ? createENOTDIR(path) : createENOENT(path)
+    return resolved
+  }
+
+  /**
+   * Resolve a symlink at the parent directory of a path, but not at the path itself
+   */
+  private resolveParent(normalizedPath: string): string {
+    const parent = dirname(normalizedPath)
+    try {
+      const resolvedParent = this.context.symlinkManager.resolveLoaded(parent)
+      return resolvedParent === parent ? normalizedPath : join(resolvedParent, basename(normalizedPath))
+    } catch (err) {
+      throw wrapError(err)
+    }
+  }
+
+  private hasFileAncestor(normalizedPath: string): boolean {
+    for (let dir = dirname(normalizedPath); dir !== '/'; dir = dirname(dir)) {
+      if (this.entries.get(dir)?.kind === 'file') return true
+    }
+    return false
+  }
+
+  private tryLookup(normalizedPath: string): { resolvedPath: string; entry: SyncEntry } | null {
+    let resolvedPath = normalizedPath
+    if (this.entries.get(normalizedPath)?.kind === 'symlink') {
+      try {
+        resolvedPath = this.context.symlinkManager.resolveLoaded(normalizedPath)
+      } catch (err) {
+        throw wrapError(err)
+      }
+    }
+
+    const entry = this.entries.get(resolvedPath)
+    if (!entry || entry.kind === 'symlink') return null
+    return { resolvedPath, entry }
+  }
+
+  /**
+   * Find or create the file entry at a path
+   */
+  private openEntry(path: string, syscall: string): { resolvedPath: string; entry: SyncEntry } {
+    const normalizedPath = normalize(path)
+    const resolved = this.tryLookup(normalizedPath)
+    if (resolved) {
+      if (resolved.entry.kind === 'dir') throw createEISDIR(path, syscall)
+      return resolved
+    }
+
+    // Like writeFile, missing parent directories are created (a dangling symlink writes its target)
+    const target = this.entries.get(normalizedPath)?.kind === 'symlink'
+      ? this.context.symlinkManager.resolveLoaded(normalizedPath)
+      : normalizedPath
+    if (this.hasFileAncestor(target)) throw createENOTDIR(path, syscall)
+    this.createParents(target)
+    const entry: SyncEntry = { kind: 'file', data: new Uint8Array(0), mtimeMs: Date.now() }
+    this.entries.set(target, entry)
+    return { resolvedPath: target, entry }
+  }
+
+  /**
+   * Add missing parent directories to the snapshot (the async writes create them on disk)
+   */
+  private createParents(path: string): void {
+    for (let dir = dirname(path); !this.entries.has(dir); dir = dirname(dir)) {
+      if (this.entries.get(dir)?.kind === 'file') break
+      this.entries.set(dir, { kind: 'dir', mtimeMs: Date.now() })
+    }
+  }
+
+  private truncateEntry(path: string, entry: SyncEntry): void {
+    if (entry.access) {
+      entry.access.truncate(0)
+      this.touched(path, entry)
+    } else {
+      entry.data = new Uint8Array(0)
+      this.persist(path, entry)
+    }
+  }
+
+  private touched(path: string, entry: SyncEntry): void {
+    entry.mtimeMs = Date.now()
+    this.context.emit('change', path)
+  }
+
+  /**
+   * Whether an open file's entry is still in the snapshot (it may have been unlinked)
+   */
+  private isCurrent(file: OpenFile): boolean {
+    return this.entries.get(file.path) === file.entry
+  }
+
+  /**
+   * Queue writing an in-memory file to OPFS, then switch it to a held sync access handle
+   * Writes made while this is pending only update the memory copy.
+   */
+  private persist(path: string, entry: SyncEntry): void {
+    entry.mtimeMs = Date.now()
+    if (entry.dirty) return
+    entry.dirty = true
+
+    this.enqueue('persist', async () => {
+      if (this.entries.get(path) !== entry) return
+      const { handleManager } = this.context
+
+      await this.context.writeFile(path, entry.data!)
+      const { fileHandle } = await handleManager.getHandle(path)
+      const { access, release } = await handleManager.holdSyncAccess(path, fileHandle!)
+
+      // Removed while persisting - the queued unlink cleans up
+      if (this.entries.get(path) !== entry) {
+        release()
+        return
+      }
+
+      // Catch up with writes made while persisting
+      const data = entry.data!
+      access.truncate(data.length)
+      writeFully(access, data, 0)
+      access.flush()
+
+      entry.access = access
+      entry.data = undefined
+      entry.dirty = false
+    })
+  }
+
+  /**
+   * Run a persistence step after the previous ones
+   * The snapshot stays usable after a failure, but the change didn't reach OPFS: the
+   * first failure is thrown by the next sync call and by release().
+   */
+  private enqueue(method: string, task: () => Promise<void>): void {
+    this.queue = this.queue.then(task).catch(err => {
+      this.context.logError(`${method} (sync)`, err)
+      this.failure ??= wrapError(err)
+    })
+  }
+}
+
+function sizeOf(entry: SyncEntry): number {
+  if (entry.access) return entry.access.getSize()
+  return entry.data?.length ?? 0
+}
+
+function readAt(entry: SyncEntry, buffer: Uint8Array, position: number): number {
+  if (entry.access) return entry.access.read(buffer, { at: position })
+
+  const data = entry.data ?? new Uint8Array(0)
+  const bytes = data.subarray(position, position + buffer.length)
+  buffer.set(bytes)
+  return bytes.length
+}
+
+function writeFully(access: FileSystemSyncAccessHandle, data: Uint8Array, position: number): void {
+  let written = 0
+  while (written < data.length) {
+    written += access.write(data.subarray(written), { at: position + written })
+  }
+}
@@ -0,0 +1,485 @@
+import type { Stats, Transaction, ReadFileOptions, WriteFileOptions } from './types.js'
+import type { HandleManager } from './handle-manager.js'
+import { writeFileContent } from './journal.js'
+import { normalize, dirname, join } from './path-utils.js'
+import { FSError, createENOENT, createEEXIST, createEISDIR, createEBADF, createELOOP, createENOTSUP, wrapError } from './errors.js'
+
+const TRANSACTION_DIR = '/.opfs-tx'
+const JOURNAL_FILE = 'journal.json'
+const PROGRESS_FILE = 'progress'
+const ATTEMPTS_FILE = 'attempts'
+const JOURNAL_VERSION = 1
+const MAX_APPLY_ATTEMPTS = 3
+const MAX_SYMLINK_DEPTH = 10
+
+/*
+ * Transactions are redo logs
+ *
+ * Each transaction stages its file contents in /.opfs-tx/<id>/<slot> while the callback
+ * runs. When it returns, the list of operations is written to /.opfs-tx/<id>/journal.json
+ * in one write - that is the commit point. The operations are then applied in order and
+ * the directory is removed. A directory without a journal is an unfinished transaction
+ * and is discarded; one with a journal was committed but maybe not fully applied, so
+ * recover() applies it again.
+ *
+ * A running transaction holds a lock on /.opfs-tx/<id> (across contexts where Web Locks
+ * exist), so recovery in other instances and tabs leaves its directory alone.
+ *
+ * After each operation, the number of applied operations is written to
+ * /.opfs-tx/<id>/progress, and recovery continues from there. Replaying finished
+ * operations isn't safe (after a→b, b→c the rename a→b would fail; after a→b and a new
+ * write to a, it would move the new a over b). Only the operation that was interrupted
+ * runs twice, so each one can be applied twice without harm.
+ *
+ * Failed attempts to apply a journal are counted in /.opfs-tx/<id>/attempts. After
+ * MAX_APPLY_ATTEMPTS, the transaction is dropped, so a failure that recurs (a directory
+ * now sits at a target, ...) doesn't fail every later recover().
+ */
+
+type JournalOp =
+  | { op: 'write'; path: string; slot: number }
+  | { op: 'unlink'; path: string }
+  | { op: 'rename'; from: string; to: string }
+  | { op: 'symlink'; target: string; path: string }
+
+interface Journal {
+  version: number
+  ops: JournalOp[]
+}
+
+/** How a path looks inside a transaction that changed it */
+type StagedEntry =
+  | { kind: 'file'; slot: number }
+  | { kind: 'symlink'; target: string }
+  | { kind: 'deleted' }
+  | { kind: 'moved'; from: string } // Content is still at the original path on disk
+
+/**
+ * What transactions need from their OPFS instance
+ * Operations are applied through the instance's methods, so they emit watch events
+ * and keep symlinks, metadata and packed files consistent.
+ */
+export interface TransactionContext {
+  handleManager: HandleManager
+  useSync: boolean
+  readFile(path: string): Promise<Uint8Array>
+  writeFile(path: string, data: Uint8Array): Promise<void>
+  unlink(path: string): Promise<void>
+  rename(oldPath: string, newPath: string): Promise<void>
+  symlink(target: string, path: string): Promise<void>
+  readlink(path: string): Promise<string>
+  stat(path: string): Promise<Stats>
+  lstat(path: string): Promise<Stats>
+  logError(method: string, err: unknown): void
+}
+
+/**
+ * Runs fs.transaction() callbacks and recovers interrupted transactions
+ */
+export class TransactionManager {
+  private context: TransactionContext
+  private recoverPromise: Promise<number> | null = null
+
+  constructor(context: TransactionContext) {
+    this.context = context
+  }
+
+  /**
+   * Run fn with a transaction and apply its changes when it returns
+   * Nothing is applied if fn throws.
+   */
+  async run<T>(fn: (tx: Transaction) => Promise<T>): Promise<T> {
+    await this.recover()
+
+    const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+    // Taken before the directory exists, so recovery never sees it unlocked
+    const releaseLease = await this.lease(id)
+    let dir: FileSystemDirectoryHandle
+    try {
+      dir = await this.getTransactionDir(id)
+    } catch (err) {
+      releaseLease()
+      throw wrapError(err, { path: TRANSACTION_DIR, syscall: 'mkdir' })
+    }
+    const staged = new StagedTransaction(this.context, dir)
+    let committed = false
+
+    try {
+      let result: T
+      try {
+        result = await fn(staged)
+      } finally {
+        staged.finish()
+      }
+
+      if (staged.ops.length > 0) {
+        // Commits are applied one at a time, so they can't interleave
+        const release = await this.context.handleManager.lock(TRANSACTION_DIR)
+        try {
+          try {
+            await writeFileContent(
+              await dir.getFileHandle(JOURNAL_FILE, { create: true }),
+              new TextEncoder().encode(JSON.stringify({ version: JOURNAL_VERSION, ops: staged.ops } satisfies Journal)),
+              this.context.useSync
+            )
+          } catch (err) {
+            throw wrapError(err, { path: `${TRANSACTION_DIR}/${id}/${JOURNAL_FILE}`, syscall: 'write' })
+          }
+          committed = true
+          try {
+            await this.applyCommitted(staged.ops, dir, () => this.discard(id))
+          } catch (err) {
+            // Committed but not applied - keep the journal so the next recover() finishes it
+            this.recoverPromise = null
+            throw err
+          }
+        } finally {
+          release()
+        }
+      }
+
+      await this.discard(id)
+      return result
+    } catch (err) {
+      // Uncommitted transactions are discarded, committed ones are left for recovery
+      if (!committed) await this.discard(id).catch(discardErr => this.context.logError('transaction', discardErr))
+      throw err
+    } finally {
+      releaseLease()
+    }
+  }
+
+  /**
+   * Finish transactions that were committed but interrupted (e.g. by a closed tab) and
+   * discard the ones that never committed
+   * Runs once per instance; returns the number of transactions that were applied.
+   */
+  recover(): Promise<number> {
+    this.recoverPromise ??= this.recoverAll().catch(err => {
+      this.recoverPromise = null
+      throw err
+    })
+    return this.recoverPromise
+  }
+
+  /**
+   * Check if a root entry name is the transaction directory
+   */
+  isTransactionDir(name: string): boolean {
+    return name === TRANSACTION_DIR.slice(1)
+  }
+
+  private async recoverAll(): Promise<number> {
+    const root = await this.context.handleManager.getRoot()
+    let transactions: FileSystemDirectoryHandle
+    try {
+      transactions = await root.getDirectoryHandle(TRANSACTION_DIR.slice(1))
+    } catch {
+      return 0
+    }
+
+    const ids: string[] = []
+    for await (const [name, handle] of transactions.entries()) {
+      if (handle.kind === 'directory') ids.push(name)
+    }
+
+    let applied = 0
+    let failure: unknown = null
+    const release = await this.context.handleManager.lock(TRANSACTION_DIR)
+    try {
+      for (const id of ids) {
+        // Still running in this or another instance
+        const releaseLease = await this.lease(id, true).catch(() => null)
+        if (!releaseLease) continue
+
+        try {
+          const dir = await transactions.getDirectoryHandle(id)
+          const journal = await readJournal(dir)
+          if (journal) {
+            await this.applyCommitted(journal.ops, dir, () => transactions.removeEntry(id, { recursive: true }))
+            applied++
+          }
+          await transactions.removeEntry(id, { recursive: true })
+        } catch (err) {
+          // Other transactions are still recovered; the first failure is reported
+          failure ??= err
+        } finally {
+          releaseLease()
+        }
+      }
+      await removeIfEmpty(root, transactions)
+    } finally {
+      release()
+    }
+
+    if (failure) throw failure
+    return applied
+  }
+
+  /**
+   * Lock a transaction for as long as it runs or is recovered
+   * With ifAvailable, fails with EBUSY if someone else holds it.
+   */
+  private lease(id: string, ifAvailable = false): Promise<() => void> {
+    return this.context.handleManager.lock(`${TRANSACTION_DIR}/${id}`, { crossContext: true, timeout: 0, ifAvailable })
+  }
+
+  /**
+   * Apply a committed transaction and count the attempt if it fails
+   * The last allowed attempt drops the transaction and reports the error, so it isn't
+   * retried forever.
+   */
+  private async applyCommitted(ops: JournalOp[], dir: FileSystemDirectoryHandle, drop: () => Promise<void>): Promise<void> {
+    try {
+      await this.apply(ops, dir)
+    } catch (err) {
+      const attempts = await dir.getFileHandle(ATTEMPTS_FILE, { create: true })
+      const failed = await readCount(attempts) + 1
+      if (failed < MAX_APPLY_ATTEMPTS) {
+        await writeCount(attempts, failed, this.context.useSync)
+      } else {
+        this.context.logError('transaction', err)
+        await drop()
+      }
+      throw err
+    }
+  }
+
+  /**
+   * Apply a committed transaction's operations in order
+   * Continues after the operations that an interrupted earlier attempt finished.
+   */
+  private async apply(ops: JournalOp[], dir: FileSystemDirectoryHandle): Promise<void> {
+    const { context } = this
+    const progress = await dir.getFileHandle(PROGRESS_FILE, { create: true })
+    for (let index = await readCount(progress); index < ops.length; index++) {
+      const op = ops[index]
+      switch (op.op) {
+        case 'write':
+          await context.writeFile(op.path, await readRaw(await dir.getFileHandle(String(op.slot))))
+          break
+        case 'unlink':
+          await context.unlink(op.path).catch(ignoreENOENT)
+          break
+        case 'rename':
+          if (!await this.lexists(op.from) && await this.lexists(op.to)) break
+          await context.rename(op.from, op.to)
+          break
+        case 'symlink':
+          if (await context.readlink(op.path).catch(() => null) === op.target) break
+          await context.symlink(op.target, op.path)
+          break
+      }
+      await writeCount(progress, index + 1, context.useSync)
+    }
+  }
+
+  private lexists(path: string): Promise<boolean> {
+    return this.context.lstat(path).then(() => true, () => false)
+  }
+
+  private async getTransactionDir(id: string): Promise<FileSystemDirectoryHandle> {
+    const root = await this.context.handleManager.getRoot()
+    const transactions = await root.getDirectoryHandle(TRANSACTION_DIR.slice(1), { create: true })
+    return transactions.getDirectoryHandle(id, { create: true })
+  }
+
+  private async discard(id: string): Promise<void> {
+    const root = await this.context.handleManager.getRoot()
+    const transactions = await root.getDirectoryHandle(TRANSACTION_DIR.slice(1))
+    await transactions.removeEntry(id, { recursive: true })
+    await removeIfEmpty(root, transactions)
+  }
+}
+
+/**
+ * The transaction object passed to the callback
+ * Keeps the staged state of every path it changed, in front of the file system.
+ */
+class StagedTransaction implements Transaction {
+  readonly ops: JournalOp[] = []
+  private staged = new Map<string, StagedEntry>()
+  private nextSlot = 0
+  private finished = false
+  private context: TransactionContext
+  private dir: FileSystemDirectoryHandle
+
+  constructor(context: TransactionContext, dir: FileSystemDirectoryHandle) {
+    this.context = context
+    this.dir = dir
+  }
+
+  finish(): void {
+    this.finished = true
+  }
+
+  async readFile(path: string, options: ReadFileOptions = {}): Promise<string | Uint8Array> {
+    this.check('read')
+    const data = await this.read(normalize(path), path, 0)
+    return options.encoding ? new TextDecoder(options.encoding).decode(data) : data
+  }
+
+  async exists(path: string): Promise<boolean> {
+    this.check('exists')
+    return this.read(normalize(path), path, 0).then(() => true, () => false)
+  }
+
+  async writeFile(path: string, data: string | Uint8Array, _options: WriteFileOptions = {}): Promise<void> {
+    this.check('write')
+    const target = this.resolveStaged(normalize(path), path)
+    const entry = this.staged.get(target)
+    if (!entry && await this.context.stat(target).then(stats => stats.isDirectory(), () => false)) {
+      throw createEISDIR(path, 'open')
+    }
+
+    const slot = this.nextSlot++
+    const buffer = typeof data === 'string' ? new TextEncoder().encode(data) : data
+    try {
+      await writeFileContent(await this.dir.getFileHandle(String(slot), { create: true }), buffer, this.context.useSync)
+    } catch (err) {
+      throw wrapError(err, { path, syscall: 'write' })
+    }
+    this.ops.push({ op: 'write', path: target, slot })
+    this.staged.set(target, { kind: 'file', slot })
+  }
+
+  async unlink(path: string): Promise<void> {
+    this.check('unlink')
+    const normalizedPath = normalize(path)
+    await this.lstat(normalizedPath, path, 'unlink')
+    this.ops.push({ op: 'unlink', path: normalizedPath })
+    this.staged.set(normalizedPath, { kind: 'deleted' })
+  }
+
+  async rename(oldPath: string, newPath: string): Promise<void> {
+    this.check('rename')
+    const from = normalize(oldPath)
+    const to = normalize(newPath)
+    await this.lstat(from, oldPath, 'rename')
+    if (!this.staged.has(to) && await this.context.lstat(to).then(stats => stats.isDirectory(), () => false)) {
+      throw createEISDIR(newPath, 'rename')
+    }
+    if (from === to) return
+
+    this.ops.push({ op: 'rename', from, to })
+    this.staged.set(to, this.staged.get(from) ?? { kind: 'moved', from })
+    this.staged.set(from, { kind: 'deleted' })
+  }
+
+  async symlink(target: string, path: string): Promise<void> {
+    this.check('symlink')
+    const normalizedPath = normalize(path)
+    const exists = await this.lstat(normalizedPath, path, 'symlink').then(() => true, () => false)
+    if (exists) throw createEEXIST(path, 'symlink')
+
+    this.ops.push({ op: 'symlink', target, path: normalizedPath })
+    const resolvedTarget = target.startsWith('/') ? normalize(target) : join(dirname(normalizedPath), target)
+    this.staged.set(normalizedPath, { kind: 'symlink', target: resolvedTarget })
+  }
+
+  private check(syscall: string): void {
+    if (this.finished) throw createEBADF(syscall)
+  }
+
+  /**
+   * Fail like lstat if the path doesn't exist in the transaction's view
+   * Directories aren't staged, so they are only accepted where noted.
+   */
+  private async lstat(normalizedPath: string, path: string, syscall: string): Promise<void> {
+    const entry = this.staged.get(normalizedPath)
+    if (entry?.kind === 'deleted') throw createENOENT(path, syscall)
+    if (entry) return
+
+    const stats = await this.context.lstat(normalizedPath)
+    if (stats.isDirectory()) {
+      throw syscall === 'unlink' ? createEISDIR(path, syscall) : createENOTSUP(syscall, 'transactions only stage files and symlinks')
+    }
+  }
+
+  /**
+   * Follow symlinks that were created in this transaction
+   */
+  private resolveStaged(normalizedPath: string, path: string, depth = 0): string {
+    const entry = this.staged.get(normalizedPath)
+    if (entry?.kind !== 'symlink') return normalizedPath
+    if (depth >= MAX_SYMLINK_DEPTH) throw createELOOP(path)
+    return this.resolveStaged(entry.target, path, depth + 1)
+  }
+
+  private async read(normalizedPath: string, path: string, depth: number): Promise<Uint8Array> {
+    const entry = this.staged.get(normalizedPath)
+    switch (entry?.kind) {
+      case 'file':
+        try {
+          return await readRaw(await this.dir.getFileHandle(String(entry.slot)))
+        } catch (err) {
+          throw wrapError(err, { path, syscall: 'open' })
+        }
+      case 'symlink':
+        if (depth >= MAX_SYMLINK_DEPTH) throw createELOOP(path)
+        return this.read(entry.target, path, depth + 1)
+      case 'deleted':
+        throw createENOENT(path, 'open')
+      case 'moved':
+        return this.context.readFile(entry.from)
+      default:
+        return this.context.readFile(normalizedPath)
+    }
+  }
+}
+
+/**
+ * Leave no empty transaction directory behind
+ */
+async function removeIfEmpty(root: FileSystemDirectoryHandle, transactions: FileSystemDirectoryHandle): Promise<void> {
+  if ((await transactions.entries().next()).done) {
+    await root.removeEntry(TRANSACTION_DIR.slice(1)).catch(() => {})
+  }
+}
+
+function ignoreENOENT(err: unknown): void {
+  if ((err as FSError).code !== 'ENOENT') throw err
+}
+
+async function readJournal(dir: FileSystemDirectoryHandle): Promise<Journal | null> {
+  try {
+    const journal = JSON.parse(new TextDecoder().decode(await readRaw(await dir.getFileHandle(JOURNAL_FILE)))) as Journal
+    return journal.version === JOURNAL_VERSION && Array.isArray(journal.ops) ? journal : null
+  } catch {
+    // Missing or torn journal - the transaction never committed
+    return null
+  }
+}
+
+/**
+ * Read a counter: applied operations (progress) or failed attempts (0 if none were recorded)
+ */
+async function readCount(fileHandle: FileSystemFileHandle): Promise<number> {
+  const data = await readRaw(fileHandle)
+  return data.length === 4 ? new DataView(data.buffer, data.byteOffset, 4).getUint32(0, true) : 0
+}
+
+/**
+ * Record a counter
+ * Overwrites the 4 bytes in place, so there is no moment without a count.
+ */
+async function writeCount(fileHandle: FileSystemFileHandle, count: number, useSync: boolean): Promise<void> {
+  const data = new Uint8Array(4)
+  new DataView(data.buffer).setUint32(0, count, true)
+  if (useSync) {
+    const access = await fileHandle.createSyncAccessHandle()
+    try {
+      access.write(data, { at: 0 })
+      access.flush()
+    } finally {
+      access.close()
+    }
+  } else {
+    await writeFileContent(fileHandle, data, false)
+  }
+}
+
+async function readRaw(fileHandle: FileSystemFileHandle): Promise<Uint8Array> {
+  const file = await fileHandle.getFile()
+  return new Uint8Array(await file.arrayBuffer())
+}
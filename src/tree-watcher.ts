@@ -0,0 +1,390 @@
+import type {
+  Stats,
+  TreeWatcher,
+  TreeWatchOptions,
+  TreeWatchEventName,
+  TreeWatchEventDetail,
+  WatchCallback
+} from './types.js'
+import { normalize, dirname, basename, join, globToRegExp } from './path-utils.js'
+
+/**
+ * Operations a tree watcher needs from its file system
+ */
+export interface TreeWatcherContext {
+  /** Receive raw events at or below a path (absolute paths), returns an unsubscribe function */
+  subscribe(path: string, callback: WatchCallback): () => void
+  stat(path: string): Promise<Stats>
+  readdir(path: string): Promise<string[]>
+}
+
+type Listener = (...args: never[]) => void
+
+interface PendingWrite {
+  event: 'add' | 'change'
+  size: number
+  mtimeMs: number
+  stableSince: number
+  timer: ReturnType<typeof setTimeout>
+}
+
+const DEFAULT_STABILITY_THRESHOLD = 2000
+const DEFAULT_POLL_INTERVAL = 100
+
+/**
+ * Create a chokidar-style watcher for a directory tree
+ * Raw watch events only say that something happened at a path, so the watcher keeps a
+ * snapshot of the tree and compares each touched path against it to tell add, change
+ * and unlink apart. Events are processed one at a time, in order.
+ */
+export function createTreeWatcher(
+  root: string,
+  options: TreeWatchOptions,
+  context: TreeWatcherContext
+): TreeWatcher {
+  return new DirectoryTreeWatcher(normalize(root), options, context)
+}
+
+class DirectoryTreeWatcher extends EventTarget implements TreeWatcher {
+  private root: string
+  private context: TreeWatcherContext
+  private include: RegExp[] | null
+  private exclude: RegExp[]
+  private ignoreInitial: boolean
+  private stabilityThreshold = 0 // 0 when awaitWriteFinish is off
+  private pollInterval = DEFAULT_POLL_INTERVAL
+  private entries: Map<string, boolean> = new Map() // Known paths below root -> isDirectory
+  private pendingWrites: Map<string, PendingWrite> = new Map()
+  private listeners: Map<string, Map<Listener, EventListener>> = new Map()
+  private queue: Promise<void> = Promise.resolve()
+  private unsubscribe: () => void
+  private closed = false
+
+  constructor(root: string, options: TreeWatchOptions, context: TreeWatcherContext) {
+    super()
+    this.root = root
+    this.context = context
+    this.include = options.include !== undefined ? toPatterns(options.include) : null
+    this.exclude = options.exclude !== undefined ? toPatterns(options.exclude) : []
+    this.ignoreInitial = options.ignoreInitial ?? false
+
+    const { awaitWriteFinish } = options
+    if (awaitWriteFinish) {
+      const settings = awaitWriteFinish === true ? {} : awaitWriteFinish
+      this.stabilityThreshold = settings.stabilityThreshold ?? DEFAULT_STABILITY_THRESHOLD
+      this.pollInterval = settings.pollInterval ?? DEFAULT_POLL_INTERVAL
+    }
+
+    // Subscribe before scanning so nothing that happens during the scan is missed
+    this.unsubscribe = context.subscribe(root, (eventType, path) => {
+      this.enqueue(() => this.reconcile(eventType, path))
+    })
+    this.enqueue(async () => {
+      await this.scan(root, true)
+      this.dispatch('ready')
+    })
+  }
+
+  on(event: string, listener: Listener): this {
+    const wrapper: EventListener = (e) => this.invoke(event, listener, e)
+    this.listenersOf(event).set(listener, wrapper)
+    this.addEventListener(event, wrapper)
+    return this
+  }
+
+  once(event: string, listener: Listener): this {
+    const wrapper: EventListener = (e) => {
+      this.off(event, listener)
+      this.invoke(event, listener, e)
+    }
+    this.listenersOf(event).set(listener, wrapper)
+    this.addEventListener(event, wrapper)
+    return this
+  }
+
+  off(event: string, listener: Listener): this {
+    const wrapper = this.listeners.get(event)?.get(listener)
+    if (wrapper) {
+      this.removeEventListener(event, wrapper)
+      this.listeners.get(event)!.delete(listener)
+    }
+    return this
+  }
+
+  getWatched(): Record<string, string[]> {
+    const watched: Record<string, string[]> = { [this.root]: [] }
+    for (const [path, isDirectory] of this.entries) {
+      if (isDirectory) watched[path] ??= []
+    }
+    for (const path of this.entries.keys()) {
+      watched[dirname(path)]?.push(basename(path))
+    }
+    return watched
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) return
+    this.closed = true
+    this.unsubscribe()
+    for (const { timer } of this.pendingWrites.values()) clearTimeout(timer)
+    this.pendingWrites.clear()
+    await this.queue
+  }
+
+  /**
+   * Run a task after all previously queued ones, reporting failures as 'error' events
+   */
+  private enqueue(task: () => Promise<void>): void {
+    this.queue = this.queue
+      .then(() => (this.closed ? undefined : task()))
+      .catch(err => this.dispatch('error', err))
+  }
+
+  /**
+   * Compare a path touched by a raw event against the snapshot
+   */
+  private async reconcile(eventType: string, path: string): Promise<void> {
+    if (this.isExcluded(path)) return
+
+    if (path === this.root) {
+      const stats = await this.tryStat(path)
+      if (stats?.isDirectory()) {
+        await this.scan(path, false)
+      } else {
+        for (const child of [...this.childrenOf(path)]) {
+          if (this.entries.has(child)) this.remove(child)
+        }
+      }
+      return
+    }
+
+    // A write can create missing parent directories without events of their own
+    const top = this.topmostUnknown(path)
+    if (top !== path) {
+      await this.discover(top)
+      return
+    }
+
+    const stats = await this.tryStat(path)
+    const known = this.entries.get(path)
+
+    // Changed and then removed before the snapshot caught up
+    if (known === false && !stats && eventType === 'change') {
+      this.written('change', path)
+    }
+
+    if (known !== undefined && (!stats || stats.isDirectory() !== known)) {
+      this.remove(path)
+    }
+    if (!stats) return
+
+    if (!this.entries.has(path)) {
+      await this.discover(path, stats)
+    } else if (!known) {
+      this.written('change', path, stats)
+    }
+  }
+
+  /**
+   * Add a new entry, and everything below it for directories
+   */
+  private async discover(path: string, stats?: Stats | null, initial = false): Promise<void> {
+    stats ??= await this.tryStat(path)
+    if (!stats) return
+
+    const isDirectory = stats.isDirectory()
+    this.entries.set(path, isDirectory)
+
+    if (!initial || !this.ignoreInitial) {
+      if (isDirectory) this.emit('addDir', path, stats)
+      else this.written('add', path, stats)
+    }
+
+    if (isDirectory) await this.scan(path, initial)
+  }
+
+  /**
+   * Discover the unknown entries of a directory
+   */
+  private async scan(dir: string, initial: boolean): Promise<void> {
+    let names: string[]
+    try {
+      names = await this.context.readdir(dir)
+    } catch (err) {
+      if (isMissing(err)) return
+      throw err
+    }
+
+    for (const name of names) {
+      const path = join(dir, name)
+      if (this.entries.has(path) || this.isExcluded(path)) continue
+      await this.discover(path, null, initial)
+    }
+  }
+
+  /**
+   * Forget an entry and everything below it, deepest first
+   */
+  private remove(path: string): void {
+    const removed = [...this.childrenOf(path)].sort((a, b) => b.length - a.length)
+    removed.push(path)
+
+    for (const entry of removed) {
+      const entryIsDirectory = this.entries.get(entry)!
+      this.entries.delete(entry)
+
+      // A file that disappears before its add was reported was never announced
+      const pending = this.pendingWrites.get(entry)
+      if (pending) {
+        clearTimeout(pending.timer)
+        this.pendingWrites.delete(entry)
+        if (pending.event === 'add') continue
+      }
+
+      this.emit(entryIsDirectory ? 'unlinkDir' : 'unlink', entry)
+    }
+  }
+
+  /**
+   * Report an add or change, after the file stopped changing when awaitWriteFinish is on
+   */
+  private written(event: 'add' | 'change', path: string, stats?: Stats): void {
+    if (this.stabilityThreshold === 0) {
+      this.emit(event, path, stats)
+      return
+    }
+    if (!stats) return
+
+    const pending = this.pendingWrites.get(path)
+    if (pending) {
+      // Still being written - keep the first event type and start waiting again
+      pending.stableSince = Date.now()
+      return
+    }
+
+    this.pendingWrites.set(path, {
+      event,
+      size: stats.size,
+      mtimeMs: stats.mtimeMs,
+      stableSince: Date.now(),
+      timer: setTimeout(() => this.pollWrite(path), this.pollInterval)
+    })
+  }
+
+  private pollWrite(path: string): void {
+    this.enqueue(async () => {
+      const pending = this.pendingWrites.get(path)
+      if (!pending) return
+
+      const stats = await this.tryStat(path)
+      if (!stats) return // The unlink event will clean up
+
+      const now = Date.now()
+      if (stats.size !== pending.size || stats.mtimeMs !== pending.mtimeMs) {
+        pending.size = stats.size
+        pending.mtimeMs = stats.mtimeMs
+        pending.stableSince = now
+      } else if (now - pending.stableSince >= this.stabilityThreshold) {
+        this.pendingWrites.delete(path)
+        this.emit(pending.event, path, stats)
+        return
+      }
+
+      pending.timer = setTimeout(() => this.pollWrite(path), this.pollInterval)
+    })
+  }
+
+  /**
+   * Dispatch an event (and the matching 'all' event) if the path passes the filters
+   */
+  private emit(event: TreeWatchEventName, path: string, stats?: Stats): void {
+    if (this.include) {
+      const relative = this.relative(path)
+      if (!this.include.some(pattern => pattern.test(relative))) return
+    }
+
+    const detail: TreeWatchEventDetail = { event, path, stats }
+    this.dispatch(event, detail)
+    this.dispatch('all', detail)
+  }
+
+  private dispatch(type: string, detail?: unknown): void {
+    if (this.closed) return
+    this.dispatchEvent(new CustomEvent(type, { detail }))
+  }
+
+  /**
+   * Call an on/once listener with EventEmitter-style arguments
+   */
+  private invoke(event: string, listener: Listener, e: Event): void {
+    const detail = (e as CustomEvent).detail
+    const call = listener as (...args: unknown[]) => void
+    if (event === 'all') call(detail.event, detail.path, detail.stats)
+    else if (event === 'error') call(detail)
+    else if (event === 'ready') call()
+    else call(detail.path, detail.stats)
+  }
+
+  private listenersOf(event: string): Map<Listener, EventListener> {
+    let listeners = this.listeners.get(event)
+    if (!listeners) {
+      listeners = new Map()
+      this.listeners.set(event, listeners)
+    }
+    return listeners
+  }
+
+  /**
+   * Check a path and its ancestors below root against the exclude patterns
+   */
+  private isExcluded(path: string): boolean {
+    if (this.exclude.length === 0) return false
+    let relative = this.relative(path)
+    while (relative) {
+      if (this.exclude.some(pattern => pattern.test(relative))) return true
+      const slash = relative.lastIndexOf('/')
+      relative = slash === -1 ? '' : relative.slice(0, slash)
+    }
+    return false
+  }
+
+  private relative(path: string): string {
+    return this.root === '/' ? path.slice(1) : path.slice(this.root.length + 1)
+  }
+
+  private *childrenOf(dir: string): Iterable<string> {
+    const prefix = dir === '/' ? '/' : dir + '/'
+    for (const path of this.entries.keys()) {
+      if (path.startsWith(prefix)) yield path
+    }
+  }
+
+  /**
+   * Highest ancestor of path (or path itself) that isn't in the snapshot yet
+   */
+  private topmostUnknown(path: string): string {
+    let top = path
+    for (let parent = dirname(path); parent !== this.root && !this.entries.has(parent); parent = dirname(parent)) {
+      top = parent
+    }
+    return top
+  }
+
+  private async tryStat(path: string): Promise<Stats | null> {
+    try {
+      return await this.context.stat(path)
+    } catch (err) {
+      if (isMissing(err)) return null
+      throw err
+    }
+  }
+}
+
+function toPatterns(patterns: string | string[]): RegExp[] {
+  return (Array.isArray(patterns) ? patterns : [patterns]).map(globToRegExp)
+}
+
+function isMissing(err: unknown): boolean {
+  const code = (err as { code?: string } | null)?.code
+  return code === 'ENOENT' || code === 'ENOTDIR'
+}
@@ -16,6 +16,11 @@ export interface FSConstants {
   O_EXCL: number
   O_TRUNC: number
   O_APPEND: number
+  O_NOCTTY: number
+  O_DSYNC: number
+  O_NOFOLLOW: number
+  O_NOATIME: number
+  O_SYNC: number
   S_IFMT: number
   S_IFREG: number
   S_IFDIR: number
@@ -34,6 +39,14 @@ export interface OPFSOptions {
   useCompression?: boolean
   /** Enable CRC32 checksum for batch writes (default: true) */
   useChecksum?: boolean
+  /** Dead space ratio of the pack file that triggers automatic compaction (default: 0.5, 0 disables) */
+  compactThreshold?: number
+  /** Also lock internal files across tabs and workers with navigator.locks (default: false) */
+  crossContextLocks?: boolean
+  /** Milliseconds to wait for an internal lock before failing with EBUSY (default: 0, waits forever) */
+  lockTimeout?: number
+  /** Directory of the origin's OPFS this instance is scoped to, created if missing (default: '/') */
+  root?: string
 }
 
 /**
@@ -99,16 +112,40 @@ export interface Stats {
   type: 'file' | 'dir' | 'symlink'
   size: number
   mode: number
+  uid: number
+  gid: number
+  atime: Date
+  atimeMs: number
   ctime: Date
   ctimeMs: number
   mtime: Date
   mtimeMs: number
+  birthtime: Date
+  birthtimeMs: number
   target?: string
   isFile(): boolean
   isDirectory(): boolean
   isSymbolicLink(): boolean
 }
 
+/**
+ * Options for mkdir operation
+ */
+export interface MkdirOptions {
+  /** Create missing parent directories, and don't fail if the directory exists */
+  recursive?: boolean
+  /** Permission bits of the created directories (default: 0o755) */
+  mode?: number
+}
+
+/**
+ * Options for rmdir operation
+ */
+export interface RmdirOptions {
+  /** Remove the directory's contents too (default: false, non-empty directories fail with ENOTEMPTY) */
+  recursive?: boolean
+}
+
 /**
  * Options for rm operation
  */
@@ -163,6 +200,123 @@ export interface FSWatcher {
   [Symbol.asyncIterator](): AsyncIterator<WatchEvent>
 }
 
+/**
+ * One end of a sync channel: the shared request/response buffer and a port that wakes the server
+ * Pass the client end (transferring the port) to the worker that creates an OPFSSyncClient.
+ */
+export interface SyncChannel {
+  buffer: SharedArrayBuffer
+  port: MessagePort
+}
+
+/**
+ * Options for createSyncChannel
+ */
+export interface SyncChannelOptions {
+  /** Size of the shared data area in bytes - larger messages are sent in chunks (default: 1 MiB) */
+  bufferSize?: number
+}
+
+/**
+ * Options for OPFSSyncClient
+ */
+export interface SyncClientOptions {
+  /** Give up waiting for a response after this many ms with ETIMEDOUT (default: no timeout) */
+  timeout?: number
+}
+
+/**
+ * Options for watchFile
+ */
+export interface WatchFileOptions {
+  /** Polling interval in ms (default: 5007, like Node.js) */
+  interval?: number
+  /** Keep a Node.js process alive while polling (default: true) */
+  persistent?: boolean
+  /** For directories: also compare the entry names and report added/removed ones */
+  entries?: boolean
+}
+
+/**
+ * Entries that appeared in or disappeared from a directory between two polls
+ */
+export interface DirectoryChanges {
+  added: string[]
+  removed: string[]
+}
+
+/**
+ * watchFile listener - Stats are zeroed while the path doesn't exist.
+ * changes is only passed when watching with entries: true.
+ */
+export type WatchFileListener = (curr: Stats, prev: Stats, changes?: DirectoryChanges) => void
+
+/**
+ * Poller returned by watchFile
+ */
+export interface StatWatcher {
+  ref(): StatWatcher
+  unref(): StatWatcher
+}
+
+/**
+ * Options for watchTree
+ */
+export interface TreeWatchOptions {
+  /** Glob patterns (relative to the root) files must match to be reported */
+  include?: string | string[]
+  /** Glob patterns (relative to the root) of files and directories to skip */
+  exclude?: string | string[]
+  /** Don't emit add/addDir for entries found by the initial scan (default: false) */
+  ignoreInitial?: boolean
+  /** Hold add/change until the file size and mtime stop changing (default: false) */
+  awaitWriteFinish?: boolean | AwaitWriteFinishOptions
+}
+
+/**
+ * Options for awaitWriteFinish
+ */
+export interface AwaitWriteFinishOptions {
+  /** How long the file must stay unchanged in ms (default: 2000) */
+  stabilityThreshold?: number
+  /** How often to check the file in ms (default: 100) */
+  pollInterval?: number
+}
+
+/**
+ * Events emitted by a tree watcher for paths below its root
+ */
+export type TreeWatchEventName = 'add' | 'change' | 'unlink' | 'addDir' | 'unlinkDir'
+
+/**
+ * Detail of the CustomEvents a tree watcher dispatches (stats for add, addDir and change)
+ */
+export interface TreeWatchEventDetail {
+  event: TreeWatchEventName
+  path: string
+  stats?: Stats
+}
+
+/**
+ * Chokidar-style watcher for a directory tree
+ * Supports both EventEmitter-style on/off/once and EventTarget listeners
+ * (CustomEvents with a TreeWatchEventDetail, 'error' events carry the error as detail).
+ */
+export interface TreeWatcher extends EventTarget {
+  on(event: TreeWatchEventName, listener: (path: string, stats?: Stats) => void): this
+  on(event: 'all', listener: (event: TreeWatchEventName, path: string, stats?: Stats) => void): this
+  on(event: 'ready', listener: () => void): this
+  on(event: 'error', listener: (error: unknown) => void): this
+  once(event: TreeWatchEventName, listener: (path: string, stats?: Stats) => void): this
+  once(event: 'all', listener: (event: TreeWatchEventName, path: string, stats?: Stats) => void): this
+  once(event: 'ready', listener: () => void): this
+  once(event: 'error', listener: (error: unknown) => void): this
+  off(event: string, listener: (...args: never[]) => void): this
+  /** Watched directories mapped to the names of their entries */
+  getWatched(): Record<string, string[]>
+  close(): Promise<void>
+}
+
 /**
  * Read stream options
  */
@@ -179,10 +333,20 @@ export interface ReadStreamOptions {
  * Write stream options
  */
 export interface WriteStreamOptions {
-  /** File open flags (default: 'w') */
+  /** File open flags: 'w' truncates, 'a' appends, 'r+' writes into an existing file, 'wx'/'ax' fail if it exists (default: 'w') */
   flags?: string
-  /** Start writing at this byte position */
+  /** Start writing at this byte position (ignored when appending) */
   start?: number
+  /** Bytes to queue before writers see backpressure (default: 16KB) */
+  highWaterMark?: number
+}
+
+/**
+ * Writable stream returned by createWriteStream
+ */
+export interface WriteStream extends WritableStream<Uint8Array> {
+  /** Bytes written to the file so far */
+  readonly bytesWritten: number
 }
 
 /**
@@ -224,6 +388,15 @@ export interface FileHandle {
   readFile(options?: ReadFileOptions): Promise<string | Uint8Array>
   writeFile(data: string | Uint8Array, options?: WriteFileOptions): Promise<void>
   appendFile(data: string | Uint8Array, options?: WriteFileOptions): Promise<void>
+  /**
+   * Take an advisory lock on the file, like flock(). Calling it again changes the mode.
+   * Shares its locks with fs.lock() and other tabs and workers; released on close().
+   * Reads and writes don't wait for it, not even those of the same instance.
+   */
+  lock(mode?: LockMode): Promise<void>
+  /** Like lock(), but resolves with false instead of waiting if the file is locked */
+  tryLock(mode?: LockMode): Promise<boolean>
+  unlock(): Promise<void>
   [Symbol.asyncDispose](): Promise<void>
 }
 
@@ -245,6 +418,53 @@ export interface DiskUsage {
   size: number
 }
 
+/**
+ * Lock mode: any number of shared holders, or a single exclusive one
+ */
+export type LockMode = 'shared' | 'exclusive'
+
+/**
+ * Options for fs.lock()
+ */
+export interface LockOptions {
+  /** Lock mode (default: 'exclusive') */
+  mode?: LockMode
+  /** Milliseconds to wait before failing with EBUSY, 0 waits forever (default: the instance's lockTimeout) */
+  timeout?: number
+  /** Fail with EBUSY right away instead of waiting (default: false) */
+  ifAvailable?: boolean
+}
+
+/**
+ * Result of pack file compaction
+ */
+export interface CompactResult {
+  /** Pack file size before compaction */
+  bytesBefore: number
+  /** Pack file size after compaction */
+  bytesAfter: number
+  /** Bytes of dead space released */
+  bytesReclaimed: number
+}
+
+/**
+ * Staged changes of fs.transaction() - nothing reaches the file system until the
+ * callback has returned, then all changes are applied together
+ * Reads see the transaction's own staged changes.
+ */
+/**
+ * Staged view of the file system inside fs.transaction()
+ */
+export interface Transaction {
+  readFile(path: string, options?: ReadFileOptions): Promise<string | Uint8Array>
+  exists(path: string): Promise<boolean>
+  writeFile(path: string, data: string | Uint8Array, options?: WriteFileOptions): Promise<void>
+  unlink(path: string): Promise<void>
+  /** Move a file or symlink (directories fail with ENOTSUP) */
+  rename(oldPath: string, newPath: string): Promise<void>
+  symlink(target: string, path: string): Promise<void>
+}
+
 /**
  * Filesystem statistics (similar to Node.js fs.statfs)
  */
@@ -274,6 +494,27 @@ export interface StatFs {
  */
 export type SymlinkCache = Record<string, string>
 
+/**
+ * Persisted metadata for a single path (all fields optional, defaults apply when missing)
+ */
+export interface FileMetadata {
+  /** Permission bits (without file type bits) */
+  mode?: number
+  uid?: number
+  gid?: number
+  atimeMs?: number
+  mtimeMs?: number
+  ctimeMs?: number
+  birthtimeMs?: number
+  /** OPFS lastModified of the file when mtimeMs was set - a mismatch means the content changed since */
+  lastModified?: number
+}
+
+/**
+ * Internal metadata cache structure
+ */
+export type MetadataCache = Record<string, FileMetadata>
+
 /**
  * Watch callback function
  */
@@ -286,4 +527,6 @@ export interface WatchRegistration {
   path: string
   callbacks: Set<WatchCallback>
   recursive: boolean
+  /** Pass absolute paths to the callbacks instead of names relative to path */
+  absolute?: boolean
 }
@@ -0,0 +1,213 @@
+import type { FSWatcher, WatchCallback, WatchEvent, WatchOptions, WatchRegistration } from './types.js'
+import { normalize, basename } from './path-utils.js'
+
+const CHANNEL_PREFIX = 'opfs-fs:watch'
+
+interface ChangeEvent {
+  eventType: WatchEvent['eventType']
+  path: string
+}
+
+/**
+ * Delivers change notifications to watch() watchers
+ *
+ * Every instance emits events for its own mutations: they are dispatched to local
+ * watchers and broadcast over a BroadcastChannel, so watchers in other tabs, in
+ * workers and in other instances see them as well. A BroadcastChannel never receives
+ * its own messages, so each watcher gets every event exactly once.
+ * Instances with a root only share events with instances of the same root.
+ */
+export class WatchManager {
+  private watchers: Map<symbol, WatchRegistration> = new Map()
+  private channelName: string
+  private channel: BroadcastChannel | null = null
+  private pending: ChangeEvent[] = [] // Events of the current tick, broadcast together
+
+  constructor(root = '/') {
+    const normalizedRoot = normalize(root)
+    this.channelName = normalizedRoot === '/' ? CHANNEL_PREFIX : CHANNEL_PREFIX + ':' + normalizedRoot
+  }
+
+  /**
+   * Emit an event for a path
+   * 'rename' when an entry appears or disappears, 'change' when its content or metadata changes.
+   * Delivery is deferred to a microtask, so a throwing listener can't fail the operation.
+   */
+  emit(eventType: ChangeEvent['eventType'], path: string): void {
+    this.pending.push({ eventType, path })
+    if (this.pending.length === 1) {
+      queueMicrotask(() => this.flush())
+    }
+  }
+
+  /**
+   * Register a watcher for a file or directory
+   */
+  watch(path: string, options: WatchOptions = {}, listener?: WatchCallback): FSWatcher {
+    const normalizedPath = normalize(path)
+    const { recursive = false, signal } = options
+
+    const callbacks = new Set<WatchCallback>()
+    const closers = new Set<() => void>() // End pending iterators on close
+    const id = Symbol('watcher')
+
+    if (listener) callbacks.add(listener)
+    this.watchers.set(id, { path: normalizedPath, callbacks, recursive })
+    this.openChannel()
+
+    const close = (): void => {
+      if (!this.watchers.delete(id)) return
+      for (const closeIterator of closers) closeIterator()
+      callbacks.clear()
+    }
+
+    if (signal) {
+      if (signal.aborted) close()
+      else signal.addEventListener('abort', close, { once: true })
+    }
+
+    const watchers = this.watchers
+    const watcher: FSWatcher = {
+      close,
+
+      ref(): FSWatcher {
+        return watcher
+      },
+
+      unref(): FSWatcher {
+        return watcher
+      },
+
+      [Symbol.asyncIterator](): AsyncIterator<WatchEvent> {
+        const queue: WatchEvent[] = []
+        let resolver: ((value: IteratorResult<WatchEvent>) => void) | null = null
+
+        const push: WatchCallback = (eventType, filename) => {
+          const event = { eventType: eventType as WatchEvent['eventType'], filename }
+          if (resolver) {
+            resolver({ value: event, done: false })
+            resolver = null
+          } else {
+            queue.push(event)
+          }
+        }
+
+        const end = (): void => {
+          callbacks.delete(push)
+          closers.delete(end)
+          if (resolver) {
+            resolver({ value: undefined, done: true })
+            resolver = null
+          }
+        }
+
+        callbacks.add(push)
+        closers.add(end)
+
+        return {
+          next(): Promise<IteratorResult<WatchEvent>> {
+            if (queue.length > 0) {
+              return Promise.resolve({ value: queue.shift()!, done: false })
+            }
+            if (!watchers.has(id)) {
+              return Promise.resolve({ value: undefined, done: true })
+            }
+            return new Promise(resolve => {
+              resolver = resolve
+            })
+          },
+          return(): Promise<IteratorResult<WatchEvent>> {
+            end()
+            return Promise.resolve({ value: undefined, done: true })
+          }
+        }
+      }
+    }
+
+    return watcher
+  }
+
+  /**
+   * Subscribe to all events at or below a path, reported with absolute paths
+   * Returns a function that removes the subscription.
+   */
+  subscribe(path: string, callback: WatchCallback): () => void {
+    const id = Symbol('subscription')
+    this.watchers.set(id, { path: normalize(path), callbacks: new Set([callback]), recursive: true, absolute: true })
+    this.openChannel()
+    return () => {
+      this.watchers.delete(id)
+    }
+  }
+
+  /**
+   * Stop receiving events from other contexts (reopened by the next watch or emit)
+   */
+  close(): void {
+    this.channel?.close()
+    this.channel = null
+  }
+
+  /**
+   * Dispatch and broadcast the events collected in this tick
+   * Broadcasts even without local watchers: watchers of other contexts can't be known here.
+   */
+  private flush(): void {
+    const events = this.pending
+    this.pending = []
+    this.openChannel()?.postMessage(events)
+    this.dispatch(events)
+  }
+
+  /**
+   * Open the broadcast channel (null where BroadcastChannel isn't available)
+   */
+  private openChannel(): BroadcastChannel | null {
+    if (!this.channel && typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(this.channelName)
+      this.channel.onmessage = (event: MessageEvent<ChangeEvent[]>) => this.dispatch(event.data)
+      // Don't keep a Node.js process (tests, SSR) alive just for notifications
+      ;(this.channel as BroadcastChannel & { unref?: () => void }).unref?.()
+    }
+    return this.channel
+  }
+
+  /**
+   * Deliver events to the watchers they concern
+   * A throwing listener is reported asynchronously and doesn't stop delivery to the others.
+   */
+  private dispatch(events: ChangeEvent[]): void {
+    if (this.watchers.size === 0) return
+
+    for (const { eventType, path } of events) {
+      for (const { path: watchPath, callbacks, recursive, absolute } of this.watchers.values()) {
+        const filename = relativeName(watchPath, path, recursive)
+        if (filename === null) continue
+        for (const callback of callbacks) {
+          try {
+            callback(eventType, absolute ? path : filename)
+          } catch (err) {
+            queueMicrotask(() => {
+              throw err
+            })
+          }
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Filename reported to a watcher, like Node.js: relative to the watched directory,
+ * or the basename when the watched path itself changed. null if the watcher isn't concerned.
+ */
+function relativeName(watchPath: string, path: string, recursive: boolean): string | null {
+  if (path === watchPath) return basename(path)
+
+  const prefix = watchPath === '/' ? '/' : watchPath + '/'
+  if (!path.startsWith(prefix)) return null
+
+  const name = path.slice(prefix.length)
+  if (!recursive && name.includes('/')) return null
+  return name
+}
@@ -226,23 +226,22 @@ describe('Compression', () => {
       expect(result).toBe(content)
     })
 
-    it('should handle multiple batch writes (pack file replacement)', async () => {
+    it('should keep earlier batches when writing multiple batches', async () => {
       // First batch
       await fs.writeFileBatch([
         { path: '/first.txt', data: 'First batch content that is long enough for compression.' }
       ])
 
-      // Second batch replaces the pack
+      // Second batch is appended to the pack
       await fs.writeFileBatch([
         { path: '/second.txt', data: 'Second batch content that is also long enough for compression.' }
       ])
 
-      // First file should no longer exist (pack was replaced)
-      await expect(fs.readFile('/first.txt')).rejects.toMatchObject({ code: 'ENOENT' })
+      const first = await fs.readFile('/first.txt', { encoding: 'utf-8' })
+      expect(first).toBe('First batch content that is long enough for compression.')
 
-      // Second file should exist
-      const result = await fs.readFile('/second.txt', { encoding: 'utf-8' })
-      expect(result).toBe('Second batch content that is also long enough for compression.')
+      const second = await fs.readFile('/second.txt', { encoding: 'utf-8' })
+      expect(second).toBe('Second batch content that is also long enough for compression.')
     })
 
     it('should handle very large files', async () => {
@@ -253,6 +252,39 @@ describe('Compression', () => {
       expect(result.length).toBe(largeContent.length)
       expect(result).toBe(largeContent)
     })
+
+    it('should decompress a streamed file once', async () => {
+      // The mock never makes data smaller, so use the real streams to store the file compressed
+      let decompressions = 0
+      globalThis.CompressionStream = originalCompressionStream
+      globalThis.DecompressionStream = class extends originalDecompressionStream {
+        constructor(format: CompressionFormat) {
+          super(format)
+          decompressions++
+        }
+      }
+
+      try {
+        const content = 'Streamed content that is long enough to be compressed. '.repeat(20)
+        await fs.writeFileBatch([{ path: '/streamed.txt', data: content }])
+        expect((await fs.stat('/streamed.txt')).size).toBe(content.length)
+
+        const reader = fs.createReadStream('/streamed.txt', { highWaterMark: 64 }).getReader()
+        let text = ''
+        let result: ReadableStreamReadResult<Uint8Array>
+        while (!(result = await reader.read()).done) {
+          text += new TextDecoder().decode(result.value)
+        }
+
+        expect(text).toBe(content)
+        expect(decompressions).toBe(1)
+      } finally {
+        // @ts-expect-error - mock
+        globalThis.CompressionStream = MockCompressionStream
+        // @ts-expect-error - mock
+        globalThis.DecompressionStream = MockDecompressionStream
+      }
+    })
   })
 
   describe('async mode compression', () => {
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import OPFS, { constants } from '../dist/index.js'
 import type { Dirent, FileHandle, Dir } from '../dist/index.js'
 
@@ -20,6 +20,9 @@ describe('Node.js fs Compatibility', () => {
       expect(constants.O_RDONLY).toBe(0)
       expect(constants.O_WRONLY).toBe(1)
       expect(constants.O_RDWR).toBe(2)
+      expect(constants.O_EXCL).toBe(128)
+      expect(constants.O_SYNC).toBe(1052672)
+      expect(constants.O_NOFOLLOW).toBe(131072)
       expect(constants.S_IFREG).toBe(32768)
       expect(constants.S_IFDIR).toBe(16384)
       expect(constants.S_IFLNK).toBe(40960)
@@ -44,7 +47,7 @@ describe('Node.js fs Compatibility', () => {
 
     it('should reject for non-existent path', async () => {
       await expect(fs.access('/nonexistent'))
-        .rejects.toMatchObject({ code: 'EACCES' })
+        .rejects.toMatchObject({ code: 'ENOENT', syscall: 'access' })
     })
 
     it('should accept mode parameter', async () => {
@@ -138,7 +141,7 @@ describe('Node.js fs Compatibility', () => {
     })
 
     it('should copy directory recursively', async () => {
-      await fs.mkdir('/dir/subdir')
+      await fs.mkdir('/dir/subdir', { recursive: true })
       await fs.writeFile('/dir/file1.txt', 'file1')
       await fs.writeFile('/dir/subdir/file2.txt', 'file2')
 
@@ -222,12 +225,22 @@ describe('Node.js fs Compatibility', () => {
     })
 
     it('should remove directory with recursive', async () => {
-      await fs.mkdir('/dir/subdir')
+      await fs.mkdir('/dir/subdir', { recursive: true })
       await fs.writeFile('/dir/file.txt', 'content')
       await fs.rm('/dir', { recursive: true })
       expect(await fs.exists('/dir')).toBe(false)
     })
 
+    it('should remove symlinks and packed files below a directory with recursive', async () => {
+      await fs.symlink('/elsewhere', '/dir/link')
+      await fs.writeFileBatch([{ path: '/dir/packed.txt', data: 'packed' }])
+
+      await fs.rm('/dir', { recursive: true })
+
+      await fs.mkdir('/dir')
+      expect(await fs.readdir('/dir')).toEqual([])
+    })
+
     it('should ignore non-existent path with force', async () => {
       await expect(fs.rm('/nonexistent', { force: true })).resolves.toBeUndefined()
     })
@@ -353,6 +366,27 @@ describe('Node.js fs Compatibility', () => {
       expect(content).toBe('hello')
     })
 
+    it('should let the same instance use a file held by a writable handle', async () => {
+      await fs.writeFile('/test.txt', 'hello')
+      const handle = await fs.open('/test.txt', 'r+')
+      const second = await fs.open('/test.txt', 'r+')
+
+      expect(await fs.readFile('/test.txt', { encoding: 'utf-8' })).toBe('hello')
+      await fs.writeFile('/test.txt', 'changed')
+      expect((await fs.stat('/test.txt')).size).toBe(7)
+      expect(await handle.readFile({ encoding: 'utf-8' })).toBe('changed')
+
+      // The handle stays open until its last holder closes
+      await second.close()
+      await handle.write(new TextEncoder().encode('C'), 0, 1, 0)
+      await handle.close()
+      expect(await fs.readFile('/test.txt', { encoding: 'utf-8' })).toBe('Changed')
+
+      const other = new OPFS({ useSync: true, verbose: false })
+      const reopened = await other.open('/test.txt', 'r+')
+      await reopened.close()
+    })
+
     it('should support readFile on handle', async () => {
       await fs.writeFile('/test.txt', 'content')
       const handle = await fs.open('/test.txt', 'r')
@@ -413,6 +447,233 @@ describe('Node.js fs Compatibility', () => {
       const content = await fs.readFile('/test.txt', { encoding: 'utf-8' })
       expect(content).toBe('hello world')
     })
+
+    it('should write at positions without rewriting the file', async () => {
+      await fs.writeFile('/test.txt', 'hello world')
+      const writeFile = vi.spyOn(fs, 'writeFile')
+      const readFile = vi.spyOn(fs, 'readFile')
+
+      const handle = await fs.open('/test.txt', 'r+')
+      await handle.write(new TextEncoder().encode('J'), 0, 1, 0)
+      await handle.write(new TextEncoder().encode('W'), 0, 1, 6)
+      await handle.close()
+
+      expect(writeFile).not.toHaveBeenCalled()
+      expect(readFile).not.toHaveBeenCalled()
+      expect(await fs.readFile('/test.txt', { encoding: 'utf-8' })).toBe('Jello World')
+    })
+
+    it('should track the file position', async () => {
+      await fs.writeFile('/test.txt', 'abcdef')
+      const handle = await fs.open('/test.txt', 'r+')
+      const buffer = new Uint8Array(2)
+
+      await handle.read(buffer)
+      expect(new TextDecoder().decode(buffer)).toBe('ab')
+
+      // An explicit position doesn't move the file position
+      await handle.read(buffer, 0, 2, 4)
+      expect(new TextDecoder().decode(buffer)).toBe('ef')
+
+      await handle.write(new TextEncoder().encode('XY'))
+      await handle.read(buffer)
+      expect(new TextDecoder().decode(buffer)).toBe('ef')
+      await handle.close()
+
+      expect(await fs.readFile('/test.txt', { encoding: 'utf-8' })).toBe('abXYef')
+    })
+
+    it('should read into a buffer offset', async () => {
+      await fs.writeFile('/test.txt', 'hello')
+      const handle = await fs.open('/test.txt', 'r')
+      const buffer = new Uint8Array(7).fill(46)
+
+      const { bytesRead } = await handle.read(buffer, 2, 5, 0)
+      await handle.close()
+
+      expect(bytesRead).toBe(5)
+      expect(new TextDecoder().decode(buffer)).toBe('..hello')
+    })
+
+    it('should hold one sync access handle until close', async () => {
+      await fs.writeFile('/test.txt', '')
+      const fileHandle = await (await navigator.storage.getDirectory()).getFileHandle('test.txt')
+      const createSyncAccessHandle = vi.spyOn(fileHandle, 'createSyncAccessHandle')
+      const handle = await fs.open('/test.txt', 'w')
+
+      for (let i = 0; i < 10; i++) {
+        await handle.write(new TextEncoder().encode(String(i)))
+      }
+      expect(createSyncAccessHandle).toHaveBeenCalledTimes(1)
+
+      const access = await createSyncAccessHandle.mock.results[0].value
+      const close = vi.spyOn(access, 'close')
+      await handle.close()
+
+      expect(close).toHaveBeenCalledTimes(1)
+      expect(await fs.readFile('/test.txt', { encoding: 'utf-8' })).toBe('0123456789')
+    })
+
+    it('should release the handle on asyncDispose', async () => {
+      await fs.writeFile('/test.txt', 'hello')
+      const handle = await fs.open('/test.txt', 'r+')
+      await handle[Symbol.asyncDispose]()
+
+      await expect(handle.read(new Uint8Array(1))).rejects.toMatchObject({ code: 'EBADF' })
+    })
+
+    it('should reject writes on a read-only handle', async () => {
+      await fs.writeFile('/test.txt', 'hello')
+      const handle = await fs.open('/test.txt', 'r')
+
+      await expect(handle.write(new Uint8Array(1))).rejects.toMatchObject({ code: 'EBADF' })
+      await handle.close()
+    })
+
+    it('should read its own writes in async mode', async () => {
+      const asyncFs = new OPFS({ useSync: false, verbose: false })
+      await asyncFs.writeFile('/test.txt', 'hello')
+      const handle = await asyncFs.open('/test.txt', 'r+')
+
+      await handle.write(new TextEncoder().encode('J'), 0, 1, 0)
+      const buffer = new Uint8Array(5)
+      await handle.read(buffer, 0, 5, 0)
+      expect(new TextDecoder().decode(buffer)).toBe('Jello')
+
+      await handle.write(new TextEncoder().encode('!'), 0, 1, 5)
+      expect((await handle.stat()).size).toBe(6)
+      await handle.close()
+
+      expect(await asyncFs.readFile('/test.txt', { encoding: 'utf-8' })).toBe('Jello!')
+    })
+
+    it('should read packed files', async () => {
+      await fs.writeFileBatch([{ path: '/packed.txt', data: 'packed data' }])
+      const handle = await fs.open('/packed.txt', 'r')
+      const buffer = new Uint8Array(4)
+
+      await handle.read(buffer, 0, 4, 7)
+      expect(new TextDecoder().decode(buffer)).toBe('data')
+      expect((await handle.stat()).size).toBe(11)
+      await handle.close()
+    })
+  })
+
+  describe('open() flags', () => {
+    it('should create a new file with wx', async () => {
+      const handle = await fs.open('/lock', 'wx')
+      await handle.writeFile('1234')
+      await handle.close()
+
+      expect(await fs.readFile('/lock', { encoding: 'utf-8' })).toBe('1234')
+    })
+
+    it('should fail with EEXIST on exclusive create of an existing path', async () => {
+      await fs.writeFile('/lock', 'held')
+      await fs.mkdir('/dir')
+      await fs.writeFileBatch([{ path: '/packed.txt', data: 'packed' }])
+
+      for (const flags of ['wx', 'xw', 'wx+', 'ax', 'xa+']) {
+        await expect(fs.open('/lock', flags)).rejects.toMatchObject({ code: 'EEXIST', syscall: 'open' })
+      }
+      await expect(fs.open('/dir', 'wx')).rejects.toMatchObject({ code: 'EEXIST' })
+      await expect(fs.open('/packed.txt', 'wx')).rejects.toMatchObject({ code: 'EEXIST' })
+      expect(await fs.readFile('/lock', { encoding: 'utf-8' })).toBe('held')
+    })
+
+    it('should treat a dangling symlink as existing on exclusive create', async () => {
+      await fs.symlink('/missing.txt', '/link.txt')
+
+      await expect(fs.open('/link.txt', 'wx')).rejects.toMatchObject({ code: 'EEXIST' })
+      expect(await fs.exists('/missing.txt')).toBe(false)
+    })
+
+    it('should let only one of several concurrent exclusive opens win', async () => {
+      const results = await Promise.allSettled(
+        Array.from({ length: 5 }, () => fs.open('/lock', 'wx'))
+      )
+
+      const opened = results.filter(r => r.status === 'fulfilled') as PromiseFulfilledResult<FileHandle>[]
+      expect(opened).toHaveLength(1)
+      expect(results.filter(r => r.status === 'rejected')).toHaveLength(4)
+      await opened[0].value.close()
+    })
+
+    it('should read and append with ax+', async () => {
+      const handle = await fs.open('/log.txt', 'ax+')
+      await handle.write(new TextEncoder().encode('one'))
+      await handle.write(new TextEncoder().encode('two'), 0, 3, 0)
+
+      const buffer = new Uint8Array(6)
+      await handle.read(buffer, 0, 6, 0)
+      await handle.close()
+
+      expect(new TextDecoder().decode(buffer)).toBe('onetwo')
+    })
+
+    it('should honour numeric flags', async () => {
+      await fs.writeFile('/test.txt', 'hello world')
+
+      const truncating = await fs.open('/test.txt', constants.O_RDWR | constants.O_TRUNC)
+      expect((await truncating.stat()).size).toBe(0)
+      await truncating.close()
+
+      const appending = await fs.open('/new.txt', constants.O_WRONLY | constants.O_CREAT | constants.O_APPEND)
+      await appending.write(new TextEncoder().encode('a'), 0, 1, 0)
+      await appending.write(new TextEncoder().encode('b'), 0, 1, 0)
+      await appending.close()
+      expect(await fs.readFile('/new.txt', { encoding: 'utf-8' })).toBe('ab')
+
+      await expect(
+        fs.open('/new.txt', constants.O_WRONLY | constants.O_CREAT | constants.O_EXCL)
+      ).rejects.toMatchObject({ code: 'EEXIST' })
+    })
+
+    it('should not create a file without O_CREAT', async () => {
+      await expect(fs.open('/missing.txt', constants.O_WRONLY)).rejects.toMatchObject({ code: 'ENOENT' })
+      await expect(fs.open('/missing.txt', 'r+')).rejects.toMatchObject({ code: 'ENOENT' })
+      expect(await fs.exists('/missing.txt')).toBe(false)
+    })
+
+    it('should reject reads on a write-only handle', async () => {
+      const handle = await fs.open('/test.txt', 'w')
+      await expect(handle.read(new Uint8Array(1))).rejects.toMatchObject({ code: 'EBADF' })
+      await handle.close()
+    })
+
+    it('should flush after every write with O_SYNC', async () => {
+      await fs.writeFile('/test.txt', '')
+      const fileHandle = await (await navigator.storage.getDirectory()).getFileHandle('test.txt')
+      const createSyncAccessHandle = vi.spyOn(fileHandle, 'createSyncAccessHandle')
+      const handle = await fs.open('/test.txt', 'rs+')
+      const access = await createSyncAccessHandle.mock.results[0].value
+      const flush = vi.spyOn(access, 'flush')
+
+      await handle.write(new TextEncoder().encode('a'))
+      await handle.write(new TextEncoder().encode('b'))
+      expect(flush).toHaveBeenCalledTimes(2)
+      await handle.close()
+    })
+
+    it('should fail with ELOOP on a symlink with O_NOFOLLOW', async () => {
+      await fs.writeFile('/target.txt', 'content')
+      await fs.symlink('/target.txt', '/link.txt')
+
+      await expect(fs.open('/link.txt', constants.O_RDONLY | constants.O_NOFOLLOW)).rejects.toMatchObject({ code: 'ELOOP' })
+      const handle = await fs.open('/target.txt', constants.O_RDONLY | constants.O_NOFOLLOW)
+      await handle.close()
+    })
+
+    it('should fail with EINVAL on unknown flags', async () => {
+      await fs.writeFile('/test.txt', 'content')
+
+      for (const flags of ['rw', 'x', 'r++', '', 'W']) {
+        await expect(fs.open('/test.txt', flags)).rejects.toMatchObject({ code: 'EINVAL' })
+      }
+      await expect(fs.open('/test.txt', constants.O_WRONLY | constants.O_RDWR)).rejects.toMatchObject({ code: 'EINVAL' })
+      await expect(fs.open('/test.txt', 1 << 30)).rejects.toMatchObject({ code: 'EINVAL' })
+      await expect(fs.open('/test.txt', 1.5)).rejects.toMatchObject({ code: 'EINVAL' })
+    })
   })
 
   describe('opendir()', () => {
@@ -503,6 +764,76 @@ describe('Node.js fs Compatibility', () => {
 
       expect(new TextDecoder().decode(combined)).toBe('hello')
     })
+
+    async function readAll(stream: ReadableStream<Uint8Array>): Promise<Uint8Array[]> {
+      const reader = stream.getReader()
+      const chunks: Uint8Array[] = []
+      let result: ReadableStreamReadResult<Uint8Array>
+      while (!(result = await reader.read()).done) {
+        chunks.push(result.value)
+      }
+      return chunks
+    }
+
+    it('should read in highWaterMark-sized ranges without loading the whole file', async () => {
+      const data = new Uint8Array(10000).map((_, i) => i % 256)
+      await fs.writeFile('/big.bin', data)
+      const readFile = vi.spyOn(fs, 'readFile')
+
+      const chunks = await readAll(fs.createReadStream('/big.bin', { highWaterMark: 4096 }))
+
+      expect(readFile).not.toHaveBeenCalled()
+      expect(chunks.map(c => c.length)).toEqual([4096, 4096, 1808])
+      const combined = new Uint8Array(10000)
+      let offset = 0
+      for (const chunk of chunks) {
+        combined.set(chunk, offset)
+        offset += chunk.length
+      }
+      expect(combined).toEqual(data)
+    })
+
+    it('should start in the middle of a file', async () => {
+      await fs.writeFile('/test.txt', 'hello world')
+
+      const chunks = await readAll(fs.createReadStream('/test.txt', { start: 6, highWaterMark: 2 }))
+
+      expect(chunks.map(c => new TextDecoder().decode(c))).toEqual(['wo', 'rl', 'd'])
+    })
+
+    it('should stream packed files', async () => {
+      await fs.writeFileBatch([{ path: '/packed.txt', data: 'hello world' }])
+
+      const chunks = await readAll(fs.createReadStream('/packed.txt', { start: 3, end: 8, highWaterMark: 4 }))
+
+      expect(chunks.map(c => new TextDecoder().decode(c))).toEqual(['lo w', 'o'])
+    })
+
+    it('should stream in async mode', async () => {
+      const asyncFs = new OPFS({ useSync: false, verbose: false })
+      await asyncFs.writeFile('/test.txt', 'hello world')
+
+      const chunks = await readAll(asyncFs.createReadStream('/test.txt', { start: 2, highWaterMark: 5 }))
+
+      expect(chunks.map(c => new TextDecoder().decode(c))).toEqual(['llo w', 'orld'])
+    })
+
+    it('should error for missing files', async () => {
+      await expect(readAll(fs.createReadStream('/missing.txt'))).rejects.toMatchObject({ code: 'ENOENT' })
+    })
+  })
+
+  describe('readRange()', () => {
+    it('should read a byte range', async () => {
+      await fs.writeFile('/test.txt', 'hello world')
+      expect(new TextDecoder().decode(await fs.readRange('/test.txt', 6, 3))).toBe('wor')
+    })
+
+    it('should return fewer bytes at the end of the file', async () => {
+      await fs.writeFile('/test.txt', 'hello')
+      expect((await fs.readRange('/test.txt', 3, 100)).length).toBe(2)
+      expect((await fs.readRange('/test.txt', 10, 100)).length).toBe(0)
+    })
   })
 
   describe('createWriteStream()', () => {
@@ -517,6 +848,154 @@ describe('Node.js fs Compatibility', () => {
       const content = await fs.readFile('/test.txt', { encoding: 'utf-8' })
       expect(content).toBe('hello world')
     })
+
+    const encode = (text: string) => new TextEncoder().encode(text)
+
+    it('should write chunks before close', async () => {
+      const stream = fs.createWriteStream('/test.txt')
+      const writer = stream.getWriter()
+      const writeFile = vi.spyOn(fs, 'writeFile')
+
+      await writer.write(encode('hello'))
+      await writer.write(encode(' world'))
+      expect(stream.bytesWritten).toBe(11)
+      await writer.close()
+
+      expect(writeFile).not.toHaveBeenCalled()
+      expect(await fs.readFile('/test.txt', { encoding: 'utf-8' })).toBe('hello world')
+    })
+
+    it('should truncate with the default flags', async () => {
+      await fs.writeFile('/test.txt', 'old content here')
+      const writer = fs.createWriteStream('/test.txt').getWriter()
+      await writer.write(encode('new'))
+      await writer.close()
+
+      expect(await fs.readFile('/test.txt', { encoding: 'utf-8' })).toBe('new')
+    })
+
+    it('should append with flags a', async () => {
+      await fs.writeFile('/log.txt', 'line1\n')
+      const writer = fs.createWriteStream('/log.txt', { flags: 'a', start: 0 }).getWriter()
+      await writer.write(encode('line2\n'))
+      await writer.close()
+
+      expect(await fs.readFile('/log.txt', { encoding: 'utf-8' })).toBe('line1\nline2\n')
+    })
+
+    it('should write into an existing file with flags r+', async () => {
+      await fs.writeFile('/test.txt', 'hello world')
+      const writer = fs.createWriteStream('/test.txt', { flags: 'r+', start: 6 }).getWriter()
+      await writer.write(encode('WORLD'))
+      await writer.close()
+
+      expect(await fs.readFile('/test.txt', { encoding: 'utf-8' })).toBe('hello WORLD')
+    })
+
+    it('should fail with flags r+ on a missing file', async () => {
+      const writer = fs.createWriteStream('/missing.txt', { flags: 'r+' }).getWriter()
+      await expect(writer.write(encode('data'))).rejects.toMatchObject({ code: 'ENOENT' })
+      expect(await fs.exists('/missing.txt')).toBe(false)
+    })
+
+    it('should fail with flags wx on an existing file', async () => {
+      await fs.writeFile('/test.txt', 'original')
+      const writer = fs.createWriteStream('/test.txt', { flags: 'wx' }).getWriter()
+
+      await expect(writer.write(encode('data'))).rejects.toMatchObject({ code: 'EEXIST' })
+      expect(await fs.readFile('/test.txt', { encoding: 'utf-8' })).toBe('original')
+    })
+
+    it('should leave the original file intact on abort', async () => {
+      await fs.writeFile('/test.txt', 'original')
+      const writer = fs.createWriteStream('/test.txt').getWriter()
+      await writer.write(encode('partial'))
+      await writer.abort()
+
+      expect(await fs.readFile('/test.txt', { encoding: 'utf-8' })).toBe('original')
+    })
+
+    it('should apply backpressure at highWaterMark', async () => {
+      const writer = fs.createWriteStream('/test.txt', { highWaterMark: 8 }).getWriter()
+      expect(writer.desiredSize).toBe(8)
+
+      const pending = writer.write(new Uint8Array(16))
+      expect(writer.desiredSize).toBeLessThanOrEqual(0)
+
+      await pending
+      await writer.close()
+      expect((await fs.stat('/test.txt')).size).toBe(16)
+    })
+
+    it('should write packed files', async () => {
+      await fs.writeFileBatch([{ path: '/packed.txt', data: 'packed' }])
+      const writer = fs.createWriteStream('/packed.txt', { flags: 'a' }).getWriter()
+      await writer.write(encode('+more'))
+      await writer.close()
+
+      expect(await fs.readFile('/packed.txt', { encoding: 'utf-8' })).toBe('packed+more')
+    })
+
+    describe('without createWritable', () => {
+      const createWritable = FileSystemFileHandle.prototype.createWritable
+
+      beforeEach(() => {
+        delete (FileSystemFileHandle.prototype as { createWritable?: unknown }).createWritable
+      })
+
+      afterEach(() => {
+        FileSystemFileHandle.prototype.createWritable = createWritable
+      })
+
+      it('should write through a swap file', async () => {
+        await fs.writeFile('/test.txt', 'hello world')
+        const writer = fs.createWriteStream('/test.txt', { flags: 'r+' }).getWriter()
+        await writer.write(encode('HELLO'))
+
+        expect(await fs.readFile('/test.txt', { encoding: 'utf-8' })).toBe('hello world')
+        await writer.close()
+
+        expect(await fs.readFile('/test.txt', { encoding: 'utf-8' })).toBe('HELLO world')
+        expect(await fs.readdir('/')).toEqual(['test.txt'])
+      })
+
+      it('should discard the swap file on abort', async () => {
+        await fs.writeFile('/test.txt', 'original')
+        const writer = fs.createWriteStream('/test.txt').getWriter()
+        await writer.write(encode('partial'))
+        await writer.abort()
+
+        expect(await fs.readFile('/test.txt', { encoding: 'utf-8' })).toBe('original')
+        expect(await fs.readdir('/')).toEqual(['test.txt'])
+      })
+
+      it('should hide swap files and remove orphans on ready()', async () => {
+        const swapNames = async () => {
+          const swapDir = await (await navigator.storage.getDirectory()).getDirectoryHandle('.opfs-swap')
+          const names: string[] = []
+          for await (const [name] of swapDir.entries()) names.push(name)
+          return names
+        }
+
+        await fs.writeFile('/test.txt', 'original')
+        const writer = fs.createWriteStream('/test.txt').getWriter()
+        await writer.write(encode('new'))
+        const [open] = await swapNames()
+
+        expect(await fs.readdir('/')).toEqual(['test.txt'])
+
+        // Left behind by a context that closed mid-write
+        const swapDir = await (await navigator.storage.getDirectory()).getDirectoryHandle('.opfs-swap')
+        await swapDir.getFileHandle('orphan.swap', { create: true })
+
+        await new OPFS({ useSync: true, verbose: false }).ready()
+        expect(await swapNames()).toEqual([open])
+
+        await writer.close()
+        expect(await swapNames()).toEqual([])
+        expect(await fs.readFile('/test.txt', { encoding: 'utf-8' })).toBe('new')
+      })
+    })
   })
 
   describe('watch()', () => {
@@ -542,6 +1021,81 @@ describe('Node.js fs Compatibility', () => {
     })
   })
 
+  describe('error codes', () => {
+    it('should report ENOENT with errno, syscall and path', async () => {
+      await expect(fs.readFile('/missing.txt')).rejects.toMatchObject({
+        code: 'ENOENT',
+        errno: -2,
+        syscall: 'open',
+        path: '/missing.txt',
+        message: "ENOENT: no such file or directory, open '/missing.txt'"
+      })
+      await expect(fs.readdir('/missing')).rejects.toMatchObject({ code: 'ENOENT', syscall: 'scandir' })
+    })
+
+    it('should report ENOTDIR when a path component is a file', async () => {
+      await fs.writeFile('/file.txt', 'content')
+
+      await expect(fs.readdir('/file.txt')).rejects.toMatchObject({ code: 'ENOTDIR', errno: -20, syscall: 'scandir' })
+      await expect(fs.readFile('/file.txt/child')).rejects.toMatchObject({ code: 'ENOTDIR' })
+      await expect(fs.stat('/file.txt/child')).rejects.toMatchObject({ code: 'ENOTDIR', syscall: 'stat' })
+    })
+
+    it('should report EISDIR when a file was expected', async () => {
+      await fs.mkdir('/dir')
+
+      await expect(fs.readFile('/dir')).rejects.toMatchObject({ code: 'EISDIR', errno: -21 })
+      await expect(fs.unlink('/dir')).rejects.toMatchObject({ code: 'EISDIR', syscall: 'unlink' })
+    })
+
+    it('should report EEXIST for existing targets', async () => {
+      await fs.writeFile('/file.txt', 'content')
+
+      await expect(fs.symlink('/other', '/file.txt')).rejects.toMatchObject({ code: 'EEXIST', errno: -17, syscall: 'symlink' })
+      await expect(fs.mkdir('/file.txt')).rejects.toMatchObject({ code: 'EEXIST', syscall: 'mkdir' })
+    })
+
+    it('should report ENOTDIR and EISDIR for rename onto a different kind of entry', async () => {
+      await fs.writeFile('/file.txt', 'content')
+      await fs.mkdir('/dir')
+
+      await expect(fs.rename('/dir', '/file.txt')).rejects.toMatchObject({ code: 'ENOTDIR', syscall: 'rename' })
+      await expect(fs.rename('/file.txt', '/dir')).rejects.toMatchObject({ code: 'EISDIR', syscall: 'rename' })
+    })
+
+    it('should report EBUSY when another context holds the file', async () => {
+      await fs.writeFile('/locked.txt', 'content')
+      const handle = await fs.open('/locked.txt', 'r+')
+      const other = new OPFS({ useSync: true, verbose: false })
+
+      try {
+        await expect(other.open('/locked.txt', 'r+')).rejects.toMatchObject({ code: 'EBUSY', errno: -16, path: '/locked.txt' })
+      } finally {
+        await handle.close()
+        other.terminate()
+      }
+    })
+
+    it('should report ENOSPC when the quota is exceeded', async () => {
+      const asyncFs = new OPFS({ useSync: false, verbose: false })
+      await asyncFs.writeFile('/file.txt', 'content')
+      const spy = vi.spyOn(FileSystemFileHandle.prototype, 'createWritable')
+        .mockRejectedValue(new DOMException('Quota exceeded', 'QuotaExceededError'))
+
+      try {
+        await expect(asyncFs.writeFile('/file.txt', 'more')).rejects.toMatchObject({
+          code: 'ENOSPC',
+          errno: -28,
+          syscall: 'open',
+          path: '/file.txt'
+        })
+      } finally {
+        spy.mockRestore()
+        asyncFs.terminate()
+      }
+    })
+  })
+
   describe('Performance with new methods', () => {
     it('should copy many files efficiently', async () => {
       // Create 20 files
@@ -183,7 +183,7 @@ describe('Git Integration Tests', () => {
 
     it('should handle deeply nested symlinks', async () => {
       await initRepo('/deep')
-      await fs.mkdir('/deep/a/b/c/d/e')
+      await fs.mkdir('/deep/a/b/c/d/e', { recursive: true })
       await fs.writeFile('/deep/a/b/c/d/e/file.txt', 'deep content')
       await fs.symlink('/deep/a/b/c/d/e/file.txt', '/deep/shortcut.txt')
 
@@ -200,9 +200,9 @@ describe('Git Integration Tests', () => {
       await initRepo('/cross')
 
       await Promise.all([
-        fs.mkdir('/cross/packages/core/src'),
-        fs.mkdir('/cross/packages/utils/src'),
-        fs.mkdir('/cross/apps/web/src')
+        fs.mkdir('/cross/packages/core/src', { recursive: true }),
+        fs.mkdir('/cross/packages/utils/src', { recursive: true }),
+        fs.mkdir('/cross/apps/web/src', { recursive: true })
       ])
 
       await Promise.all([
@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import OPFS from '../dist/index.js'
+
+const CRC32_TABLE = Array.from({ length: 256 }, (_, i) => {
+  let c = i
+  for (let j = 0; j < 8; j++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  return c >>> 0
+})
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff
+  for (const byte of data) crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/**
+ * Build a journal record: [magic "JRNL": 4][length: 4][CRC32: 4][content...]
+ */
+function journalRecord(content: Uint8Array | string): Uint8Array {
+  const data = typeof content === 'string' ? new TextEncoder().encode(content) : content
+  const record = new Uint8Array(12 + data.length)
+  const view = new DataView(record.buffer)
+  view.setUint32(0, 0x4c4e524a, true)
+  view.setUint32(4, data.length, true)
+  view.setUint32(8, crc32(data), true)
+  record.set(data, 12)
+  return record
+}
+
+async function getContent(name: string): Promise<Uint8Array> {
+  const root = await navigator.storage.getDirectory()
+  const file = await (await root.getFileHandle(name)).getFile()
+  return new Uint8Array(await file.arrayBuffer())
+}
+
+async function setContent(name: string, content: Uint8Array | string): Promise<void> {
+  const root = await navigator.storage.getDirectory()
+  const handle = await root.getFileHandle(name, { create: true })
+  handle._content = typeof content === 'string' ? new TextEncoder().encode(content) : content
+}
+
+async function fileExists(name: string): Promise<boolean> {
+  const root = await navigator.storage.getDirectory()
+  return root.getFileHandle(name).then(() => true, () => false)
+}
+
+describe('Write-ahead journal', () => {
+  let fs: OPFS
+
+  beforeEach(() => {
+    resetFileSystem()
+    fs = new OPFS({ useSync: true, verbose: false })
+  })
+
+  it('should leave no journal behind after a save', async () => {
+    await fs.writeFile('/target.txt', 'data')
+    await fs.symlink('/target.txt', '/link.txt')
+    await fs.chmod('/target.txt', 0o600)
+
+    expect(await fileExists('.opfs-symlinks.json.journal')).toBe(false)
+    expect(await fileExists('.opfs-meta.json.journal')).toBe(false)
+  })
+
+  it('should restore the symlink file from a complete journal on ready()', async () => {
+    await fs.writeFile('/target.txt', 'data')
+    await fs.symlink('/target.txt', '/old-link.txt')
+
+    // Simulate a crash after the journal was written and the symlink file truncated
+    await setContent('.opfs-symlinks.json.journal', journalRecord(JSON.stringify({
+      '/old-link.txt': '/target.txt',
+      '/new-link.txt': '/target.txt'
+    })))
+    await setContent('.opfs-symlinks.json', '{"/old-li')
+
+    const fs2 = new OPFS({ useSync: true, verbose: false })
+    await fs2.ready()
+
+    expect(await fs2.readlink('/new-link.txt')).toBe('/target.txt')
+    expect(await fs2.readFile('/old-link.txt', { encoding: 'utf-8' })).toBe('data')
+    expect(await fileExists('.opfs-symlinks.json.journal')).toBe(false)
+  })
+
+  it('should discard a torn journal and keep the last good symlink file', async () => {
+    await fs.writeFile('/target.txt', 'data')
+    await fs.symlink('/target.txt', '/link.txt')
+
+    const record = journalRecord(JSON.stringify({ '/link.txt': '/target.txt', '/other.txt': '/target.txt' }))
+    await setContent('.opfs-symlinks.json.journal', record.slice(0, record.length - 5))
+
+    const fs2 = new OPFS({ useSync: true, verbose: false })
+    await fs2.ready()
+
+    expect(await fs2.readlink('/link.txt')).toBe('/target.txt')
+    expect(await fs2.exists('/other.txt')).toBe(false)
+    expect(await fileExists('.opfs-symlinks.json.journal')).toBe(false)
+  })
+
+  it('should restore the metadata file on first access without ready()', async () => {
+    await fs.writeFile('/file.txt', 'data')
+    await setContent('.opfs-meta.json.journal', journalRecord(JSON.stringify({ '/file.txt': { mode: 0o100600 } })))
+    await setContent('.opfs-meta.json', '')
+
+    const fs2 = new OPFS({ useSync: true, verbose: false })
+
+    expect((await fs2.stat('/file.txt')).mode & 0o777).toBe(0o600)
+    expect(await fileExists('.opfs-meta.json.journal')).toBe(false)
+  })
+
+  it('should finish an interrupted pack compaction from the journal', async () => {
+    await fs.writeFileBatch([{ path: '/a.txt', data: 'a' }, { path: '/b.txt', data: 'b' }])
+    await fs.writeFileBatch([{ path: '/a.txt', data: 'a2' }])
+    await fs.compact()
+    const compacted = await getContent('.opfs-pack')
+
+    // Simulate a crash after the pack was truncated and partly rewritten
+    await setContent('.opfs-pack', compacted.slice(0, 10))
+    await setContent('.opfs-pack.journal', journalRecord(compacted))
+
+    const fs2 = new OPFS({ useSync: true, verbose: false })
+    await fs2.ready()
+
+    expect(await fs2.readFile('/a.txt', { encoding: 'utf-8' })).toBe('a2')
+    expect(await fs2.readFile('/b.txt', { encoding: 'utf-8' })).toBe('b')
+    expect(await getContent('.opfs-pack')).toEqual(compacted)
+    expect(await fileExists('.opfs-pack.journal')).toBe(false)
+  })
+
+  it('should discard a torn pack journal when the pack is intact', async () => {
+    await fs.writeFileBatch([{ path: '/a.txt', data: 'current' }])
+    await setContent('.opfs-pack.journal', new Uint8Array(32).fill(0xff))
+
+    const fs2 = new OPFS({ useSync: true, verbose: false })
+    expect(await fs2.readFile('/a.txt', { encoding: 'utf-8' })).toBe('current')
+    expect(await fileExists('.opfs-pack.journal')).toBe(false)
+  })
+
+  it('should move a corrupt pack aside instead of overwriting it', async () => {
+    await fs.writeFileBatch([{ path: '/a.txt', data: 'packed' }])
+    const corrupt = await getContent('.opfs-pack')
+    corrupt[corrupt.length - 30] ^= 0xff // Inside the index, so its CRC32 no longer matches
+    await setContent('.opfs-pack', corrupt)
+
+    const root = await navigator.storage.getDirectory()
+    const rootNames = async () => {
+      const names: string[] = []
+      for await (const [name] of root.entries()) names.push(name)
+      return names
+    }
+
+    // Reads report the corruption without changing anything on disk
+    const fs2 = new OPFS({ useSync: true, verbose: false })
+    await expect(fs2.readFile('/a.txt')).rejects.toMatchObject({ code: 'EIO' })
+    await expect(fs2.stat('/a.txt')).rejects.toMatchObject({ code: 'EIO' })
+    expect(await getContent('.opfs-pack')).toEqual(corrupt)
+    expect((await rootNames()).some(name => name.startsWith('.opfs-pack.corrupt-'))).toBe(false)
+
+    await fs2.ready()
+    expect(await fs2.exists('/a.txt')).toBe(false)
+    await fs2.writeFileBatch([{ path: '/b.txt', data: 'next' }])
+
+    const backup = (await rootNames()).find(name => name.startsWith('.opfs-pack.corrupt-'))
+    expect(backup).toBeDefined()
+    expect(await getContent(backup!)).toEqual(corrupt)
+    expect(await fs2.readFile('/b.txt', { encoding: 'utf-8' })).toBe('next')
+    expect(await fs2.readdir('/')).toEqual(['b.txt'])
+  })
+
+  it('should move a corrupt pack aside when a batch is written to it', async () => {
+    await fs.writeFileBatch([{ path: '/a.txt', data: 'packed' }])
+    const corrupt = await getContent('.opfs-pack')
+    corrupt[corrupt.length - 30] ^= 0xff
+    await setContent('.opfs-pack', corrupt)
+
+    const fs2 = new OPFS({ useSync: true, verbose: false })
+    await fs2.writeFileBatch([{ path: '/b.txt', data: 'next' }])
+
+    expect(await fs2.readFile('/b.txt', { encoding: 'utf-8' })).toBe('next')
+    expect(await fs2.exists('/a.txt')).toBe(false)
+  })
+
+  it('should hide journals from readdir', async () => {
+    await fs.writeFile('/file.txt', 'data')
+    await setContent('.opfs-symlinks.json.journal', new Uint8Array(4))
+    await setContent('.opfs-meta.json.journal', new Uint8Array(4))
+    await setContent('.opfs-pack.journal', new Uint8Array(4))
+
+    expect(await fs.readdir('/')).toEqual(['file.txt'])
+  })
+})
@@ -0,0 +1,304 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import OPFS from '../dist/index.js'
+
+type Mode = 'shared' | 'exclusive'
+
+/** Stands in for navigator.locks, which other tabs and workers share */
+class FakeLockManager {
+  held = new Map<string, { mode: Mode; count: number }>()
+  private waiters: Array<{ name: string; mode: Mode; grant: () => void }> = []
+
+  async request<T>(
+    name: string,
+    options: { mode?: Mode; signal?: AbortSignal; ifAvailable?: boolean },
+    callback: (lock: { name: string; mode: Mode } | null) => Promise<T>
+  ): Promise<T> {
+    const mode = options.mode ?? 'exclusive'
+    if (options.ifAvailable && !this.tryTake(name, mode)) {
+      return callback(null)
+    }
+    if (!options.ifAvailable && !this.tryTake(name, mode)) {
+      await new Promise<void>((resolve, reject) => {
+        const waiter = { name, mode, grant: resolve }
+        this.waiters.push(waiter)
+        options.signal?.addEventListener('abort', () => {
+          this.waiters.splice(this.waiters.indexOf(waiter), 1)
+          reject(new DOMException('The request was aborted', 'AbortError'))
+        })
+      })
+    }
+
+    try {
+      return await callback({ name, mode })
+    } finally {
+      const lock = this.held.get(name)!
+      if (--lock.count === 0) this.held.delete(name)
+      for (const waiter of [...this.waiters]) {
+        if (this.tryTake(waiter.name, waiter.mode)) {
+          this.waiters.splice(this.waiters.indexOf(waiter), 1)
+          waiter.grant()
+        }
+      }
+    }
+  }
+
+  /** Hold a lock like another tab would, until the returned function is called */
+  async hold(name: string, mode: Mode = 'exclusive'): Promise<() => void> {
+    let release!: () => void
+    const held = new Promise<void>(resolve => { release = resolve })
+    await new Promise<void>(granted => {
+      void this.request(name, { mode }, () => {
+        granted()
+        return held
+      })
+    })
+    return release
+  }
+
+  private tryTake(name: string, mode: Mode): boolean {
+    const lock = this.held.get(name)
+    if (!lock) {
+      this.held.set(name, { mode, count: 1 })
+      return true
+    }
+    if (lock.mode === 'shared' && mode === 'shared') {
+      lock.count++
+      return true
+    }
+    return false
+  }
+}
+
+describe('lock()', () => {
+  let fs: OPFS
+  let locks: FakeLockManager
+
+  beforeEach(() => {
+    resetFileSystem()
+    locks = new FakeLockManager()
+    vi.stubGlobal('navigator', { ...navigator, locks })
+    fs = new OPFS({ useSync: true, verbose: false })
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('should make a second exclusive lock wait for the first', async () => {
+    const order: string[] = []
+    const release = await fs.lock('/db.json')
+
+    const second = fs.lock('/db.json').then(releaseSecond => {
+      order.push('second')
+      releaseSecond()
+    })
+    await new Promise(resolve => setTimeout(resolve, 10))
+    order.push('first released')
+    release()
+    await second
+
+    expect(order).toEqual(['first released', 'second'])
+  })
+
+  it('should share shared locks and make exclusive ones wait for them', async () => {
+    const first = await fs.lock('/db.json', { mode: 'shared' })
+    const second = await fs.lock('/db.json', { mode: 'shared' })
+
+    await expect(fs.lock('/db.json', { timeout: 20 })).rejects.toMatchObject({ code: 'EBUSY', syscall: 'lock', path: '/db.json' })
+
+    first()
+    second()
+    const exclusive = await fs.lock('/db.json', { timeout: 20 })
+    exclusive()
+  })
+
+  it('should fail with EBUSY when another context holds the lock', async () => {
+    const release = await locks.hold('opfs-fs:lock:/db.json')
+
+    await expect(fs.lock('db.json', { timeout: 20 })).rejects.toMatchObject({ code: 'EBUSY', errno: -16 })
+
+    release()
+    const acquired = await fs.lock('/db.json', { timeout: 20 })
+    expect(locks.held.has('opfs-fs:lock:/db.json')).toBe(true)
+    acquired()
+    await new Promise(resolve => setTimeout(resolve, 0))
+    expect(locks.held.has('opfs-fs:lock:/db.json')).toBe(false)
+  })
+
+  it('should not block file operations on the same path', async () => {
+    const release = await fs.lock('/file.txt')
+
+    await fs.writeFile('/file.txt', 'data')
+    expect(await fs.readFile('/file.txt', { encoding: 'utf-8' })).toBe('data')
+    release()
+  })
+
+  it('should lock internal files across contexts with crossContextLocks', async () => {
+    const crossFs = new OPFS({ useSync: true, verbose: false, crossContextLocks: true, lockTimeout: 20 })
+    await crossFs.writeFileBatch([{ path: '/a.txt', data: 'a' }])
+
+    const release = await locks.hold('opfs-fs:/.opfs-pack')
+    await expect(crossFs.writeFileBatch([{ path: '/b.txt', data: 'b' }])).rejects.toMatchObject({ code: 'EBUSY' })
+
+    release()
+    await crossFs.writeFileBatch([{ path: '/b.txt', data: 'b' }])
+    expect(await crossFs.readFile('/b.txt', { encoding: 'utf-8' })).toBe('b')
+    expect(locks.held.size).toBe(0)
+  })
+
+  it('should let shared waiters go ahead once an exclusive waiter before them times out', async () => {
+    const first = await fs.lock('/db.json', { mode: 'shared' })
+    const exclusive = fs.lock('/db.json', { timeout: 20 })
+    const shared = fs.lock('/db.json', { mode: 'shared' })
+
+    await expect(exclusive).rejects.toMatchObject({ code: 'EBUSY' })
+    const second = await shared
+    first()
+    second()
+  })
+
+  it('should keep the lock settings of each instance', async () => {
+    const crossFs = new OPFS({ useSync: true, verbose: false, crossContextLocks: true, lockTimeout: 20 })
+    const localFs = new OPFS({ useSync: true, verbose: false, crossContextLocks: false, lockTimeout: 0 })
+
+    const release = await locks.hold('opfs-fs:/.opfs-pack')
+    await expect(crossFs.writeFileBatch([{ path: '/a.txt', data: 'a' }])).rejects.toMatchObject({ code: 'EBUSY' })
+    await localFs.writeFileBatch([{ path: '/b.txt', data: 'b' }])
+    release()
+  })
+
+  it('should wait for the instance lockTimeout by default', async () => {
+    const timedFs = new OPFS({ useSync: true, verbose: false, lockTimeout: 20 })
+    const release = await locks.hold('opfs-fs:lock:/db.json')
+
+    await expect(timedFs.lock('/db.json')).rejects.toMatchObject({ code: 'EBUSY' })
+    const waiting = timedFs.lock('/db.json', { timeout: 0 })
+    release()
+    const acquired = await waiting
+    acquired()
+  })
+
+  it('should not share locks between instances with different roots', async () => {
+    const workspace = new OPFS({ useSync: true, verbose: false, root: '/workspaces/a' })
+    const release = await workspace.lock('/db.json')
+    expect(locks.held.has('opfs-fs:lock:/workspaces/a/db.json')).toBe(true)
+
+    const acquired = await fs.lock('/db.json', { ifAvailable: true })
+    await expect(workspace.lock('/db.json', { ifAvailable: true })).rejects.toMatchObject({ code: 'EBUSY', path: '/db.json' })
+    acquired()
+    release()
+  })
+})
+
+describe('FileHandle locks', () => {
+  let fs: OPFS
+  let locks: FakeLockManager
+
+  beforeEach(async () => {
+    resetFileSystem()
+    locks = new FakeLockManager()
+    vi.stubGlobal('navigator', { ...navigator, locks })
+    fs = new OPFS({ useSync: true, verbose: false })
+    await fs.writeFile('/index.lock', '')
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('should let only one handle hold an exclusive lock', async () => {
+    const first = await fs.open('/index.lock', 'r')
+    const second = await fs.open('/index.lock', 'r')
+
+    await first.lock()
+    expect(await second.tryLock()).toBe(false)
+    expect(await second.tryLock('shared')).toBe(false)
+
+    await first.unlock()
+    expect(await second.tryLock()).toBe(true)
+
+    await first.close()
+    await second.close()
+  })
+
+  it('should share shared locks between handles', async () => {
+    const first = await fs.open('/index.lock', 'r')
+    const second = await fs.open('/index.lock', 'r')
+
+    await first.lock('shared')
+    expect(await second.tryLock('shared')).toBe(true)
+    expect(await fs.lock('/index.lock', { ifAvailable: true }).catch(err => err.code)).toBe('EBUSY')
+
+    await first.close()
+    await second.close()
+  })
+
+  it('should release the lock on close and on dispose', async () => {
+    const handle = await fs.open('/index.lock', 'r')
+    await handle.lock()
+    const waiting = fs.lock('/index.lock')
+    await handle.close()
+    const release = await waiting
+    release()
+
+    const disposed = await fs.open('/index.lock', 'r')
+    await disposed.lock()
+    await disposed[Symbol.asyncDispose]()
+    const acquired = await fs.lock('/index.lock', { ifAvailable: true })
+    acquired()
+  })
+
+  it('should change the mode when locked again', async () => {
+    const handle = await fs.open('/index.lock', 'r')
+    const other = await fs.open('/index.lock', 'r')
+
+    await handle.lock('exclusive')
+    await handle.lock('shared')
+    expect(await other.tryLock('shared')).toBe(true)
+
+    await handle.close()
+    await other.close()
+  })
+
+  it('should coordinate with locks of other contexts', async () => {
+    const release = await locks.hold('opfs-fs:lock:/index.lock')
+    const handle = await fs.open('/index.lock', 'r')
+
+    expect(await handle.tryLock()).toBe(false)
+    release()
+    await handle.lock()
+    expect(locks.held.get('opfs-fs:lock:/index.lock')?.mode).toBe('exclusive')
+
+    await handle.close()
+  })
+
+  it('should serialize concurrent lock calls on one handle', async () => {
+    const handle = await fs.open('/index.lock', 'r')
+    const other = await fs.open('/index.lock', 'r')
+
+    await Promise.all([handle.lock(), handle.lock(), handle.tryLock()])
+    expect(await other.tryLock()).toBe(false)
+
+    await Promise.all([handle.lock('shared'), handle.unlock()])
+    expect(await other.tryLock()).toBe(true)
+
+    await handle.close()
+    await other.close()
+  })
+
+  it('should not block writes of the same instance (advisory)', async () => {
+    const handle = await fs.open('/index.lock', 'r')
+    await handle.lock()
+
+    await fs.writeFile('/index.lock', 'written')
+    expect(await fs.readFile('/index.lock', { encoding: 'utf-8' })).toBe('written')
+    await handle.close()
+  })
+
+  it('should fail with EBADF on a closed handle', async () => {
+    const handle = await fs.open('/index.lock', 'r')
+    await handle.close()
+
+    await expect(handle.lock()).rejects.toMatchObject({ code: 'EBADF', syscall: 'flock' })
+  })
+})
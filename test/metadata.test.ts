@@ -0,0 +1,222 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import OPFS from '../dist/index.js'
+
+describe('Metadata Support', () => {
+  let fs: OPFS
+
+  beforeEach(() => {
+    resetFileSystem()
+    fs = new OPFS({ useSync: true, verbose: false })
+  })
+
+  describe('chmod()', () => {
+    it('should persist file mode', async () => {
+      await fs.writeFile('/script.sh', '#!/bin/sh')
+      await fs.chmod('/script.sh', 0o755)
+
+      const stat = await fs.stat('/script.sh')
+      expect(stat.mode).toBe(0o100755)
+    })
+
+    it('should persist directory mode', async () => {
+      await fs.mkdir('/private')
+      await fs.chmod('/private', 0o700)
+
+      const stat = await fs.stat('/private')
+      expect(stat.mode).toBe(0o040700)
+    })
+
+    it('should follow symlinks', async () => {
+      await fs.writeFile('/target.sh', 'echo')
+      await fs.symlink('/target.sh', '/link.sh')
+      await fs.chmod('/link.sh', 0o755)
+
+      expect((await fs.stat('/target.sh')).mode).toBe(0o100755)
+      expect((await fs.lstat('/link.sh')).mode).toBe(0o120777)
+    })
+
+    it('should survive a new instance', async () => {
+      await fs.writeFile('/script.sh', '#!/bin/sh')
+      await fs.chmod('/script.sh', 0o755)
+
+      const fs2 = new OPFS({ useSync: true, verbose: false })
+      expect((await fs2.stat('/script.sh')).mode).toBe(0o100755)
+    })
+
+    it('should keep mode after content changes', async () => {
+      await fs.writeFile('/script.sh', 'v1')
+      await fs.chmod('/script.sh', 0o755)
+      await fs.writeFile('/script.sh', 'v2')
+
+      expect((await fs.stat('/script.sh')).mode).toBe(0o100755)
+    })
+  })
+
+  describe('chown()', () => {
+    it('should persist uid and gid', async () => {
+      await fs.writeFile('/owned.txt', 'content')
+      await fs.chown('/owned.txt', 1000, 100)
+
+      const stat = await fs.stat('/owned.txt')
+      expect(stat.uid).toBe(1000)
+      expect(stat.gid).toBe(100)
+    })
+
+    it('should leave values unchanged when -1 is passed', async () => {
+      await fs.writeFile('/owned.txt', 'content')
+      await fs.chown('/owned.txt', 1000, 100)
+      await fs.chown('/owned.txt', -1, 200)
+
+      const stat = await fs.stat('/owned.txt')
+      expect(stat.uid).toBe(1000)
+      expect(stat.gid).toBe(200)
+    })
+
+    it('should default to 0', async () => {
+      await fs.writeFile('/file.txt', 'content')
+      const stat = await fs.stat('/file.txt')
+      expect(stat.uid).toBe(0)
+      expect(stat.gid).toBe(0)
+    })
+  })
+
+  describe('utimes()', () => {
+    it('should round-trip Date timestamps', async () => {
+      await fs.writeFile('/file.txt', 'content')
+      const atime = new Date('2020-01-01T00:00:00Z')
+      const mtime = new Date('2021-06-15T12:00:00Z')
+      await fs.utimes('/file.txt', atime, mtime)
+
+      const stat = await fs.stat('/file.txt')
+      expect(stat.atimeMs).toBe(atime.getTime())
+      expect(stat.mtimeMs).toBe(mtime.getTime())
+      expect(stat.mtime).toEqual(mtime)
+    })
+
+    it('should treat numbers as seconds since epoch', async () => {
+      await fs.writeFile('/file.txt', 'content')
+      await fs.utimes('/file.txt', 1600000000, 1700000000)
+
+      const stat = await fs.stat('/file.txt')
+      expect(stat.atimeMs).toBe(1600000000 * 1000)
+      expect(stat.mtimeMs).toBe(1700000000 * 1000)
+    })
+
+    it('should set directory timestamps', async () => {
+      await fs.mkdir('/dir')
+      const mtime = new Date('2022-02-02T00:00:00Z')
+      await fs.utimes('/dir', mtime, mtime)
+
+      expect((await fs.stat('/dir')).mtimeMs).toBe(mtime.getTime())
+    })
+
+    it('should set packed file timestamps', async () => {
+      await fs.writeFileBatch([{ path: '/packed.txt', data: 'content' }])
+      const mtime = new Date('2022-02-02T00:00:00Z')
+      await fs.utimes('/packed.txt', mtime, mtime)
+
+      expect((await fs.stat('/packed.txt')).mtimeMs).toBe(mtime.getTime())
+    })
+
+    it('should be superseded by a later write', async () => {
+      await fs.writeFile('/file.txt', 'v1')
+      const mtime = new Date('2000-01-01T00:00:00Z')
+      await fs.utimes('/file.txt', mtime, mtime)
+
+      await new Promise(resolve => setTimeout(resolve, 5))
+      await fs.writeFile('/file.txt', 'v2')
+
+      const stat = await fs.stat('/file.txt')
+      expect(stat.mtimeMs).toBeGreaterThan(mtime.getTime())
+    })
+
+    it('should report birthtime and ctime', async () => {
+      await fs.writeFile('/file.txt', 'content')
+      const before = await fs.stat('/file.txt')
+      await fs.utimes('/file.txt', new Date(0), new Date(0))
+
+      const stat = await fs.stat('/file.txt')
+      expect(stat.birthtimeMs).toBe(before.birthtimeMs)
+      expect(stat.ctimeMs).toBeGreaterThanOrEqual(before.ctimeMs)
+      expect(stat.birthtime).toBeInstanceOf(Date)
+    })
+  })
+
+  describe('lutimes()', () => {
+    it('should set symlink timestamps without touching the target', async () => {
+      await fs.writeFile('/target.txt', 'content')
+      await fs.symlink('/target.txt', '/link.txt')
+      const targetBefore = await fs.stat('/target.txt')
+
+      const mtime = new Date('2019-01-01T00:00:00Z')
+      await fs.lutimes('/link.txt', mtime, mtime)
+
+      expect((await fs.lstat('/link.txt')).mtimeMs).toBe(mtime.getTime())
+      expect((await fs.stat('/target.txt')).mtimeMs).toBe(targetBefore.mtimeMs)
+    })
+  })
+
+  describe('consistency', () => {
+    it('should move metadata on rename', async () => {
+      await fs.writeFile('/a.sh', 'echo')
+      await fs.chmod('/a.sh', 0o755)
+      const mtime = new Date('2018-01-01T00:00:00Z')
+      await fs.utimes('/a.sh', mtime, mtime)
+
+      await fs.rename('/a.sh', '/b.sh')
+
+      const stat = await fs.stat('/b.sh')
+      expect(stat.mode).toBe(0o100755)
+      expect(stat.mtimeMs).toBe(mtime.getTime())
+    })
+
+    it('should move metadata of directory contents on rename', async () => {
+      await fs.mkdir('/src')
+      await fs.writeFile('/src/run.sh', 'echo')
+      await fs.chmod('/src/run.sh', 0o755)
+
+      await fs.rename('/src', '/dest')
+
+      expect((await fs.stat('/dest/run.sh')).mode).toBe(0o100755)
+    })
+
+    it('should copy mode on copyFile and cp', async () => {
+      await fs.writeFile('/run.sh', 'echo')
+      await fs.chmod('/run.sh', 0o755)
+
+      await fs.copyFile('/run.sh', '/copy.sh')
+      await fs.cp('/run.sh', '/cp.sh')
+
+      expect((await fs.stat('/copy.sh')).mode).toBe(0o100755)
+      expect((await fs.stat('/cp.sh')).mode).toBe(0o100755)
+    })
+
+    it('should drop metadata on unlink', async () => {
+      await fs.writeFile('/run.sh', 'echo')
+      await fs.chmod('/run.sh', 0o755)
+      await fs.unlink('/run.sh')
+      await fs.writeFile('/run.sh', 'echo')
+
+      expect((await fs.stat('/run.sh')).mode).toBe(0o100644)
+    })
+
+    it('should drop metadata of directory contents on rm', async () => {
+      await fs.mkdir('/dir')
+      await fs.writeFile('/dir/run.sh', 'echo')
+      await fs.chmod('/dir/run.sh', 0o755)
+      await fs.rm('/dir', { recursive: true })
+
+      await fs.mkdir('/dir')
+      await fs.writeFile('/dir/run.sh', 'echo')
+      expect((await fs.stat('/dir/run.sh')).mode).toBe(0o100644)
+    })
+
+    it('should hide the metadata file from readdir', async () => {
+      await fs.writeFile('/file.txt', 'content')
+      await fs.chmod('/file.txt', 0o600)
+
+      const entries = await fs.readdir('/')
+      expect(entries).toEqual(['file.txt'])
+    })
+  })
+})
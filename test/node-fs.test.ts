@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import OPFS, { createNodeFS, FSError } from '../dist/index.js'
+import type { NodeFS } from '../dist/index.js'
+
+/** Call a callback-style method and resolve with the arguments of its callback */
+function callback(fn: (...args: any[]) => void, ...args: unknown[]): Promise<unknown[]> {
+  return new Promise(resolve => fn(...args, (...results: unknown[]) => resolve(results)))
+}
+
+describe('createNodeFS()', () => {
+  let opfs: OPFS
+  let fs: NodeFS
+
+  beforeEach(() => {
+    resetFileSystem()
+    opfs = new OPFS({ useSync: false, verbose: false })
+    fs = createNodeFS(opfs)
+  })
+
+  afterEach(() => {
+    opfs.terminate()
+  })
+
+  it('should provide callback variants', async () => {
+    const [writeErr] = await callback(fs.writeFile, '/file.txt', 'hello')
+    expect(writeErr).toBeNull()
+
+    const [readErr, data] = await callback(fs.readFile, '/file.txt', { encoding: 'utf-8' })
+    expect(readErr).toBeNull()
+    expect(data).toBe('hello')
+
+    const [, stats] = await callback(fs.stat, '/file.txt') as [null, { size: number }]
+    expect(stats.size).toBe(5)
+  })
+
+  it('should accept an encoding string in place of options', async () => {
+    await callback(fs.writeFile, '/file.txt', 'hello', 'utf8')
+
+    expect(await callback(fs.readFile, '/file.txt', 'utf8')).toEqual([null, 'hello'])
+    expect(await fs.promises.readFile('/file.txt', 'utf8' as never)).toBe('hello')
+  })
+
+  it('should pass Node.js style errors to callbacks', async () => {
+    const [err] = await callback(fs.readFile, '/missing.txt') as [FSError]
+
+    expect(err).toBeInstanceOf(FSError)
+    expect(err).toMatchObject({ code: 'ENOENT', errno: -2, syscall: 'open', path: '/missing.txt' })
+  })
+
+  it('should call exists callbacks with only the result', async () => {
+    await opfs.writeFile('/file.txt', 'hello')
+
+    expect(await callback(fs.exists, '/file.txt')).toEqual([true])
+    expect(await callback(fs.exists, '/missing.txt')).toEqual([false])
+  })
+
+  it('should read and write through file descriptors', async () => {
+    await opfs.writeFile('/file.txt', 'hello world')
+
+    const [, fd] = await callback(fs.open, '/file.txt', 'r+') as [null, number]
+    expect(typeof fd).toBe('number')
+
+    const buffer = new Uint8Array(5)
+    expect(await callback(fs.read, fd, buffer, 0, 5, 6)).toEqual([null, 5, buffer])
+    expect(new TextDecoder().decode(buffer)).toBe('world')
+    expect((await callback(fs.write, fd, 'HELLO', 0, undefined, 0)).slice(0, 2)).toEqual([null, 5])
+
+    const [, stats] = await callback(fs.fstat, fd) as [null, { size: number }]
+    expect(stats.size).toBe(11)
+    expect(await callback(fs.close, fd)).toEqual([null, undefined])
+    expect(await opfs.readFile('/file.txt', { encoding: 'utf-8' })).toBe('HELLO world')
+
+    const [err] = await callback(fs.read, fd, buffer, 0, 5, 0) as [FSError]
+    expect(err).toMatchObject({ code: 'EBADF', errno: -9, syscall: 'read' })
+  })
+
+  it('should expose promises and constants', async () => {
+    await fs.promises.writeFile('/file.txt', 'hello')
+
+    expect(await fs.promises.readFile('/file.txt', { encoding: 'utf-8' })).toBe('hello')
+    expect(fs.constants.O_RDONLY).toBe(0)
+    expect(fs.promises.constants).toBe(fs.constants)
+    await expect(fs.promises.stat('/missing')).rejects.toMatchObject({
+      code: 'ENOENT',
+      errno: -2,
+      syscall: 'stat',
+      path: '/missing'
+    })
+
+    const handle = await fs.promises.open('/file.txt', 'r')
+    expect((await handle.stat()).size).toBe(5)
+    await handle.close()
+  })
+
+  it('should require a callback', () => {
+    expect(() => (fs.readFile as (path: string) => void)('/file.txt')).toThrow(TypeError)
+  })
+})
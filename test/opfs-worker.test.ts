@@ -0,0 +1,229 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { OPFSWorker } from '../dist/opfs-worker-proxy.js'
+import OPFS from '../dist/index.js'
+
+type Request = { id: number; method: string; args: unknown[] }
+
+/** Stands in for the worker script: answers requests with respond() and crashes on demand */
+class FakeWorker {
+  static instances: FakeWorker[] = []
+  onmessage: ((event: { data: unknown }) => void) | null = null
+  onerror: ((event: { message: string; preventDefault: () => void }) => void) | null = null
+  requests: Request[] = []
+  terminated = false
+
+  constructor() {
+    FakeWorker.instances.push(this)
+  }
+
+  postMessage(message: Request): void {
+    this.requests.push(message)
+  }
+
+  terminate(): void {
+    this.terminated = true
+  }
+
+  ready(): void {
+    this.onmessage?.({ data: { type: 'ready' } })
+  }
+
+  /** Report ready and answer the configure request that OPFSWorker sends first */
+  start(): void {
+    this.ready()
+    this.respond({ result: undefined })
+  }
+
+  respond(data: object): void {
+    this.onmessage?.({ data: { id: this.requests.shift()!.id, ...data } })
+  }
+
+  crash(message = 'boom'): void {
+    this.onerror?.({ message, preventDefault: () => {} })
+  }
+}
+
+describe('OPFSWorker', () => {
+  let fs: OPFSWorker
+
+  const createWorker = (options = {}) => {
+    fs = new OPFSWorker({ workerUrl: 'opfs-worker.js', ...options })
+    return FakeWorker.instances[FakeWorker.instances.length - 1]
+  }
+
+  beforeEach(() => {
+    FakeWorker.instances = []
+    vi.stubGlobal('Worker', FakeWorker)
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    fs.terminate()
+    vi.restoreAllMocks()
+    vi.unstubAllGlobals()
+  })
+
+  it('should rebuild FSErrors with all their fields', async () => {
+    const worker = createWorker()
+    worker.start()
+
+    const promise = fs.readFile('/missing.txt')
+    worker.respond({
+      error: {
+        name: 'FSError',
+        message: "ENOENT: no such file or directory, open '/missing.txt'",
+        code: 'ENOENT',
+        errno: -2,
+        syscall: 'open',
+        path: '/missing.txt',
+        stack: 'FSError: ENOENT\n    at readFile (opfs-worker.js:1:1)',
+        original: { name: 'NotFoundError', message: 'A requested file or directory could not be found' }
+      }
+    })
+
+    const error = await promise.catch(err => err)
+    expect(error).toMatchObject({ name: 'FSError', code: 'ENOENT', errno: -2, syscall: 'open', path: '/missing.txt' })
+    expect(error.stack).toContain('opfs-worker.js')
+    expect(error.original).toBeInstanceOf(DOMException)
+    expect(error.original.name).toBe('NotFoundError')
+  })
+
+  it('should map DOMExceptions that reach the worker boundary unwrapped', async () => {
+    const worker = createWorker()
+    worker.start()
+
+    const promise = fs.writeFile('/file.txt', 'data')
+    worker.respond({ error: { name: 'QuotaExceededError', message: 'Quota exceeded' } })
+
+    await expect(promise).rejects.toMatchObject({ code: 'ENOSPC', errno: -28, original: { name: 'QuotaExceededError' } })
+  })
+
+  it('should reject pending requests when the worker crashes', async () => {
+    const worker = createWorker()
+    worker.start()
+
+    const pending = [fs.readFile('/a.txt'), fs.stat('/b.txt')]
+    worker.crash()
+
+    await expect(pending[0]).rejects.toMatchObject({ code: 'EPIPE', syscall: 'readFile' })
+    await expect(pending[1]).rejects.toMatchObject({ code: 'EPIPE', syscall: 'stat' })
+    expect(worker.terminated).toBe(true)
+    await expect(fs.exists('/a.txt')).rejects.toMatchObject({ code: 'EPIPE' })
+  })
+
+  it('should reject ready() when the worker crashes while starting', async () => {
+    const worker = createWorker({ autoRestart: true })
+    worker.crash('failed to load')
+
+    await expect(fs.ready()).rejects.toMatchObject({ code: 'EPIPE', message: expect.stringContaining('failed to load') })
+    expect(FakeWorker.instances).toHaveLength(1)
+  })
+
+  it('should restart the worker with autoRestart', async () => {
+    const worker = createWorker({ autoRestart: true })
+    worker.start()
+
+    const pending = fs.exists('/a.txt')
+    worker.crash()
+    await expect(pending).rejects.toMatchObject({ code: 'EPIPE' })
+
+    expect(FakeWorker.instances).toHaveLength(2)
+    const restarted = FakeWorker.instances[1]
+    restarted.start()
+    await fs.ready()
+
+    const result = fs.exists('/a.txt')
+    restarted.respond({ result: true })
+    expect(await result).toBe(true)
+  })
+
+  it('should scope the worker to the root before the first request', async () => {
+    const worker = createWorker({ root: '/workspaces/a' })
+    worker.ready()
+
+    const result = fs.exists('/a.txt')
+    expect(worker.requests.map(request => request.method)).toEqual(['configure', 'exists'])
+    expect(worker.requests[0].args).toEqual([{ root: '/workspaces/a' }])
+
+    let ready = false
+    const readyPromise = fs.ready().then(() => { ready = true })
+    await new Promise(resolve => setTimeout(resolve, 0))
+    expect(ready).toBe(false)
+
+    worker.respond({ result: undefined })
+    await readyPromise
+    worker.respond({ result: false })
+    expect(await result).toBe(false)
+  })
+})
+
+describe('worker script', () => {
+  type Message = { id?: number; type?: string; result?: unknown; error?: unknown }
+  let messages: Message[]
+  let scope: { onmessage: ((event: { data: Request }) => Promise<void>) | null; postMessage: (message: Message) => void }
+  let nextId: number
+
+  /** Send a request to the worker script and return its response */
+  const request = async (method: string, ...args: unknown[]): Promise<Message> => {
+    const id = nextId++
+    await scope.onmessage!({ data: { id, method, args } })
+    return messages.find(message => message.id === id)!
+  }
+
+  /** Load a fresh copy of the worker script */
+  const startWorker = async (): Promise<void> => {
+    vi.resetModules()
+    await import('../dist/opfs-worker.js')
+  }
+
+  beforeEach(() => {
+    resetFileSystem()
+    messages = []
+    nextId = 1
+    scope = { onmessage: null, postMessage: message => messages.push(message) }
+    vi.stubGlobal('self', scope)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.unstubAllGlobals()
+  })
+
+  it('should not recover the origin root before it is configured', async () => {
+    // An unfinished transaction of another app in the origin root
+    const origin = new OPFS({ useSync: true, verbose: false })
+    await origin.writeFile('/.opfs-tx/other/0', 'staged')
+    await startWorker()
+    expect(messages).toEqual([{ type: 'ready' }])
+
+    expect(await request('configure', { root: '/workspaces/a' })).toEqual({ id: 1, result: undefined })
+    await request('writeFile', '/a.txt', 'a')
+
+    expect(await origin.exists('/.opfs-tx/other/0')).toBe(true)
+    expect(await origin.readFile('/workspaces/a/a.txt', { encoding: 'utf-8' })).toBe('a')
+  })
+
+  it('should terminate the instance that configure replaces', async () => {
+    await startWorker()
+    await request('configure', { root: '/workspaces/a' })
+    await request('writeFile', '/a.txt', 'a') // Opens the watch channel
+    const close = vi.spyOn(BroadcastChannel.prototype, 'close')
+
+    await request('configure', { root: '/workspaces/b' })
+
+    expect(close).toHaveBeenCalledTimes(1)
+    expect((await request('exists', '/a.txt')).result).toBe(false)
+  })
+
+  it('should terminate the instance that gc replaces', async () => {
+    await startWorker()
+    await request('configure', {})
+    await request('writeFile', '/a.txt', 'a')
+    const close = vi.spyOn(BroadcastChannel.prototype, 'close')
+
+    await request('gc')
+
+    expect(close).toHaveBeenCalledTimes(1)
+    expect((await request('readFile', '/a.txt', { encoding: 'utf-8' })).result).toBe('a')
+  })
+})
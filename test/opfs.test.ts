@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import OPFS from '../dist/index.js'
 import type { Dirent } from '../dist/index.js'
 
@@ -44,7 +44,7 @@ describe('OPFS Core Functionality', () => {
     })
 
     it('should write files in subdirectories', async () => {
-      await fs.mkdir('/dir1/dir2')
+      await fs.mkdir('/dir1/dir2', { recursive: true })
       await fs.writeFile('/dir1/dir2/file.txt', 'nested')
       const content = await fs.readFile('/dir1/dir2/file.txt', { encoding: 'utf-8' })
       expect(content).toBe('nested')
@@ -75,20 +75,63 @@ describe('OPFS Core Functionality', () => {
     })
 
     it('should create nested directories', async () => {
-      await fs.mkdir('/dir1/dir2/dir3')
+      await fs.mkdir('/dir1/dir2/dir3', { recursive: true })
       const entries1 = await fs.readdir('/dir1')
       expect(entries1).toContain('dir2')
       const entries2 = await fs.readdir('/dir1/dir2')
       expect(entries2).toContain('dir3')
     })
 
-    it('should be idempotent (creating existing directory should work)', async () => {
+    it('should throw EEXIST when the directory exists', async () => {
       await fs.mkdir('/testdir')
+      await expect(fs.mkdir('/testdir')).rejects.toMatchObject({ code: 'EEXIST', syscall: 'mkdir' })
+    })
+
+    it('should be idempotent with recursive', async () => {
       await fs.mkdir('/testdir')
+      expect(await fs.mkdir('/testdir', { recursive: true })).toBeUndefined()
       const entries = await fs.readdir('/')
       expect(entries).toContain('testdir')
     })
 
+    it('should throw ENOENT for a missing parent without recursive', async () => {
+      await expect(fs.mkdir('/missing/child')).rejects.toMatchObject({ code: 'ENOENT', errno: -2, path: '/missing/child' })
+      expect(await fs.exists('/missing')).toBe(false)
+    })
+
+    it('should return the first directory created with recursive', async () => {
+      await fs.mkdir('/a')
+      expect(await fs.mkdir('/a/b/c', { recursive: true })).toBe('/a/b')
+      expect(await fs.mkdir('/a/b/c/d')).toBeUndefined()
+      expect((await fs.stat('/a/b/c/d')).isDirectory()).toBe(true)
+    })
+
+    it('should fail when a file is in the way', async () => {
+      await fs.writeFile('/file.txt', 'content')
+
+      await expect(fs.mkdir('/file.txt')).rejects.toMatchObject({ code: 'EEXIST' })
+      await expect(fs.mkdir('/file.txt', { recursive: true })).rejects.toMatchObject({ code: 'EEXIST' })
+      await expect(fs.mkdir('/file.txt/child', { recursive: true })).rejects.toMatchObject({ code: 'ENOTDIR' })
+    })
+
+    it('should apply mode to the created directories', async () => {
+      await fs.mkdir('/a/b', { recursive: true, mode: 0o700 })
+      await fs.mkdir('/c', 0o750)
+
+      expect((await fs.stat('/a')).mode & 0o777).toBe(0o700)
+      expect((await fs.stat('/a/b')).mode & 0o777).toBe(0o700)
+      expect((await fs.stat('/c')).mode & 0o777).toBe(0o750)
+    })
+
+    it('should create directories through a symlinked parent', async () => {
+      await fs.mkdir('/real')
+      await fs.symlink('/real', '/link')
+
+      await fs.mkdir('/link/child')
+      expect(await fs.readdir('/real')).toEqual(['child'])
+      await expect(fs.mkdir('/link')).rejects.toMatchObject({ code: 'EEXIST' })
+    })
+
     it('should remove empty directory', async () => {
       await fs.mkdir('/testdir')
       await fs.rmdir('/testdir')
@@ -103,18 +146,59 @@ describe('OPFS Core Functionality', () => {
       await fs.mkdir('/dir/subdir')
       await fs.writeFile('/dir/subdir/file3.txt', 'content3')
 
-      await fs.rmdir('/dir')
+      await fs.rmdir('/dir', { recursive: true })
 
       const entries = await fs.readdir('/')
       expect(entries).not.toContain('dir')
     })
 
+    it('should throw ENOTEMPTY for a non-empty directory without recursive', async () => {
+      await fs.writeFile('/dir/file.txt', 'content')
+
+      await expect(fs.rmdir('/dir')).rejects.toMatchObject({ code: 'ENOTEMPTY', errno: -39, syscall: 'rmdir' })
+      expect(await fs.readFile('/dir/file.txt', { encoding: 'utf-8' })).toBe('content')
+    })
+
+    it('should throw ENOTEMPTY for directories that only contain symlinks or packed files', async () => {
+      await fs.mkdir('/links')
+      await fs.symlink('/target', '/links/link')
+      await fs.writeFileBatch([{ path: '/packed/file.txt', data: 'packed' }])
+
+      await expect(fs.rmdir('/links')).rejects.toMatchObject({ code: 'ENOTEMPTY' })
+      await expect(fs.rmdir('/packed')).rejects.toMatchObject({ code: 'ENOTEMPTY' })
+    })
+
+    it('should throw ENOTDIR for files and symlinks', async () => {
+      await fs.writeFile('/file.txt', 'content')
+      await fs.mkdir('/dir')
+      await fs.symlink('/dir', '/link')
+
+      await expect(fs.rmdir('/file.txt')).rejects.toMatchObject({ code: 'ENOTDIR', syscall: 'rmdir' })
+      await expect(fs.rmdir('/link')).rejects.toMatchObject({ code: 'ENOTDIR' })
+      expect(await fs.exists('/file.txt')).toBe(true)
+      expect(await fs.exists('/dir')).toBe(true)
+    })
+
+    it('should remove symlinks and packed files below a removed directory', async () => {
+      await fs.writeFile('/dir/file.txt', 'content')
+      await fs.symlink('/dir/file.txt', '/dir/sub/link')
+      await fs.writeFileBatch([{ path: '/dir/packed.txt', data: 'packed' }])
+
+      await fs.rmdir('/dir', { recursive: true })
+
+      expect(await fs.exists('/dir')).toBe(false)
+      await fs.mkdir('/dir/sub', { recursive: true })
+      expect(await fs.readdir('/dir')).toEqual(['sub'])
+      expect(await fs.readdir('/dir/sub')).toEqual([])
+    })
+
     it('should remove all files when removing root', async () => {
       await fs.writeFile('/file1.txt', 'content1')
       await fs.writeFile('/file2.txt', 'content2')
       await fs.mkdir('/dir')
 
-      await fs.rmdir('/')
+      await expect(fs.rmdir('/')).rejects.toMatchObject({ code: 'ENOTEMPTY' })
+      await fs.rmdir('/', { recursive: true })
 
       const entries = await fs.readdir('/')
       expect(entries.length).toBe(0)
@@ -169,7 +253,7 @@ describe('OPFS Core Functionality', () => {
     })
 
     it('should handle nested paths', async () => {
-      await fs.mkdir('/dir1/dir2')
+      await fs.mkdir('/dir1/dir2', { recursive: true })
       await fs.writeFile('/dir1/dir2/file.txt', 'content')
 
       const stat = await fs.stat('/dir1/dir2/file.txt')
@@ -318,7 +402,7 @@ describe('OPFS Core Functionality', () => {
     })
 
     it('should rename nested directories recursively', async () => {
-      await fs.mkdir('/olddir/subdir')
+      await fs.mkdir('/olddir/subdir', { recursive: true })
       await fs.writeFile('/olddir/file1.txt', 'content1')
       await fs.writeFile('/olddir/subdir/file2.txt', 'content2')
 
@@ -344,6 +428,162 @@ describe('OPFS Core Functionality', () => {
         fs.rename('/nonexistent.txt', '/new.txt')
       ).rejects.toMatchObject({ code: 'ENOENT' })
     })
+
+    it('should move files natively and keep lastModified', async () => {
+      await fs.writeFile('/old.txt', 'content')
+      const before = await fs.stat('/old.txt')
+      const move = vi.spyOn(FileSystemFileHandle.prototype, 'move')
+      const readFile = vi.spyOn(fs, 'readFile')
+
+      await new Promise(resolve => setTimeout(resolve, 5))
+      await fs.rename('/old.txt', '/dir/new.txt')
+
+      expect(move).toHaveBeenCalledTimes(1)
+      expect(readFile).not.toHaveBeenCalled()
+      expect((await fs.stat('/dir/new.txt')).mtimeMs).toBe(before.mtimeMs)
+      move.mockRestore()
+    })
+
+    it('should replace an existing file', async () => {
+      await fs.writeFile('/file.txt', 'old')
+      await fs.chmod('/file.txt', 0o600)
+      await fs.writeFile('/file.txt.tmp', 'new')
+
+      await fs.rename('/file.txt.tmp', '/file.txt')
+
+      expect(await fs.readFile('/file.txt', { encoding: 'utf-8' })).toBe('new')
+      expect((await fs.stat('/file.txt')).mode).toBe(0o100644)
+      expect(await fs.exists('/file.txt.tmp')).toBe(false)
+    })
+
+    it('should replace a packed file', async () => {
+      await fs.writeFileBatch([{ path: '/file.txt', data: 'packed' }])
+      await fs.writeFile('/file.txt.tmp', 'new')
+
+      await fs.rename('/file.txt.tmp', '/file.txt')
+      await fs.unlink('/file.txt')
+
+      expect(await fs.exists('/file.txt')).toBe(false)
+    })
+
+    it('should replace a symlink instead of writing through it', async () => {
+      await fs.writeFile('/target.txt', 'target')
+      await fs.symlink('/target.txt', '/link.txt')
+      await fs.writeFile('/file.txt', 'file')
+
+      await fs.rename('/file.txt', '/link.txt')
+
+      expect((await fs.lstat('/link.txt')).isSymbolicLink()).toBe(false)
+      expect(await fs.readFile('/link.txt', { encoding: 'utf-8' })).toBe('file')
+      expect(await fs.readFile('/target.txt', { encoding: 'utf-8' })).toBe('target')
+    })
+
+    it('should move directories with their packed files and symlinks', async () => {
+      await fs.writeFile('/olddir/file.txt', 'file')
+      await fs.writeFileBatch([{ path: '/olddir/sub/packed.txt', data: 'packed' }])
+      await fs.symlink('/olddir/file.txt', '/olddir/link.txt')
+      const move = vi.spyOn(FileSystemDirectoryHandle.prototype, 'move')
+
+      await fs.rename('/olddir', '/newdir')
+
+      expect(move).toHaveBeenCalledTimes(1)
+      expect(await fs.exists('/olddir')).toBe(false)
+      expect(await fs.readFile('/newdir/file.txt', { encoding: 'utf-8' })).toBe('file')
+      expect(await fs.readFile('/newdir/sub/packed.txt', { encoding: 'utf-8' })).toBe('packed')
+      expect(await fs.readlink('/newdir/link.txt')).toBe('/olddir/file.txt')
+      move.mockRestore()
+    })
+
+    it('should throw ENOTEMPTY when the destination directory is not empty', async () => {
+      await fs.writeFile('/olddir/a.txt', 'a')
+      await fs.writeFile('/newdir/b.txt', 'b')
+
+      await expect(fs.rename('/olddir', '/newdir')).rejects.toMatchObject({ code: 'ENOTEMPTY' })
+      expect(await fs.readdir('/newdir')).toEqual(['b.txt'])
+      expect(await fs.readdir('/olddir')).toEqual(['a.txt'])
+    })
+
+    it('should replace an empty destination directory', async () => {
+      await fs.writeFile('/olddir/a.txt', 'a')
+      await fs.mkdir('/newdir')
+
+      await fs.rename('/olddir', '/newdir')
+
+      expect(await fs.readdir('/newdir')).toEqual(['a.txt'])
+      expect(await fs.exists('/olddir')).toBe(false)
+    })
+
+    it('should leave an entry renamed onto itself untouched', async () => {
+      await fs.writeFile('/dir/file.txt', 'content')
+      await fs.chmod('/dir/file.txt', 0o600)
+      await fs.utimes('/dir/file.txt', 1000, 2000)
+      await fs.symlink('/dir/file.txt', '/link.txt')
+      await fs.writeFileBatch([{ path: '/packed.txt', data: 'packed' }])
+
+      await fs.rename('/dir/file.txt', '/dir/../dir/file.txt')
+      await fs.rename('/dir', '/dir/')
+      await fs.rename('/link.txt', '/link.txt')
+      await fs.rename('/packed.txt', './packed.txt')
+
+      const stats = await fs.stat('/dir/file.txt')
+      expect(await fs.readFile('/dir/file.txt', { encoding: 'utf-8' })).toBe('content')
+      expect(stats.mode).toBe(0o100600)
+      expect(stats.mtimeMs).toBe(2000000)
+      expect(await fs.readlink('/link.txt')).toBe('/dir/file.txt')
+      expect(await fs.readFile('/packed.txt', { encoding: 'utf-8' })).toBe('packed')
+      await expect(fs.rename('/missing.txt', '/missing.txt')).rejects.toMatchObject({ code: 'ENOENT', syscall: 'rename', path: '/missing.txt' })
+    })
+
+    it('should throw EINVAL when moving a directory into itself', async () => {
+      await fs.mkdir('/dir')
+
+      await expect(fs.rename('/dir', '/dir/sub')).rejects.toMatchObject({ code: 'EINVAL' })
+      expect(await fs.exists('/dir')).toBe(true)
+    })
+
+    describe('without move()', () => {
+      const fileMove = FileSystemFileHandle.prototype.move
+      const dirMove = FileSystemDirectoryHandle.prototype.move
+
+      beforeEach(() => {
+        // @ts-expect-error - simulate a browser without FileSystemHandle.move()
+        delete FileSystemFileHandle.prototype.move
+        // @ts-expect-error - simulate a browser without FileSystemHandle.move()
+        delete FileSystemDirectoryHandle.prototype.move
+      })
+
+      afterEach(() => {
+        FileSystemFileHandle.prototype.move = fileMove
+        FileSystemDirectoryHandle.prototype.move = dirMove
+      })
+
+      it('should copy files', async () => {
+        await fs.writeFile('/old.txt', 'content')
+        await fs.writeFile('/new.txt', 'replaced')
+        await fs.rename('/old.txt', '/new.txt')
+
+        expect(await fs.exists('/old.txt')).toBe(false)
+        expect(await fs.readFile('/new.txt', { encoding: 'utf-8' })).toBe('content')
+      })
+
+      it('should replace a symlink', async () => {
+        await fs.writeFile('/target.txt', 'target')
+        await fs.symlink('/target.txt', '/link.txt')
+        await fs.writeFile('/file.txt', 'file')
+        await fs.rename('/file.txt', '/link.txt')
+
+        expect(await fs.readFile('/link.txt', { encoding: 'utf-8' })).toBe('file')
+        expect(await fs.readFile('/target.txt', { encoding: 'utf-8' })).toBe('target')
+      })
+
+      it('should copy directories', async () => {
+        await fs.writeFile('/olddir/sub/file.txt', 'content')
+        await fs.rename('/olddir', '/newdir')
+
+        expect(await fs.exists('/olddir')).toBe(false)
+        expect(await fs.readFile('/newdir/sub/file.txt', { encoding: 'utf-8' })).toBe('content')
+      })
+    })
   })
 
   describe('backFile()', () => {
@@ -416,7 +656,7 @@ describe('OPFS Core Functionality', () => {
     })
 
     it('should normalize complex paths', async () => {
-      await fs.mkdir('/dir1/dir2')
+      await fs.mkdir('/dir1/dir2', { recursive: true })
       await fs.writeFile('/dir1/dir2/file.txt', 'content')
       const content = await fs.readFile('/dir1/./dir2/../dir2/file.txt', { encoding: 'utf-8' })
       expect(content).toBe('content')
@@ -0,0 +1,435 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import OPFS from '../dist/index.js'
+import type { Dirent } from '../dist/index.js'
+
+async function getPackContent(): Promise<Uint8Array> {
+  const root = await navigator.storage.getDirectory()
+  const handle = await root.getFileHandle('.opfs-pack')
+  const file = await handle.getFile()
+  return new Uint8Array(await file.arrayBuffer())
+}
+
+async function setPackContent(content: Uint8Array): Promise<void> {
+  const root = await navigator.storage.getDirectory()
+  const handle = await root.getFileHandle('.opfs-pack', { create: true })
+  handle._content = content
+}
+
+/**
+ * Build a legacy v1 pack: [index length: 4][CRC32: 4 (0 = unchecked)][JSON index][file data...]
+ */
+function buildV1Pack(files: Record<string, string>): Uint8Array {
+  const encoder = new TextEncoder()
+  const data = Object.entries(files).map(([path, text]) => ({ path, bytes: encoder.encode(text) }))
+
+  let headerSize = 8
+  let prevHeaderSize = 0
+  let indexBuf = new Uint8Array()
+  while (headerSize !== prevHeaderSize) {
+    prevHeaderSize = headerSize
+    const index: Record<string, { offset: number; size: number }> = {}
+    let offset = headerSize
+    for (const { path, bytes } of data) {
+      index[path] = { offset, size: bytes.length }
+      offset += bytes.length
+    }
+    indexBuf = encoder.encode(JSON.stringify(index))
+    headerSize = 8 + indexBuf.length
+  }
+
+  const total = headerSize + data.reduce((sum, { bytes }) => sum + bytes.length, 0)
+  const pack = new Uint8Array(total)
+  new DataView(pack.buffer).setUint32(0, indexBuf.length, true)
+  pack.set(indexBuf, 8)
+  let offset = headerSize
+  for (const { bytes } of data) {
+    pack.set(bytes, offset)
+    offset += bytes.length
+  }
+  return pack
+}
+
+describe('Packed Storage', () => {
+  let fs: OPFS
+
+  beforeEach(() => {
+    resetFileSystem()
+    fs = new OPFS({ useSync: true, verbose: false })
+  })
+
+  describe('append-only generations', () => {
+    it('should keep files from earlier batches', async () => {
+      await fs.writeFileBatch([{ path: '/a.txt', data: 'a' }])
+      await fs.writeFileBatch([{ path: '/b.txt', data: 'b' }])
+      await fs.writeFileBatch([{ path: '/c.txt', data: 'c' }])
+
+      const results = await fs.readFileBatch(['/a.txt', '/b.txt', '/c.txt'])
+      expect(results.map(r => new TextDecoder().decode(r.data!))).toEqual(['a', 'b', 'c'])
+    })
+
+    it('should return the latest version of a rewritten path', async () => {
+      await fs.writeFileBatch([{ path: '/file.txt', data: 'v1' }])
+      await fs.writeFileBatch([{ path: '/file.txt', data: 'version 2' }])
+
+      expect(await fs.readFile('/file.txt', { encoding: 'utf-8' })).toBe('version 2')
+      expect((await fs.stat('/file.txt')).size).toBe(9)
+    })
+
+    it('should use the last duplicate within one batch', async () => {
+      await fs.writeFileBatch([
+        { path: '/dup.txt', data: 'first' },
+        { path: '/dup.txt', data: 'second' }
+      ])
+
+      expect(await fs.readFile('/dup.txt', { encoding: 'utf-8' })).toBe('second')
+    })
+
+    it('should keep other entries after unlink', async () => {
+      await fs.writeFileBatch([
+        { path: '/keep.txt', data: 'keep' },
+        { path: '/drop.txt', data: 'drop' }
+      ])
+      await fs.unlink('/drop.txt')
+
+      expect(await fs.exists('/drop.txt')).toBe(false)
+      expect(await fs.readFile('/keep.txt', { encoding: 'utf-8' })).toBe('keep')
+    })
+
+    it('should be readable by a new instance', async () => {
+      await fs.writeFileBatch([{ path: '/a.txt', data: 'a' }])
+      await fs.writeFileBatch([{ path: '/b.txt', data: 'b' }])
+
+      const fs2 = new OPFS({ useSync: true, verbose: false })
+      expect(await fs2.readFile('/a.txt', { encoding: 'utf-8' })).toBe('a')
+      expect(await fs2.readFile('/b.txt', { encoding: 'utf-8' })).toBe('b')
+    })
+
+    it('should work in async mode', async () => {
+      const asyncFs = new OPFS({ useSync: false, verbose: false })
+      await asyncFs.writeFileBatch([{ path: '/a.txt', data: 'a' }])
+      await asyncFs.writeFileBatch([{ path: '/b.txt', data: 'b' }])
+
+      expect(await asyncFs.readFile('/a.txt', { encoding: 'utf-8' })).toBe('a')
+      expect(await asyncFs.readFile('/b.txt', { encoding: 'utf-8' })).toBe('b')
+    })
+
+    it('should ignore a torn append and keep the last committed generation', async () => {
+      await fs.writeFileBatch([{ path: '/a.txt', data: 'committed' }])
+      const committed = await getPackContent()
+
+      // Simulate a crash after garbage was appended but before the header was updated
+      const torn = new Uint8Array(committed.length + 64).fill(0xff)
+      torn.set(committed)
+      await setPackContent(torn)
+
+      expect(await fs.readFile('/a.txt', { encoding: 'utf-8' })).toBe('committed')
+
+      await fs.writeFileBatch([{ path: '/b.txt', data: 'next' }])
+      expect(await fs.readFile('/a.txt', { encoding: 'utf-8' })).toBe('committed')
+      expect(await fs.readFile('/b.txt', { encoding: 'utf-8' })).toBe('next')
+    })
+
+    it('should detect corrupted entry data', async () => {
+      await fs.writeFileBatch([{ path: '/a.txt', data: 'hello world' }])
+      const pack = await getPackContent()
+      const offset = new TextDecoder().decode(pack).indexOf('hello world')
+      pack[offset] ^= 0xff
+      await setPackContent(pack)
+
+      await expect(fs.readFile('/a.txt')).rejects.toMatchObject({ code: 'ECORRUPTED' })
+    })
+  })
+
+  describe('legacy v1 packs', () => {
+    it('should read a v1 pack', async () => {
+      await setPackContent(buildV1Pack({ '/old.txt': 'old content' }))
+
+      expect(await fs.readFile('/old.txt', { encoding: 'utf-8' })).toBe('old content')
+      expect((await fs.stat('/old.txt')).size).toBe(11)
+    })
+
+    it('should upgrade a v1 pack on first write', async () => {
+      await setPackContent(buildV1Pack({ '/old.txt': 'old content', '/replaced.txt': 'old' }))
+
+      await fs.writeFileBatch([{ path: '/replaced.txt', data: 'new' }])
+
+      const pack = await getPackContent()
+      expect(new TextDecoder().decode(pack.subarray(0, 4))).toBe('OFPK')
+      expect(await fs.readFile('/old.txt', { encoding: 'utf-8' })).toBe('old content')
+      expect(await fs.readFile('/replaced.txt', { encoding: 'utf-8' })).toBe('new')
+    })
+
+    it('should upgrade a v1 pack on unlink', async () => {
+      await setPackContent(buildV1Pack({ '/a.txt': 'a', '/b.txt': 'b' }))
+
+      await fs.unlink('/a.txt')
+
+      expect(await fs.exists('/a.txt')).toBe(false)
+      expect(await fs.readFile('/b.txt', { encoding: 'utf-8' })).toBe('b')
+    })
+  })
+
+  describe('compaction', () => {
+    it('should reclaim space from overwritten entries', async () => {
+      await fs.writeFileBatch([{ path: '/file.txt', data: 'x'.repeat(1000) }])
+      await fs.writeFileBatch([{ path: '/file.txt', data: 'y'.repeat(10) }])
+      const before = (await getPackContent()).length
+
+      const result = await fs.compact()
+
+      expect(result.bytesBefore).toBe(before)
+      expect(result.bytesReclaimed).toBeGreaterThanOrEqual(1000)
+      expect((await getPackContent()).length).toBe(result.bytesAfter)
+      expect(await fs.readFile('/file.txt', { encoding: 'utf-8' })).toBe('y'.repeat(10))
+    })
+
+    it('should reclaim space from removed entries', async () => {
+      await fs.writeFileBatch([
+        { path: '/keep.txt', data: 'keep' },
+        { path: '/drop.txt', data: 'd'.repeat(500) }
+      ])
+      await fs.unlink('/drop.txt')
+
+      const result = await fs.compact()
+
+      expect(result.bytesReclaimed).toBeGreaterThanOrEqual(500)
+      expect(await fs.exists('/drop.txt')).toBe(false)
+      expect(await fs.readFile('/keep.txt', { encoding: 'utf-8' })).toBe('keep')
+    })
+
+    it('should keep entries readable by a new instance', async () => {
+      await fs.writeFileBatch([{ path: '/a.txt', data: 'a' }, { path: '/b.txt', data: 'b' }])
+      await fs.writeFileBatch([{ path: '/a.txt', data: 'a2' }])
+      await fs.compact()
+
+      const fs2 = new OPFS({ useSync: true, verbose: false })
+      expect(await fs2.readFile('/a.txt', { encoding: 'utf-8' })).toBe('a2')
+      expect(await fs2.readFile('/b.txt', { encoding: 'utf-8' })).toBe('b')
+    })
+
+    it('should work in async mode', async () => {
+      const asyncFs = new OPFS({ useSync: false, verbose: false })
+      await asyncFs.writeFileBatch([{ path: '/a.txt', data: 'a'.repeat(100) }])
+      await asyncFs.writeFileBatch([{ path: '/a.txt', data: 'a' }])
+
+      const result = await asyncFs.compact()
+
+      expect(result.bytesReclaimed).toBeGreaterThanOrEqual(100)
+      expect(await asyncFs.readFile('/a.txt', { encoding: 'utf-8' })).toBe('a')
+    })
+
+    it('should report nothing reclaimed without a pack', async () => {
+      expect(await fs.compact()).toEqual({ bytesBefore: 0, bytesAfter: 0, bytesReclaimed: 0 })
+    })
+
+    it('should compact automatically once dead space crosses the threshold', async () => {
+      const large = new Uint8Array(1024 * 1024 + 1).fill(1)
+      await fs.writeFileBatch([{ path: '/big.bin', data: large }])
+      await fs.writeFileBatch([{ path: '/big.bin', data: 'small' }])
+
+      expect((await getPackContent()).length).toBeLessThan(1024)
+      expect(await fs.readFile('/big.bin', { encoding: 'utf-8' })).toBe('small')
+    })
+
+    it('should not compact automatically when disabled', async () => {
+      const manualFs = new OPFS({ useSync: true, verbose: false, compactThreshold: 0 })
+      const large = new Uint8Array(1024 * 1024 + 1).fill(1)
+      await manualFs.writeFileBatch([{ path: '/big.bin', data: large }])
+      await manualFs.writeFileBatch([{ path: '/big.bin', data: 'small' }])
+
+      expect((await getPackContent()).length).toBeGreaterThan(large.length)
+    })
+  })
+
+  describe('promotion on write', () => {
+    async function isPacked(path: string): Promise<boolean> {
+      const pack = await getPackContent()
+      const view = new DataView(pack.buffer)
+      const committed = Number(view.getBigUint64(8, true))
+      const indexOffset = Number(view.getBigUint64(committed - 20, true))
+      const indexLen = view.getUint32(committed - 12, true)
+      const index = JSON.parse(new TextDecoder().decode(pack.subarray(indexOffset, indexOffset + indexLen)))
+      return path in index
+    }
+
+    it('should move a file out of the pack on writeFile', async () => {
+      await fs.writeFileBatch([{ path: '/file.txt', data: 'packed' }])
+      await fs.writeFile('/file.txt', 'standalone')
+
+      expect(await isPacked('/file.txt')).toBe(false)
+      expect(await fs.readFile('/file.txt', { encoding: 'utf-8' })).toBe('standalone')
+
+      // The old packed content must not resurface once the file is gone
+      await fs.unlink('/file.txt')
+      expect(await fs.exists('/file.txt')).toBe(false)
+    })
+
+    it('should not open the pack to write a file that was never packed', async () => {
+      await fs.writeFileBatch([{ path: '/packed.txt', data: 'packed' }])
+      const open = vi.spyOn(FileSystemFileHandle.prototype, 'createSyncAccessHandle')
+      try {
+        await fs.writeFile('/a.txt', 'standalone')
+        await fs.writeFile('/b.txt', 'standalone')
+        expect(open.mock.contexts.filter(handle => handle.name === '.opfs-pack')).toEqual([])
+      } finally {
+        open.mockRestore()
+      }
+    })
+
+    it('should move out a file that another instance packed', async () => {
+      await fs.writeFileBatch([{ path: '/packed.txt', data: 'packed' }])
+      const other = new OPFS({ useSync: true, verbose: false })
+      await other.writeFileBatch([{ path: '/file.txt', data: 'packed' }])
+      await fs.writeFile('/file.txt', 'standalone')
+
+      expect(await isPacked('/file.txt')).toBe(false)
+      await fs.unlink('/file.txt')
+      expect(await fs.exists('/file.txt')).toBe(false)
+    })
+
+    it('should append to a packed file', async () => {
+      await fs.writeFileBatch([{ path: '/log.txt', data: 'one' }])
+      await fs.appendFile('/log.txt', ',two')
+
+      expect(await isPacked('/log.txt')).toBe(false)
+      expect(await fs.readFile('/log.txt', { encoding: 'utf-8' })).toBe('one,two')
+    })
+
+    it('should truncate a packed file', async () => {
+      await fs.writeFileBatch([{ path: '/file.txt', data: 'hello world' }])
+      await fs.truncate('/file.txt', 5)
+
+      expect(await isPacked('/file.txt')).toBe(false)
+      expect(await fs.readFile('/file.txt', { encoding: 'utf-8' })).toBe('hello')
+      expect((await fs.stat('/file.txt')).size).toBe(5)
+    })
+
+    it('should keep packed content when opened for writing', async () => {
+      await fs.writeFileBatch([{ path: '/file.txt', data: 'packed' }])
+      const handle = await fs.open('/file.txt', 'r+')
+      await handle.close()
+
+      expect(await isPacked('/file.txt')).toBe(false)
+      expect(await fs.readFile('/file.txt', { encoding: 'utf-8' })).toBe('packed')
+    })
+
+    it('should open a packed file for reading', async () => {
+      await fs.writeFileBatch([{ path: '/file.txt', data: 'packed' }])
+      const handle = await fs.open('/file.txt', 'r')
+      const { bytesRead } = await handle.read(new Uint8Array(6), 0, 6, 0)
+      await handle.close()
+
+      expect(bytesRead).toBe(6)
+      expect(await isPacked('/file.txt')).toBe(true)
+    })
+
+    it('should move a file out of the pack on rename', async () => {
+      await fs.writeFileBatch([{ path: '/old.txt', data: 'content' }])
+      await fs.rename('/old.txt', '/new.txt')
+
+      expect(await isPacked('/old.txt')).toBe(false)
+      expect(await isPacked('/new.txt')).toBe(false)
+      expect(await fs.exists('/old.txt')).toBe(false)
+      expect(await fs.readFile('/new.txt', { encoding: 'utf-8' })).toBe('content')
+    })
+
+    it('should replace a standalone file on writeFileBatch', async () => {
+      await fs.writeFile('/file.txt', 'standalone')
+      await fs.writeFileBatch([{ path: '/file.txt', data: 'packed' }])
+
+      expect(await fs.readFile('/file.txt', { encoding: 'utf-8' })).toBe('packed')
+      expect((await fs.stat('/file.txt')).size).toBe(6)
+    })
+
+    it('should use the real mtime after a packed file moves out', async () => {
+      await fs.writeFileBatch([{ path: '/file.txt', data: 'packed' }])
+      await fs.utimes('/file.txt', 0, 0)
+      await fs.writeFile('/file.txt', 'standalone')
+
+      expect((await fs.stat('/file.txt')).mtimeMs).toBeGreaterThan(0)
+    })
+  })
+
+  describe('virtual directories', () => {
+    beforeEach(async () => {
+      await fs.writeFileBatch([
+        { path: '/project/index.js', data: 'main' },
+        { path: '/project/src/app.js', data: 'app' },
+        { path: '/project/src/lib/util.js', data: 'util' }
+      ])
+    })
+
+    it('should stat directories that only hold packed files', async () => {
+      expect((await fs.stat('/project')).isDirectory()).toBe(true)
+      expect((await fs.stat('/project/src/lib')).isDirectory()).toBe(true)
+      expect((await fs.stat('/project/src/app.js')).isFile()).toBe(true)
+      await expect(fs.stat('/project/missing')).rejects.toMatchObject({ code: 'ENOENT' })
+    })
+
+    it('should list packed files and virtual directories', async () => {
+      expect((await fs.readdir('/project') as string[]).sort()).toEqual(['index.js', 'src'])
+      expect(await fs.readdir('/project/src/lib')).toEqual(['util.js'])
+    })
+
+    it('should report file types of packed entries', async () => {
+      const entries = await fs.readdir('/project', { withFileTypes: true }) as Dirent[]
+      const types = Object.fromEntries(entries.map(e => [e.name, e.isDirectory() ? 'dir' : 'file']))
+      expect(types).toEqual({ 'index.js': 'file', src: 'dir' })
+    })
+
+    it('should merge packed and regular entries', async () => {
+      await fs.writeFile('/project/README.md', 'readme')
+      await fs.mkdir('/project/src', { recursive: true })
+      await fs.writeFile('/project/src/other.js', 'other')
+
+      expect((await fs.readdir('/project') as string[]).sort()).toEqual(['README.md', 'index.js', 'src'])
+      expect((await fs.readdir('/project/src') as string[]).sort()).toEqual(['app.js', 'lib', 'other.js'])
+    })
+
+    it('should hide the pack file from the root listing', async () => {
+      expect(await fs.readdir('/')).toEqual(['project'])
+    })
+
+    it('should iterate packed entries with opendir', async () => {
+      const dir = await fs.opendir('/project/src')
+      const names: string[] = []
+      for await (const entry of dir) {
+        names.push(entry.name)
+      }
+      expect(names.sort()).toEqual(['app.js', 'lib'])
+    })
+
+    it('should report existence of virtual directories', async () => {
+      expect(await fs.exists('/project/src')).toBe(true)
+      expect(await fs.exists('/project/nope')).toBe(false)
+    })
+
+    it('should remove virtual directories recursively', async () => {
+      await fs.writeFileBatch([{ path: '/other.txt', data: 'keep' }])
+      await fs.rm('/project', { recursive: true })
+
+      expect(await fs.exists('/project')).toBe(false)
+      expect(await fs.exists('/project/src/app.js')).toBe(false)
+      expect(await fs.readFile('/other.txt', { encoding: 'utf-8' })).toBe('keep')
+    })
+
+    it('should require recursive to remove a virtual directory', async () => {
+      await expect(fs.rm('/project')).rejects.toMatchObject({ code: 'EISDIR' })
+    })
+
+    it('should copy virtual directories recursively', async () => {
+      await fs.cp('/project', '/copy', { recursive: true })
+
+      expect(await fs.readFile('/copy/src/lib/util.js', { encoding: 'utf-8' })).toBe('util')
+      expect(await fs.readFile('/project/src/lib/util.js', { encoding: 'utf-8' })).toBe('util')
+    })
+
+    it('should rename virtual directories', async () => {
+      await fs.rename('/project', '/renamed')
+
+      expect(await fs.exists('/project')).toBe(false)
+      expect(await fs.readFile('/renamed/index.js', { encoding: 'utf-8' })).toBe('main')
+      expect(await fs.readFile('/renamed/src/lib/util.js', { encoding: 'utf-8' })).toBe('util')
+    })
+  })
+})
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import OPFS from '../dist/index.js'
+
+async function originEntries(path = '/'): Promise<string[]> {
+  let dir = await navigator.storage.getDirectory()
+  for (const part of path.split('/').filter(Boolean)) {
+    dir = await dir.getDirectoryHandle(part)
+  }
+  const names: string[] = []
+  for await (const [name] of dir.entries()) names.push(name)
+  return names.sort()
+}
+
+describe('root option', () => {
+  let a: OPFS
+  let b: OPFS
+
+  beforeEach(() => {
+    resetFileSystem()
+    a = new OPFS({ useSync: true, verbose: false, root: '/workspaces/a' })
+    b = new OPFS({ useSync: true, verbose: false, root: '/workspaces/b' })
+  })
+
+  it('should store files under the root directory', async () => {
+    await a.writeFile('/src/index.ts', 'export {}')
+
+    expect(await a.readFile('/src/index.ts', { encoding: 'utf-8' })).toBe('export {}')
+    expect(await originEntries('/workspaces/a/src')).toEqual(['index.ts'])
+    expect(await a.readdir('/')).toEqual(['src'])
+  })
+
+  it('should keep workspaces isolated from each other', async () => {
+    await a.writeFile('/file.txt', 'a')
+    await b.writeFile('/file.txt', 'b')
+    await a.symlink('/file.txt', '/link.txt')
+    await a.writeFileBatch([{ path: '/packed.txt', data: 'packed' }])
+
+    expect(await a.readFile('/file.txt', { encoding: 'utf-8' })).toBe('a')
+    expect(await b.readFile('/file.txt', { encoding: 'utf-8' })).toBe('b')
+    expect(await b.exists('/link.txt')).toBe(false)
+    expect(await b.exists('/packed.txt')).toBe(false)
+    expect(await originEntries('/workspaces/a')).toEqual(['.opfs-pack', '.opfs-symlinks.json', 'file.txt'])
+    expect(await originEntries('/workspaces/b')).toEqual(['file.txt'])
+  })
+
+  it('should not let .. or symlinks escape the root', async () => {
+    const origin = new OPFS({ useSync: true, verbose: false })
+    await origin.writeFile('/secret.txt', 'secret')
+
+    await a.writeFile('/../../escaped.txt', 'data')
+    await a.symlink('../../secret.txt', '/link.txt')
+
+    expect(await origin.exists('/escaped.txt')).toBe(false)
+    expect(await a.readFile('/escaped.txt', { encoding: 'utf-8' })).toBe('data')
+    expect(await a.readlink('/link.txt')).toBe('/secret.txt')
+    await expect(a.readFile('/link.txt')).rejects.toMatchObject({ code: 'ENOENT' })
+  })
+
+  it('should only clear its own root with rmdir("/")', async () => {
+    await a.writeFile('/a.txt', 'a')
+    await b.writeFile('/b.txt', 'b')
+
+    await a.rmdir('/', { recursive: true })
+
+    expect(await a.readdir('/')).toEqual([])
+    expect(await b.readFile('/b.txt', { encoding: 'utf-8' })).toBe('b')
+    expect(await originEntries('/workspaces')).toEqual(['a', 'b'])
+  })
+
+  it('should share files with instances of the same root', async () => {
+    await a.writeFile('/file.txt', 'shared')
+    await a.symlink('/file.txt', '/link.txt')
+
+    const other = new OPFS({ useSync: true, verbose: false, root: 'workspaces/a/' })
+    expect(await other.readlink('/link.txt')).toBe('/file.txt')
+    expect(await other.readFile('/link.txt', { encoding: 'utf-8' })).toBe('shared')
+  })
+
+  it('should not deliver watch events to other roots', async () => {
+    const eventsA: string[] = []
+    const eventsB: string[] = []
+    const watcherA = a.watch('/', {}, (_, filename) => eventsA.push(filename))
+    const watcherB = b.watch('/', {}, (_, filename) => eventsB.push(filename))
+    // Events of the origin root aren't for either workspace
+    const origin = new OPFS({ useSync: true, verbose: false })
+
+    await a.writeFile('/file.txt', 'a')
+    await origin.writeFile('/other.txt', 'origin')
+    await new Promise(resolve => setTimeout(resolve, 20))
+
+    expect(eventsA).toEqual(['file.txt'])
+    expect(eventsB).toEqual([])
+    watcherA.close()
+    watcherB.close()
+    origin.terminate()
+  })
+})
@@ -5,11 +5,22 @@ interface MockFile {
   lastModified: number
   arrayBuffer: () => Promise<ArrayBuffer>
   text: () => Promise<string>
+  slice: (start?: number, end?: number) => { arrayBuffer: () => Promise<ArrayBuffer> }
+}
+
+interface MockWriteParams {
+  type: 'write' | 'seek' | 'truncate'
+  data?: ArrayBufferLike | Uint8Array | string
+  position?: number
+  size?: number
 }
 
 interface MockWritable {
-  write: (data: ArrayBufferLike | Uint8Array) => Promise<void>
+  write: (data: ArrayBufferLike | Uint8Array | string | MockWriteParams) => Promise<void>
+  seek: (position: number) => Promise<void>
+  truncate: (size: number) => Promise<void>
   close: () => Promise<void>
+  abort: () => Promise<void>
 }
 
 interface MockSyncAccessHandle {
@@ -17,16 +28,47 @@ interface MockSyncAccessHandle {
   read: (buffer: Uint8Array) => number
   write: (data: Uint8Array, options?: { at?: number }) => number
   truncate: (size: number) => void
+  flush: () => void
   close: () => void
 }
 
 type MockHandle = MockFileSystemFileHandle | MockFileSystemDirectoryHandle
 
+/**
+ * Native move(): detach the entry from its parent and attach it under destination
+ * Replaces an existing file, like Chromium. Directories are never replaced.
+ */
+function moveEntry(handle: MockHandle, destination: MockFileSystemDirectoryHandle, name: string): void {
+  const parent = findParent(rootHandle, handle)
+  if (!parent) throw new DOMException('A requested file or directory could not be found', 'NotFoundError')
+
+  const existing = destination._entries.get(name)
+  if (existing && (existing.kind === 'directory' || handle.kind === 'directory')) {
+    throw new DOMException('The object can not be modified in this way', 'InvalidModificationError')
+  }
+
+  parent._entries.delete(handle.name)
+  handle.name = name
+  destination._entries.set(name, handle)
+}
+
+function findParent(dir: MockFileSystemDirectoryHandle, handle: MockHandle): MockFileSystemDirectoryHandle | null {
+  for (const entry of dir._entries.values()) {
+    if (entry === handle) return dir
+    if (entry.kind === 'directory') {
+      const found = findParent(entry as MockFileSystemDirectoryHandle, handle)
+      if (found) return found
+    }
+  }
+  return null
+}
+
 class MockFileSystemFileHandle {
   readonly kind = 'file' as const
-  readonly name: string
+  name: string
   _content: Uint8Array
   _lastModified: number
+  _locked = false // Sync access handles are exclusive, like in browsers
 
   constructor(name: string, content: Uint8Array = new Uint8Array()) {
     this.name = name
@@ -35,26 +77,73 @@ class MockFileSystemFileHandle {
   }
 
   async getFile(): Promise<MockFile> {
+    // Snapshot like a real File - later writes don't affect it
+    const content = this._content
     return {
-      size: this._content.length,
+      size: content.length,
       lastModified: this._lastModified,
-      arrayBuffer: async () => this._content.buffer,
-      text: async () => new TextDecoder().decode(this._content)
+      arrayBuffer: async () => content.buffer as ArrayBuffer,
+      text: async () => new TextDecoder().decode(content),
+      slice: (start = 0, end = content.length) => ({
+        arrayBuffer: async () => content.slice(start, end).buffer
+      })
     }
   }
 
-  async createWritable(): Promise<MockWritable> {
+  async createWritable(options: { keepExistingData?: boolean } = {}): Promise<MockWritable> {
+    // Changes go to a swap copy and are committed on close(), like the real API
+    let swap = options.keepExistingData ? this._content.slice() : new Uint8Array()
+    let position = 0
+
+    const resize = (size: number) => {
+      const resized = new Uint8Array(size)
+      resized.set(swap.subarray(0, Math.min(size, swap.length)))
+      swap = resized
+    }
+
+    const writeAt = (data: ArrayBufferLike | Uint8Array | string, at: number) => {
+      const bytes = typeof data === 'string'
+        ? new TextEncoder().encode(data)
+        : data instanceof Uint8Array ? data : new Uint8Array(data)
+      if (at + bytes.length > swap.length) resize(at + bytes.length)
+      swap.set(bytes, at)
+      position = at + bytes.length
+    }
+
     return {
-      write: async (data: ArrayBufferLike | Uint8Array) => {
-        this._content = new Uint8Array(data as ArrayBuffer)
+      write: async (data) => {
+        if (typeof data === 'object' && 'type' in data) {
+          if (data.type === 'seek') position = data.position!
+          else if (data.type === 'truncate') resize(data.size!)
+          else writeAt(data.data!, data.position ?? position)
+          return
+        }
+        writeAt(data, position)
+      },
+      seek: async (at: number) => {
+        position = at
+      },
+      truncate: async (size: number) => {
+        resize(size)
+      },
+      close: async () => {
+        this._content = swap
         this._lastModified = Date.now()
       },
-      close: async () => {}
+      abort: async () => {
+        // Discard the swap copy, the file keeps its content
+      }
     }
   }
 
+  async move(destination: MockFileSystemDirectoryHandle, name: string): Promise<void> {
+    moveEntry(this, destination, name)
+  }
+
   async createSyncAccessHandle(): Promise<MockSyncAccessHandle> {
     const handle = this
+    if (handle._locked) throw new DOMException('Access handle is already open', 'NoModificationAllowedError')
+    handle._locked = true
     return {
       getSize: () => handle._content.length,
       read: (buffer: Uint8Array, options: { at?: number } = {}) => {
@@ -83,14 +172,17 @@ class MockFileSystemFileHandle {
         }
         handle._content = newContent
       },
-      close: () => {}
+      flush: () => {},
+      close: () => {
+        handle._locked = false
+      }
     }
   }
 }
 
 class MockFileSystemDirectoryHandle {
   readonly kind = 'directory' as const
-  readonly name: string
+  name: string
   _entries: Map<string, MockHandle> = new Map()
 
   constructor(name: string) {
@@ -101,41 +193,45 @@ class MockFileSystemDirectoryHandle {
     if (this._entries.has(name)) {
       const entry = this._entries.get(name)!
       if (entry.kind === 'file') return entry as MockFileSystemFileHandle
-      throw new DOMException('TypeMismatchError')
+      throw new DOMException('The path supplied exists, but was not an entry of requested type', 'TypeMismatchError')
     }
     if (options.create) {
       const handle = new MockFileSystemFileHandle(name)
       this._entries.set(name, handle)
       return handle
     }
-    throw new DOMException('NotFoundError')
+    throw new DOMException('A requested file or directory could not be found', 'NotFoundError')
   }
 
   async getDirectoryHandle(name: string, options: { create?: boolean } = {}): Promise<MockFileSystemDirectoryHandle> {
     if (this._entries.has(name)) {
       const entry = this._entries.get(name)!
       if (entry.kind === 'directory') return entry as MockFileSystemDirectoryHandle
-      throw new DOMException('TypeMismatchError')
+      throw new DOMException('The path supplied exists, but was not an entry of requested type', 'TypeMismatchError')
     }
     if (options.create) {
       const handle = new MockFileSystemDirectoryHandle(name)
       this._entries.set(name, handle)
       return handle
     }
-    throw new DOMException('NotFoundError')
+    throw new DOMException('A requested file or directory could not be found', 'NotFoundError')
   }
 
   async removeEntry(name: string, options: { recursive?: boolean } = {}): Promise<void> {
     if (!this._entries.has(name)) {
-      throw new DOMException('NotFoundError')
+      throw new DOMException('A requested file or directory could not be found', 'NotFoundError')
     }
     const entry = this._entries.get(name)!
     if (entry.kind === 'directory' && (entry as MockFileSystemDirectoryHandle)._entries.size > 0 && !options.recursive) {
-      throw new DOMException('InvalidModificationError')
+      throw new DOMException('The object can not be modified in this way', 'InvalidModificationError')
     }
     this._entries.delete(name)
   }
 
+  async move(destination: MockFileSystemDirectoryHandle, name: string): Promise<void> {
+    moveEntry(this, destination, name)
+  }
+
   async *entries(): AsyncGenerator<[string, MockHandle]> {
     for (const [name, handle] of this._entries) {
       yield [name, handle]
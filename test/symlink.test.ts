@@ -35,10 +35,15 @@ describe('Symlink Support', () => {
       ).rejects.toMatchObject({ code: 'EEXIST' })
     })
 
-    it('should throw EINVAL when reading non-existent symlink', async () => {
+    it('should throw ENOENT when reading non-existent symlink', async () => {
       await expect(
         fs.readlink('/nonexistent.txt')
-      ).rejects.toMatchObject({ code: 'EINVAL' })
+      ).rejects.toMatchObject({ code: 'ENOENT' })
+    })
+
+    it('should throw EINVAL when reading a path that is not a symlink', async () => {
+      await fs.writeFile('/file.txt', 'content')
+      await expect(fs.readlink('/file.txt')).rejects.toMatchObject({ code: 'EINVAL' })
     })
 
     it('should allow symlink to non-existent target', async () => {
@@ -164,7 +169,7 @@ describe('Symlink Support', () => {
 
       await fs.unlink('/link.txt')
 
-      await expect(fs.readlink('/link.txt')).rejects.toMatchObject({ code: 'EINVAL' })
+      await expect(fs.readlink('/link.txt')).rejects.toMatchObject({ code: 'ENOENT' })
 
       const targetContent = await fs.readFile('/target.txt', { encoding: 'utf-8' })
       expect(targetContent).toBe('content')
@@ -190,7 +195,7 @@ describe('Symlink Support', () => {
 
       await fs.rename('/old-link.txt', '/new-link.txt')
 
-      await expect(fs.readlink('/old-link.txt')).rejects.toMatchObject({ code: 'EINVAL' })
+      await expect(fs.readlink('/old-link.txt')).rejects.toMatchObject({ code: 'ENOENT' })
 
       const target = await fs.readlink('/new-link.txt')
       expect(target).toBe('/target.txt')
@@ -0,0 +1,280 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import OPFS from '../dist/index.js'
+import type { Dirent } from '../dist/index.js'
+
+describe('Sync API', () => {
+  let fs: OPFS
+
+  beforeEach(async () => {
+    resetFileSystem()
+    fs = new OPFS({ useSync: true, verbose: false })
+  })
+
+  afterEach(() => {
+    fs.terminate()
+  })
+
+  describe('prepareSync()', () => {
+    it('should fail before prepareSync', () => {
+      expect(() => fs.readFileSync('/file.txt')).toThrow(expect.objectContaining({ code: 'ENOTSUP' }))
+    })
+
+    it('should fail without sync access handles', async () => {
+      const asyncFs = new OPFS({ useSync: false, verbose: false })
+      await expect(asyncFs.prepareSync()).rejects.toMatchObject({ code: 'ENOTSUP' })
+    })
+
+    it('should snapshot files, directories, symlinks and packed files', async () => {
+      await fs.writeFile('/dir/file.txt', 'standalone')
+      await fs.writeFileBatch([{ path: '/dir/packed.txt', data: 'packed' }])
+      await fs.symlink('/dir/file.txt', '/link.txt')
+      await fs.prepareSync()
+
+      expect(fs.readFileSync('/dir/file.txt', { encoding: 'utf-8' })).toBe('standalone')
+      expect(fs.readFileSync('/dir/packed.txt', { encoding: 'utf-8' })).toBe('packed')
+      expect(fs.readFileSync('/link.txt', { encoding: 'utf-8' })).toBe('standalone')
+      expect((fs.readdirSync('/dir') as string[]).sort()).toEqual(['file.txt', 'packed.txt'])
+      expect((fs.readdirSync('/', { withFileTypes: true }) as Dirent[])
+        .map(dirent => [dirent.name, dirent.isSymbolicLink()])
+        .sort()).toEqual([['dir', false], ['link.txt', true]])
+    })
+
+    it('should only snapshot the given subtree', async () => {
+      await fs.writeFile('/inside/file.txt', 'in')
+      await fs.writeFile('/outside/file.txt', 'out')
+      await fs.prepareSync('/inside')
+
+      expect(fs.existsSync('/inside/file.txt')).toBe(true)
+      expect(fs.existsSync('/outside/file.txt')).toBe(false)
+    })
+  })
+
+  describe('prepareSync(paths)', () => {
+    it('should only hold handles for the given paths', async () => {
+      await fs.writeFile('/src/main.c', 'int main;')
+      await fs.writeFile('/src/lib/util.c', 'void util;')
+      await fs.writeFile('/data.bin', 'data')
+      await fs.writeFile('/other/file.txt', 'other')
+      await fs.prepareSync(['/src', '/data.bin'])
+
+      expect(fs.readFileSync('/src/lib/util.c', { encoding: 'utf-8' })).toBe('void util;')
+      expect(fs.readFileSync('/data.bin', { encoding: 'utf-8' })).toBe('data')
+      expect(fs.readdirSync('/').sort()).toEqual(['data.bin', 'src'])
+      expect(fs.existsSync('/other/file.txt')).toBe(false)
+
+      // Files that weren't named stay available to other contexts
+      const other = new OPFS({ useSync: true, verbose: false })
+      const handle = await other.open('/other/file.txt', 'r+')
+      await handle.close()
+      await expect(other.open('/data.bin', 'r+')).rejects.toMatchObject({ code: 'EBUSY' })
+    })
+
+    it('should prepare a directory inside an earlier path only once', async () => {
+      await fs.writeFile('/dir/sub/file.txt', 'content')
+      await fs.prepareSync(['/dir/sub/file.txt', '/dir'])
+
+      expect(fs.readFileSync('/dir/sub/file.txt', { encoding: 'utf-8' })).toBe('content')
+      expect(fs.readdirSync('/dir')).toEqual(['sub'])
+    })
+
+    it('should skip paths that don\'t exist', async () => {
+      await fs.prepareSync(['/missing.txt', '/missing/dir'])
+
+      expect(fs.existsSync('/missing.txt')).toBe(false)
+      fs.writeFileSync('/missing/dir/file.txt', 'created')
+      await fs.releaseSync()
+      expect(await fs.readFile('/missing/dir/file.txt', { encoding: 'utf-8' })).toBe('created')
+    })
+  })
+
+  describe('files', () => {
+    beforeEach(async () => {
+      await fs.writeFile('/file.txt', 'hello')
+      await fs.prepareSync()
+    })
+
+    it('should write existing files synchronously', async () => {
+      fs.writeFileSync('/file.txt', 'hello world')
+
+      expect(fs.readFileSync('/file.txt', { encoding: 'utf-8' })).toBe('hello world')
+      expect(fs.statSync('/file.txt').size).toBe(11)
+      expect(await fs.readFile('/file.txt', { encoding: 'utf-8' })).toBe('hello world')
+    })
+
+    it('should share held handles with the async methods', async () => {
+      await fs.writeFile('/file.txt', 'from async')
+
+      expect(fs.readFileSync('/file.txt', { encoding: 'utf-8' })).toBe('from async')
+      await expect(fs.truncate('/file.txt', 4)).resolves.toBeUndefined()
+      expect(fs.readFileSync('/file.txt', { encoding: 'utf-8' })).toBe('from')
+    })
+
+    it('should create files and persist them in the background', async () => {
+      fs.writeFileSync('/new/dir/file.txt', 'created')
+
+      expect(fs.existsSync('/new/dir')).toBe(true)
+      expect(fs.readFileSync('/new/dir/file.txt', { encoding: 'utf-8' })).toBe('created')
+
+      fs.writeFileSync('/new/dir/file.txt', 'changed before persisted')
+      await fs.releaseSync()
+      expect(await fs.readFile('/new/dir/file.txt', { encoding: 'utf-8' })).toBe('changed before persisted')
+    })
+
+    it('should make writes to packed files standalone', async () => {
+      await fs.releaseSync()
+      await fs.writeFileBatch([{ path: '/packed.txt', data: 'packed' }])
+      await fs.prepareSync()
+
+      fs.writeFileSync('/packed.txt', 'unpacked')
+      await fs.releaseSync()
+
+      expect(await fs.readFile('/packed.txt', { encoding: 'utf-8' })).toBe('unpacked')
+    })
+
+    it('should stat files and directories', () => {
+      fs.mkdirSync('/dir')
+
+      const fileStats = fs.statSync('/file.txt')
+      expect(fileStats.isFile()).toBe(true)
+      expect(fileStats.size).toBe(5)
+      expect(fs.statSync('/dir').isDirectory()).toBe(true)
+      expect(() => fs.statSync('/missing')).toThrow(expect.objectContaining({ code: 'ENOENT' }))
+    })
+
+    it('should unlink files', async () => {
+      fs.unlinkSync('/file.txt')
+
+      expect(fs.existsSync('/file.txt')).toBe(false)
+      expect(() => fs.readFileSync('/file.txt')).toThrow(expect.objectContaining({ code: 'ENOENT' }))
+      await fs.releaseSync()
+      expect(await fs.exists('/file.txt')).toBe(false)
+    })
+
+    it('should unlink files that were never persisted', async () => {
+      fs.writeFileSync('/temp.txt', 'temp')
+      fs.unlinkSync('/temp.txt')
+      await fs.releaseSync()
+
+      expect(await fs.exists('/temp.txt')).toBe(false)
+    })
+
+    it('should unlink files through a symlinked directory', async () => {
+      await fs.releaseSync()
+      await fs.writeFile('/real/file.txt', 'data')
+      await fs.symlink('/real', '/linked')
+      await fs.prepareSync()
+
+      fs.unlinkSync('/linked/file.txt')
+
+      expect(fs.existsSync('/real/file.txt')).toBe(false)
+      await fs.releaseSync()
+      expect(await fs.exists('/real/file.txt')).toBe(false)
+    })
+
+    it('should report failed background writes', async () => {
+      vi.spyOn(fs, 'writeFile').mockRejectedValueOnce(Object.assign(new Error('quota'), { code: 'ENOSPC' }))
+
+      fs.writeFileSync('/new.txt', 'data')
+      await new Promise(resolve => setTimeout(resolve, 0))
+
+      expect(() => fs.readFileSync('/file.txt')).toThrow(expect.objectContaining({ code: 'ENOSPC' }))
+      expect(fs.readFileSync('/file.txt', { encoding: 'utf-8' })).toBe('hello')
+      await expect(fs.releaseSync()).rejects.toMatchObject({ code: 'ENOSPC' })
+    })
+
+    it('should create directories', async () => {
+      expect(() => fs.mkdirSync('/a/b')).toThrow(expect.objectContaining({ code: 'ENOENT' }))
+      expect(fs.mkdirSync('/a/b', { recursive: true })).toBe('/a')
+
+      expect(fs.readdirSync('/a')).toEqual(['b'])
+      expect(() => fs.mkdirSync('/file.txt')).toThrow(expect.objectContaining({ code: 'EEXIST' }))
+      await fs.releaseSync()
+      expect((await fs.stat('/a/b')).isDirectory()).toBe(true)
+    })
+
+    it('should reject directories where files are expected', () => {
+      fs.mkdirSync('/dir')
+
+      expect(() => fs.readFileSync('/dir')).toThrow(expect.objectContaining({ code: 'EISDIR' }))
+      expect(() => fs.writeFileSync('/dir', 'data')).toThrow(expect.objectContaining({ code: 'EISDIR' }))
+      expect(() => fs.unlinkSync('/dir')).toThrow(expect.objectContaining({ code: 'EISDIR' }))
+      expect(() => fs.readdirSync('/file.txt')).toThrow(expect.objectContaining({ code: 'ENOTDIR' }))
+    })
+  })
+
+  describe('file descriptors', () => {
+    beforeEach(async () => {
+      await fs.writeFile('/file.txt', 'hello world')
+      await fs.prepareSync()
+    })
+
+    it('should read and write at positions', () => {
+      const fd = fs.openSync('/file.txt', 'r+')
+      const buffer = new Uint8Array(5)
+
+      expect(fs.readSync(fd, buffer, 0, 5, 6)).toBe(5)
+      expect(new TextDecoder().decode(buffer)).toBe('world')
+      expect(fs.writeSync(fd, 'HELLO', 0, undefined, 0)).toBe(5)
+      fs.closeSync(fd)
+
+      expect(fs.readFileSync('/file.txt', { encoding: 'utf-8' })).toBe('HELLO world')
+    })
+
+    it('should track the file position', () => {
+      const fd = fs.openSync('/file.txt', 'r')
+      const buffer = new Uint8Array(6)
+
+      fs.readSync(fd, buffer)
+      expect(new TextDecoder().decode(buffer)).toBe('hello ')
+      expect(fs.readSync(fd, buffer)).toBe(5)
+      expect(fs.readSync(fd, buffer)).toBe(0)
+      fs.closeSync(fd)
+    })
+
+    it('should append and truncate according to flags', () => {
+      const appender = fs.openSync('/file.txt', 'a')
+      fs.writeSync(appender, '!')
+      fs.closeSync(appender)
+      expect(fs.readFileSync('/file.txt', { encoding: 'utf-8' })).toBe('hello world!')
+
+      const writer = fs.openSync('/file.txt', 'w')
+      fs.writeSync(writer, 'new')
+      fs.closeSync(writer)
+      expect(fs.readFileSync('/file.txt', { encoding: 'utf-8' })).toBe('new')
+    })
+
+    it('should create files with create flags', async () => {
+      expect(() => fs.openSync('/missing.txt', 'r')).toThrow(expect.objectContaining({ code: 'ENOENT' }))
+      expect(() => fs.openSync('/file.txt', 'wx')).toThrow(expect.objectContaining({ code: 'EEXIST' }))
+
+      const fd = fs.openSync('/created.txt', 'wx')
+      fs.writeSync(fd, 'created')
+      fs.closeSync(fd)
+      await fs.releaseSync()
+
+      expect(await fs.readFile('/created.txt', { encoding: 'utf-8' })).toBe('created')
+    })
+
+    it('should fail with EBADF on closed and wrong-mode descriptors', () => {
+      const fd = fs.openSync('/file.txt', 'r')
+
+      expect(() => fs.writeSync(fd, 'data')).toThrow(expect.objectContaining({ code: 'EBADF' }))
+      fs.closeSync(fd)
+      expect(() => fs.readSync(fd, new Uint8Array(1))).toThrow(expect.objectContaining({ code: 'EBADF' }))
+      expect(() => fs.closeSync(fd)).toThrow(expect.objectContaining({ code: 'EBADF' }))
+    })
+  })
+
+  describe('releaseSync()', () => {
+    it('should close held handles', async () => {
+      await fs.writeFile('/file.txt', 'content')
+      await fs.prepareSync()
+      await fs.releaseSync()
+
+      const other = new OPFS({ useSync: true, verbose: false })
+      const handle = await other.open('/file.txt', 'r+')
+      await handle.close()
+      expect(() => fs.existsSync('/file.txt')).toThrow(expect.objectContaining({ code: 'ENOTSUP' }))
+    })
+  })
+})
@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { Worker, MessageChannel as NodeMessageChannel } from 'node:worker_threads'
+import { resolve } from 'node:path'
+import { pathToFileURL } from 'node:url'
+import OPFS, { createSyncChannel, serveSyncChannel } from '../dist/index.js'
+import type { SyncChannel } from '../dist/index.js'
+
+// Runs the function bodies it receives against an OPFSSyncClient, like a WASI runtime would
+const CLIENT_WORKER = `
+  const { parentPort, workerData } = require('node:worker_threads')
+  import(workerData.clientUrl).then(({ OPFSSyncClient }) => {
+    const client = new OPFSSyncClient(workerData.channel, workerData.options)
+    parentPort.on('message', body => {
+      try {
+        parentPort.postMessage({ result: new Function('client', body)(client) })
+      } catch (err) {
+        parentPort.postMessage({ error: { code: err.code, message: err.message } })
+      }
+    })
+    parentPort.postMessage('ready')
+  })
+`
+
+function startClient(channel: SyncChannel, options = {}): Promise<{ run: (body: string) => Promise<any>; stop: () => Promise<number> }> {
+  const clientUrl = pathToFileURL(resolve(__dirname, '../dist/sync-client.js')).href
+  const worker = new Worker(CLIENT_WORKER, {
+    eval: true,
+    workerData: { channel, options, clientUrl },
+    transferList: [channel.port as unknown as import('node:worker_threads').MessagePort]
+  })
+
+  const run = (body: string) => new Promise<any>((resolveRun, reject) => {
+    worker.once('message', ({ result, error }) => {
+      if (error) reject(Object.assign(new Error(error.message), { code: error.code }))
+      else resolveRun(result)
+    })
+    worker.postMessage(body)
+  })
+
+  return new Promise((resolveStart, reject) => {
+    worker.once('error', reject)
+    worker.once('message', () => resolveStart({ run, stop: () => worker.terminate() }))
+  })
+}
+
+describe('Sync bridge', () => {
+  it('should fail when the page is not cross-origin isolated', () => {
+    vi.stubGlobal('crossOriginIsolated', false)
+    try {
+      expect(() => createSyncChannel()).toThrow(expect.objectContaining({ code: 'ENOTSUP' }))
+    } finally {
+      vi.unstubAllGlobals()
+    }
+  })
+
+  describe('OPFSSyncClient', () => {
+    let fs: OPFS
+    let stopServing: (() => void) | undefined
+    let client: Awaited<ReturnType<typeof startClient>> | undefined
+
+    const connect = async (bufferSize?: number, options = {}) => {
+      const { client: clientEnd, server } = createSyncChannel({ bufferSize })
+      stopServing = serveSyncChannel(server, fs)
+      client = await startClient(clientEnd, options)
+    }
+
+    beforeEach(() => {
+      resetFileSystem()
+      vi.stubGlobal('crossOriginIsolated', true)
+      vi.stubGlobal('MessageChannel', NodeMessageChannel)
+      fs = new OPFS({ useSync: true, verbose: false })
+    })
+
+    afterEach(async () => {
+      await client?.stop()
+      stopServing?.()
+      client = undefined
+      stopServing = undefined
+      fs.terminate()
+      vi.unstubAllGlobals()
+    })
+
+    it('should read and write files synchronously', async () => {
+      await fs.writeFile('/hello.txt', 'hello')
+      await connect()
+
+      expect(await client!.run(`return client.readFileSync('/hello.txt', { encoding: 'utf-8' })`)).toBe('hello')
+      await client!.run(`client.writeFileSync('/dir/new.txt', 'from the client')`)
+      expect(await fs.readFile('/dir/new.txt', { encoding: 'utf-8' })).toBe('from the client')
+    })
+
+    it('should stat and list directories', async () => {
+      await fs.writeFile('/dir/a.txt', 'a')
+      await fs.mkdir('/dir/sub')
+      await fs.symlink('/dir/a.txt', '/dir/link')
+      await connect()
+
+      expect(await client!.run(`
+        const stats = client.statSync('/dir/a.txt')
+        return [stats.isFile(), stats.size, stats.mtime instanceof Date]
+      `)).toEqual([true, 1, true])
+      expect(await client!.run(`return client.lstatSync('/dir/link').isSymbolicLink()`)).toBe(true)
+      expect(await client!.run(`return client.existsSync('/dir/missing')`)).toBe(false)
+      expect((await client!.run(`return client.readdirSync('/dir')`)).sort()).toEqual(['a.txt', 'link', 'sub'])
+      expect(await client!.run(`
+        return client.readdirSync('/dir', { withFileTypes: true })
+          .map(dirent => [dirent.name, dirent.isFile(), dirent.isDirectory(), dirent.isSymbolicLink()])
+          .sort()
+      `)).toEqual([
+        ['a.txt', true, false, false],
+        ['link', false, false, true],
+        ['sub', false, true, false]
+      ])
+    })
+
+    it('should create and remove entries', async () => {
+      await connect()
+
+      await client!.run(`client.mkdirSync('/dir'); client.writeFileSync('/dir/file.txt', 'x')`)
+      expect(await fs.exists('/dir/file.txt')).toBe(true)
+      await client!.run(`client.unlinkSync('/dir/file.txt')`)
+      expect(await fs.exists('/dir/file.txt')).toBe(false)
+    })
+
+    it('should throw FSErrors from the server', async () => {
+      await connect()
+
+      await expect(client!.run(`client.readFileSync('/missing.txt')`)).rejects.toMatchObject({ code: 'ENOENT' })
+      await expect(client!.run(`
+        try {
+          client.statSync('/missing.txt')
+        } catch (err) {
+          return [err.name, err.code, err.path]
+        }
+      `)).resolves.toEqual(['FSError', 'ENOENT', '/missing.txt'])
+    })
+
+    it('should read and write through file descriptors', async () => {
+      await fs.writeFile('/file.txt', 'hello world')
+      await connect()
+
+      expect(await client!.run(`
+        const fd = client.openSync('/file.txt', 'r+')
+        const buffer = new Uint8Array(5)
+        client.readSync(fd, buffer, 0, 5, 6)
+        client.writeSync(fd, 'HELLO', 0, undefined, 0)
+        client.closeSync(fd)
+        return new TextDecoder().decode(buffer)
+      `)).toBe('world')
+      expect(await fs.readFile('/file.txt', { encoding: 'utf-8' })).toBe('HELLO world')
+      await expect(client!.run(`client.closeSync(42)`)).rejects.toMatchObject({ code: 'EBADF' })
+    })
+
+    it('should send messages larger than the shared buffer in chunks', async () => {
+      const data = new Uint8Array(10_000).map((_, i) => i % 251)
+      await fs.writeFile('/large.bin', data)
+      await connect(256)
+
+      expect(await client!.run(`return client.readFileSync('/large.bin')`)).toEqual(data)
+      await client!.run(`client.writeFileSync('/copy.bin', client.readFileSync('/large.bin'))`)
+      expect(await fs.readFile('/copy.bin')).toEqual(data)
+    })
+
+    it('should time out when nobody serves the channel', async () => {
+      const { client: clientEnd } = createSyncChannel()
+      client = await startClient(clientEnd, { timeout: 50 })
+
+      await expect(client!.run(`client.existsSync('/')`)).rejects.toMatchObject({ code: 'ETIMEDOUT' })
+      await expect(client!.run(`client.existsSync('/')`)).rejects.toMatchObject({ code: 'EPIPE' })
+    })
+  })
+})
@@ -0,0 +1,267 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import OPFS from '../dist/index.js'
+
+describe('transaction()', () => {
+  let fs: OPFS
+
+  beforeEach(() => {
+    resetFileSystem()
+    fs = new OPFS({ useSync: true, verbose: false })
+  })
+
+  it('should apply all staged operations when the callback returns', async () => {
+    await fs.writeFile('/old.txt', 'old')
+    await fs.writeFile('/moved.txt', 'moved')
+
+    const result = await fs.transaction(async tx => {
+      await tx.writeFile('/new.txt', 'new')
+      await tx.unlink('/old.txt')
+      await tx.rename('/moved.txt', '/renamed.txt')
+      await tx.symlink('/new.txt', '/link.txt')
+      return 42
+    })
+
+    expect(result).toBe(42)
+    expect(await fs.readFile('/new.txt', { encoding: 'utf-8' })).toBe('new')
+    expect(await fs.exists('/old.txt')).toBe(false)
+    expect(await fs.exists('/moved.txt')).toBe(false)
+    expect(await fs.readFile('/renamed.txt', { encoding: 'utf-8' })).toBe('moved')
+    expect(await fs.readlink('/link.txt')).toBe('/new.txt')
+    expect((await fs.readdir('/')).sort()).toEqual(['link.txt', 'new.txt', 'renamed.txt'])
+  })
+
+  it('should not change anything when the callback throws', async () => {
+    await fs.writeFile('/file.txt', 'original')
+
+    await expect(fs.transaction(async tx => {
+      await tx.writeFile('/file.txt', 'changed')
+      await tx.writeFile('/other.txt', 'other')
+      throw new Error('abort')
+    })).rejects.toThrow('abort')
+
+    expect(await fs.readFile('/file.txt', { encoding: 'utf-8' })).toBe('original')
+    expect(await fs.exists('/other.txt')).toBe(false)
+    expect(await fs.readdir('/')).toEqual(['file.txt'])
+  })
+
+  it('should let the callback read its own staged changes', async () => {
+    await fs.writeFile('/a.txt', 'a')
+
+    await fs.transaction(async tx => {
+      await tx.writeFile('/b.txt', 'b')
+      await tx.rename('/a.txt', '/c.txt')
+      await tx.symlink('b.txt', '/link.txt')
+
+      expect(await tx.readFile('/b.txt', { encoding: 'utf-8' })).toBe('b')
+      expect(await tx.readFile('/c.txt', { encoding: 'utf-8' })).toBe('a')
+      expect(await tx.readFile('/link.txt', { encoding: 'utf-8' })).toBe('b')
+      expect(await tx.exists('/a.txt')).toBe(false)
+      await expect(tx.readFile('/a.txt')).rejects.toMatchObject({ code: 'ENOENT' })
+      // Nothing is visible outside the transaction yet
+      expect(await fs.exists('/b.txt')).toBe(false)
+    })
+
+    expect(await fs.readFile('/link.txt', { encoding: 'utf-8' })).toBe('b')
+  })
+
+  it('should fail staged operations like the file system would', async () => {
+    await fs.mkdir('/dir')
+    await fs.writeFile('/file.txt', 'data')
+
+    await fs.transaction(async tx => {
+      await expect(tx.unlink('/missing.txt')).rejects.toMatchObject({ code: 'ENOENT' })
+      await expect(tx.rename('/dir', '/moved')).rejects.toMatchObject({ code: 'ENOTSUP' })
+      await expect(tx.symlink('/x', '/file.txt')).rejects.toMatchObject({ code: 'EEXIST' })
+      await expect(tx.writeFile('/dir', 'data')).rejects.toMatchObject({ code: 'EISDIR' })
+    })
+  })
+
+  it('should throw EBADF when the transaction is used after it ended', async () => {
+    let saved: Parameters<Parameters<OPFS['transaction']>[0]>[0] | undefined
+    await fs.transaction(async tx => { saved = tx })
+
+    await expect(saved!.writeFile('/late.txt', 'data')).rejects.toMatchObject({ code: 'EBADF' })
+    expect(await fs.exists('/late.txt')).toBe(false)
+  })
+
+  it('should finish a committed transaction on the next ready()', async () => {
+    // Leave a committed journal behind, as if the page was closed while applying it
+    await fs.writeFile('/a.txt', 'a')
+    await fs.writeFile('/.opfs-tx/interrupted/0', 'recovered')
+    await fs.writeFile('/.opfs-tx/interrupted/journal.json', JSON.stringify({
+      version: 1,
+      ops: [
+        { op: 'write', path: '/b.txt', slot: 0 },
+        { op: 'rename', from: '/a.txt', to: '/c.txt' }
+      ]
+    }))
+    await fs.writeFile('/.opfs-tx/uncommitted/0', 'discarded')
+
+    const reopened = new OPFS({ useSync: true, verbose: false })
+    await reopened.ready()
+
+    expect(await reopened.readFile('/b.txt', { encoding: 'utf-8' })).toBe('recovered')
+    expect(await reopened.readFile('/c.txt', { encoding: 'utf-8' })).toBe('a')
+    expect(await reopened.exists('/.opfs-tx')).toBe(false)
+    expect((await reopened.readdir('/')).sort()).toEqual(['b.txt', 'c.txt'])
+  })
+
+  it('should replay operations that were already applied without failing', async () => {
+    await fs.writeFile('/c.txt', 'a')
+    await fs.symlink('/c.txt', '/link.txt')
+    await fs.writeFile('/.opfs-tx/replayed/journal.json', JSON.stringify({
+      version: 1,
+      ops: [
+        { op: 'rename', from: '/a.txt', to: '/c.txt' },
+        { op: 'unlink', path: '/gone.txt' },
+        { op: 'symlink', target: '/c.txt', path: '/link.txt' }
+      ]
+    }))
+
+    const reopened = new OPFS({ useSync: true, verbose: false })
+    await reopened.ready()
+
+    expect(await reopened.readFile('/link.txt', { encoding: 'utf-8' })).toBe('a')
+    expect(await reopened.exists('/.opfs-tx')).toBe(false)
+  })
+
+  /** Progress record of a journal: the number of operations already applied */
+  const progress = (count: number) => new Uint8Array(new Uint32Array([count]).buffer)
+
+  it('should not replay chained renames that were already applied', async () => {
+    await fs.writeFile('/c.txt', 'content')
+    await fs.writeFile('/.opfs-tx/chained/journal.json', JSON.stringify({
+      version: 1,
+      ops: [
+        { op: 'rename', from: '/a.txt', to: '/b.txt' },
+        { op: 'rename', from: '/b.txt', to: '/c.txt' }
+      ]
+    }))
+    await fs.writeFile('/.opfs-tx/chained/progress', progress(2))
+
+    const reopened = new OPFS({ useSync: true, verbose: false })
+    await reopened.ready()
+
+    expect(await reopened.readFile('/c.txt', { encoding: 'utf-8' })).toBe('content')
+    expect(await reopened.readdir('/')).toEqual(['c.txt'])
+    await reopened.transaction(async tx => { await tx.writeFile('/d.txt', 'd') })
+    expect(await reopened.exists('/d.txt')).toBe(true)
+  })
+
+  it('should continue chained renames after the last applied one', async () => {
+    await fs.writeFile('/b.txt', 'content')
+    await fs.writeFile('/.opfs-tx/chained/journal.json', JSON.stringify({
+      version: 1,
+      ops: [
+        { op: 'rename', from: '/a.txt', to: '/b.txt' },
+        { op: 'rename', from: '/b.txt', to: '/c.txt' }
+      ]
+    }))
+    await fs.writeFile('/.opfs-tx/chained/progress', progress(1))
+
+    const reopened = new OPFS({ useSync: true, verbose: false })
+    await reopened.ready()
+
+    expect(await reopened.readFile('/c.txt', { encoding: 'utf-8' })).toBe('content')
+    expect(await reopened.readdir('/')).toEqual(['c.txt'])
+  })
+
+  it('should not move a rewritten source over the rename target when replaying', async () => {
+    // rename a→b, then write a new /a.txt - both applied before the crash
+    await fs.writeFile('/b.txt', 'old')
+    await fs.writeFile('/a.txt', 'new')
+    await fs.writeFile('/.opfs-tx/rewrite/0', 'new')
+    await fs.writeFile('/.opfs-tx/rewrite/journal.json', JSON.stringify({
+      version: 1,
+      ops: [
+        { op: 'rename', from: '/a.txt', to: '/b.txt' },
+        { op: 'write', path: '/a.txt', slot: 0 }
+      ]
+    }))
+    await fs.writeFile('/.opfs-tx/rewrite/progress', progress(2))
+
+    const reopened = new OPFS({ useSync: true, verbose: false })
+    await reopened.ready()
+
+    expect(await reopened.readFile('/a.txt', { encoding: 'utf-8' })).toBe('new')
+    expect(await reopened.readFile('/b.txt', { encoding: 'utf-8' })).toBe('old')
+  })
+
+  it('should apply a write to the source of an applied rename on recovery', async () => {
+    await fs.writeFile('/b.txt', 'old')
+    await fs.writeFile('/.opfs-tx/rewrite/0', 'new')
+    await fs.writeFile('/.opfs-tx/rewrite/journal.json', JSON.stringify({
+      version: 1,
+      ops: [
+        { op: 'rename', from: '/a.txt', to: '/b.txt' },
+        { op: 'write', path: '/a.txt', slot: 0 }
+      ]
+    }))
+    await fs.writeFile('/.opfs-tx/rewrite/progress', progress(1))
+
+    const reopened = new OPFS({ useSync: true, verbose: false })
+    await reopened.ready()
+
+    expect(await reopened.readFile('/a.txt', { encoding: 'utf-8' })).toBe('new')
+    expect(await reopened.readFile('/b.txt', { encoding: 'utf-8' })).toBe('old')
+    expect(await reopened.exists('/.opfs-tx')).toBe(false)
+  })
+
+  it('should record progress so a failed commit resumes where it stopped', async () => {
+    await fs.writeFile('/a.txt', 'a')
+
+    const failing = new OPFS({ useSync: true, verbose: false })
+    const original = failing.symlink.bind(failing)
+    let fail = true
+    failing.symlink = async (target, path) => {
+      if (fail) throw new Error('interrupted')
+      return original(target, path)
+    }
+
+    await expect(failing.transaction(async tx => {
+      await tx.rename('/a.txt', '/b.txt')
+      await tx.rename('/b.txt', '/c.txt')
+      await tx.symlink('/c.txt', '/link.txt')
+    })).rejects.toThrow('interrupted')
+    expect(await failing.readFile('/c.txt', { encoding: 'utf-8' })).toBe('a')
+
+    fail = false
+    await failing.ready()
+    expect(await failing.readlink('/link.txt')).toBe('/c.txt')
+    expect((await failing.readdir('/')).sort()).toEqual(['c.txt', 'link.txt'])
+  })
+
+  it('should not discard a transaction that another instance is still staging', async () => {
+    const other = new OPFS({ useSync: true, verbose: false })
+
+    await fs.transaction(async tx => {
+      await tx.writeFile('/a.txt', 'a')
+      await other.ready()
+      await tx.writeFile('/b.txt', 'b')
+      expect(await tx.readFile('/a.txt', { encoding: 'utf-8' })).toBe('a')
+    })
+
+    expect(await fs.readFile('/a.txt', { encoding: 'utf-8' })).toBe('a')
+    expect(await fs.readFile('/b.txt', { encoding: 'utf-8' })).toBe('b')
+    expect(await fs.exists('/.opfs-tx')).toBe(false)
+  })
+
+  it('should drop a committed transaction that keeps failing to apply', async () => {
+    await fs.mkdir('/dir')
+    await fs.writeFile('/.opfs-tx/blocked/0', 'data')
+    await fs.writeFile('/.opfs-tx/blocked/journal.json', JSON.stringify({
+      version: 1,
+      ops: [{ op: 'write', path: '/dir', slot: 0 }]
+    }))
+
+    const reopened = new OPFS({ useSync: true, verbose: false })
+    for (let attempt = 0; attempt < 3; attempt++) {
+      await expect(reopened.ready()).rejects.toMatchObject({ code: 'EISDIR' })
+    }
+    await reopened.ready()
+    expect(await reopened.exists('/.opfs-tx')).toBe(false)
+
+    await reopened.transaction(async tx => { await tx.writeFile('/file.txt', 'data') })
+    expect(await reopened.readFile('/file.txt', { encoding: 'utf-8' })).toBe('data')
+  })
+})
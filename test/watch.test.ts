@@ -0,0 +1,599 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import OPFS from '../dist/index.js'
+import type { FSWatcher, TreeWatcher, TreeWatchOptions, Stats, DirectoryChanges } from '../dist/index.js'
+
+type Event = [eventType: string, filename: string]
+
+// Local events are delivered in a microtask, broadcast ones in a later task
+const settle = () => new Promise(resolve => setTimeout(resolve, 20))
+
+describe('watch()', () => {
+  let fs: OPFS
+  let watchers: FSWatcher[]
+  let instances: OPFS[]
+
+  const watch = (path: string, options = {}, on: OPFS = fs): Event[] => {
+    const events: Event[] = []
+    watchers.push(on.watch(path, options, (eventType, filename) => events.push([eventType, filename])))
+    return events
+  }
+
+  beforeEach(() => {
+    resetFileSystem()
+    fs = new OPFS({ useSync: true, verbose: false })
+    watchers = []
+    instances = [fs]
+  })
+
+  afterEach(() => {
+    watchers.forEach(watcher => watcher.close())
+    instances.forEach(instance => instance.terminate())
+  })
+
+  describe('events', () => {
+    it('should emit rename for new files and change for existing ones', async () => {
+      await fs.mkdir('/dir')
+      const events = watch('/dir')
+
+      await fs.writeFile('/dir/file.txt', 'v1')
+      await fs.writeFile('/dir/file.txt', 'v2')
+      await fs.appendFile('/dir/file.txt', 'v3')
+      await settle()
+
+      expect(events).toEqual([['rename', 'file.txt'], ['change', 'file.txt'], ['change', 'file.txt']])
+    })
+
+    it('should emit rename for entries that appear or disappear', async () => {
+      await fs.writeFile('/file.txt', 'content')
+      const events = watch('/')
+
+      await fs.mkdir('/dir')
+      await fs.symlink('/file.txt', '/link.txt')
+      await fs.unlink('/link.txt')
+      await fs.rename('/file.txt', '/moved.txt')
+      await fs.rmdir('/dir')
+      await settle()
+
+      expect(events).toEqual([
+        ['rename', 'dir'],
+        ['rename', 'link.txt'],
+        ['rename', 'link.txt'],
+        ['rename', 'file.txt'],
+        ['rename', 'moved.txt'],
+        ['rename', 'dir']
+      ])
+    })
+
+    it('should emit change for truncate and metadata updates', async () => {
+      await fs.writeFile('/file.txt', 'content')
+      const events = watch('/')
+
+      await fs.truncate('/file.txt', 2)
+      await fs.chmod('/file.txt', 0o600)
+      await fs.utimes('/file.txt', new Date(0), new Date(0))
+      await settle()
+
+      expect(events).toEqual([['change', 'file.txt'], ['change', 'file.txt'], ['change', 'file.txt']])
+    })
+
+    it('should emit one event per file of a batch', async () => {
+      await fs.writeFileBatch([{ path: '/a.txt', data: 'a' }])
+      const events = watch('/')
+
+      await fs.writeFileBatch([
+        { path: '/a.txt', data: 'a2' },
+        { path: '/b.txt', data: 'b' }
+      ])
+      await settle()
+
+      expect(events).toEqual([['change', 'a.txt'], ['rename', 'b.txt']])
+    })
+
+    it('should emit when a FileHandle that wrote is closed', async () => {
+      const events = watch('/')
+
+      const handle = await fs.open('/file.txt', 'w')
+      await handle.write(new TextEncoder().encode('data'))
+      await settle()
+      expect(events).toEqual([['rename', 'file.txt']])
+
+      await handle.close()
+      const reader = await fs.open('/file.txt', 'r')
+      await reader.close()
+      await settle()
+
+      expect(events).toEqual([['rename', 'file.txt'], ['change', 'file.txt']])
+    })
+
+    it('should emit for write streams', async () => {
+      const events = watch('/')
+
+      const writer = fs.createWriteStream('/file.txt').getWriter()
+      await writer.write(new TextEncoder().encode('data'))
+      await writer.close()
+      await settle()
+
+      expect(events).toEqual([['rename', 'file.txt'], ['change', 'file.txt']])
+    })
+
+    it('should emit removed top-level entries when clearing the root', async () => {
+      await fs.writeFile('/file.txt', 'content')
+      await fs.writeFileBatch([{ path: '/packed/file.txt', data: 'packed' }])
+      const events = watch('/')
+
+      await fs.rmdir('/', { recursive: true })
+      await settle()
+
+      expect(events.sort()).toEqual([['rename', 'file.txt'], ['rename', 'packed']])
+    })
+  })
+
+  describe('matching', () => {
+    it('should only report direct children unless recursive', async () => {
+      const shallow = watch('/dir')
+      const deep = watch('/dir', { recursive: true })
+
+      await fs.writeFile('/dir/a.txt', 'a')
+      await fs.writeFile('/dir/sub/b.txt', 'b')
+      await fs.writeFile('/other/c.txt', 'c')
+      await settle()
+
+      expect(shallow).toEqual([['rename', 'a.txt']])
+      expect(deep).toEqual([['rename', 'a.txt'], ['rename', 'sub/b.txt']])
+    })
+
+    it('should report the basename when watching a file', async () => {
+      await fs.writeFile('/dir/file.txt', 'v1')
+      const events = watch('/dir/file.txt')
+
+      await fs.writeFile('/dir/file.txt', 'v2')
+      await fs.writeFile('/dir/other.txt', 'other')
+      await settle()
+
+      expect(events).toEqual([['change', 'file.txt']])
+    })
+
+    it('should not match paths that only share a prefix', async () => {
+      const events = watch('/dir')
+
+      await fs.writeFile('/dir2/file.txt', 'content')
+      await settle()
+
+      expect(events).toEqual([])
+    })
+  })
+
+  describe('watcher', () => {
+    it('should yield events from the async iterator', async () => {
+      const watcher = fs.watch('/')
+      watchers.push(watcher)
+      const iterator = watcher[Symbol.asyncIterator]()
+
+      await fs.writeFile('/file.txt', 'content')
+
+      expect((await iterator.next()).value).toEqual({ eventType: 'rename', filename: 'file.txt' })
+    })
+
+    it('should end iteration on close', async () => {
+      const watcher = fs.watch('/')
+      const iterator = watcher[Symbol.asyncIterator]()
+
+      const next = iterator.next()
+      watcher.close()
+
+      expect(await next).toEqual({ value: undefined, done: true })
+      expect(await iterator.next()).toEqual({ value: undefined, done: true })
+    })
+
+    it('should stop on abort', async () => {
+      const controller = new AbortController()
+      const events = watch('/', { signal: controller.signal })
+
+      controller.abort()
+      await fs.writeFile('/file.txt', 'content')
+      await settle()
+
+      expect(events).toEqual([])
+    })
+
+    it('should not fail the operation when a listener throws', async () => {
+      watchers.push(fs.watch('/', {}, () => {
+        throw new Error('listener failed')
+      }))
+      const errors: unknown[] = []
+      const onError = (err: unknown) => errors.push(err)
+      process.on('uncaughtException', onError)
+
+      try {
+        await expect(fs.writeFile('/file.txt', 'content')).resolves.toBeUndefined()
+        await settle()
+      } finally {
+        process.off('uncaughtException', onError)
+      }
+
+      expect(errors).toHaveLength(1)
+    })
+  })
+
+    it('should keep delivering events to other listeners when one throws', async () => {
+      watchers.push(fs.watch('/', {}, () => {
+        throw new Error('listener failed')
+      }))
+      const events = watch('/')
+      const errors: unknown[] = []
+      const onError = (err: unknown) => errors.push(err)
+      process.on('uncaughtException', onError)
+
+      try {
+        await fs.writeFile('/a.txt', 'a')
+        await fs.writeFile('/b.txt', 'b')
+        await settle()
+      } finally {
+        process.off('uncaughtException', onError)
+      }
+
+      expect(events).toEqual([['rename', 'a.txt'], ['rename', 'b.txt']])
+      expect(errors).toHaveLength(2)
+    })
+
+  describe('across instances', () => {
+    it('should deliver events of other instances exactly once', async () => {
+      const other = new OPFS({ useSync: true, verbose: false })
+      instances.push(other)
+      const local = watch('/')
+      const remote = watch('/', {}, other)
+
+      await fs.writeFile('/file.txt', 'content')
+      await settle()
+
+      expect(local).toEqual([['rename', 'file.txt']])
+      expect(remote).toEqual([['rename', 'file.txt']])
+    })
+
+    it('should deliver events of instances without watchers', async () => {
+      const other = new OPFS({ useSync: true, verbose: false })
+      instances.push(other)
+      const remote = watch('/', {}, other)
+
+      await fs.writeFile('/file.txt', 'content')
+      await settle()
+
+      expect(remote).toEqual([['rename', 'file.txt']])
+    })
+
+    it('should stop receiving events of other instances after terminate', async () => {
+      const other = new OPFS({ useSync: true, verbose: false })
+      const events = watch('/', {}, other)
+      other.terminate()
+
+      await fs.writeFile('/file.txt', 'content')
+      await settle()
+
+      expect(events).toEqual([])
+    })
+  })
+})
+
+describe('watchTree()', () => {
+  let fs: OPFS
+  let watchers: TreeWatcher[]
+
+  // Collects [event, path] pairs once the initial scan is done
+  const watchTree = async (root: string, options: TreeWatchOptions = {}): Promise<Event[]> => {
+    const events: Event[] = []
+    const watcher = fs.watchTree(root, options)
+    watchers.push(watcher)
+    const ready = new Promise<void>(resolve => watcher.once('ready', resolve))
+    watcher.on('all', (event, path) => events.push([event, path]))
+    await ready
+    return events
+  }
+
+  beforeEach(() => {
+    resetFileSystem()
+    fs = new OPFS({ useSync: true, verbose: false })
+    watchers = []
+  })
+
+  afterEach(async () => {
+    await Promise.all(watchers.map(watcher => watcher.close()))
+    fs.terminate()
+  })
+
+  it('should report existing entries before ready', async () => {
+    await fs.writeFile('/project/src/index.ts', 'code')
+    await fs.writeFile('/project/readme.md', 'docs')
+
+    const events = await watchTree('/project')
+
+    expect(events.sort()).toEqual([
+      ['add', '/project/readme.md'],
+      ['add', '/project/src/index.ts'],
+      ['addDir', '/project/src']
+    ])
+  })
+
+  it('should skip existing entries with ignoreInitial', async () => {
+    await fs.writeFile('/project/readme.md', 'docs')
+
+    const events = await watchTree('/project', { ignoreInitial: true })
+    await fs.writeFile('/project/new.txt', 'new')
+    await settle()
+
+    expect(events).toEqual([['add', '/project/new.txt']])
+  })
+
+  it('should tell add, change and unlink apart', async () => {
+    await fs.mkdir('/project')
+    const events = await watchTree('/project')
+
+    await fs.writeFile('/project/file.txt', 'v1')
+    await fs.writeFile('/project/file.txt', 'v2')
+    await fs.unlink('/project/file.txt')
+    await settle()
+
+    expect(events).toEqual([
+      ['add', '/project/file.txt'],
+      ['change', '/project/file.txt'],
+      ['unlink', '/project/file.txt']
+    ])
+  })
+
+  it('should report directories and their contents', async () => {
+    await fs.mkdir('/project')
+    const events = await watchTree('/project')
+
+    await fs.writeFile('/project/a/b/file.txt', 'content')
+    await settle()
+    expect(events).toEqual([
+      ['addDir', '/project/a'],
+      ['addDir', '/project/a/b'],
+      ['add', '/project/a/b/file.txt']
+    ])
+
+    events.length = 0
+    await fs.rm('/project/a', { recursive: true })
+    await settle()
+    expect(events).toEqual([
+      ['unlink', '/project/a/b/file.txt'],
+      ['unlinkDir', '/project/a/b'],
+      ['unlinkDir', '/project/a']
+    ])
+  })
+
+  it('should report renames as unlink and add', async () => {
+    await fs.writeFile('/project/old.txt', 'content')
+    const events = await watchTree('/project', { ignoreInitial: true })
+
+    await fs.rename('/project/old.txt', '/project/new.txt')
+    await settle()
+
+    expect(events).toEqual([['unlink', '/project/old.txt'], ['add', '/project/new.txt']])
+  })
+
+  it('should filter with include and exclude globs', async () => {
+    await fs.mkdir('/project')
+    const events = await watchTree('/project', { include: '**/*.ts', exclude: ['node_modules', '**/*.test.ts'] })
+
+    await fs.writeFile('/project/src/index.ts', 'code')
+    await fs.writeFile('/project/src/index.test.ts', 'test')
+    await fs.writeFile('/project/readme.md', 'docs')
+    await fs.writeFile('/project/node_modules/pkg/index.ts', 'dependency')
+    await settle()
+
+    expect(events).toEqual([['add', '/project/src/index.ts']])
+  })
+
+  it('should treat unmatched braces in globs as literals', async () => {
+    await fs.mkdir('/project')
+    const events = await watchTree('/project', { include: ['src/{a,b', 'c}.txt', '{d,e}.txt'] })
+
+    await fs.writeFile('/project/src/{a,b', 'brace')
+    await fs.writeFile('/project/src/a', 'not an alternative')
+    await fs.writeFile('/project/c}.txt', 'brace')
+    await fs.writeFile('/project/e.txt', 'alternative')
+    await settle()
+
+    expect(events).toEqual([
+      ['add', '/project/src/{a,b'],
+      ['add', '/project/c}.txt'],
+      ['add', '/project/e.txt']
+    ])
+    expect(() => fs.watchTree('/project', { include: '[z-a]' })).toThrow(expect.objectContaining({ code: 'EINVAL' }))
+  })
+
+  it('should pass stats and support EventTarget listeners', async () => {
+    await fs.mkdir('/project')
+    const watcher = fs.watchTree('/project')
+    watchers.push(watcher)
+    const added: Array<[string, number | undefined]> = []
+    watcher.addEventListener('add', (event) => {
+      const { path, stats } = (event as CustomEvent).detail
+      added.push([path, stats?.size])
+    })
+    await new Promise(resolve => watcher.addEventListener('ready', resolve, { once: true }))
+
+    await fs.writeFile('/project/file.txt', 'content')
+    await settle()
+
+    expect(added).toEqual([['/project/file.txt', 7]])
+  })
+
+  it('should stop calling listeners removed with off()', async () => {
+    await fs.mkdir('/project')
+    await watchTree('/project')
+    const added: string[] = []
+    const onAdd = (path: string) => added.push(path)
+    watchers[0].on('add', onAdd)
+
+    await fs.writeFile('/project/a.txt', 'a')
+    await settle()
+    watchers[0].off('add', onAdd)
+    await fs.writeFile('/project/b.txt', 'b')
+    await settle()
+
+    expect(added).toEqual(['/project/a.txt'])
+  })
+
+  it('should wait for writes to finish with awaitWriteFinish', async () => {
+    await fs.mkdir('/project')
+    const events = await watchTree('/project', { awaitWriteFinish: { stabilityThreshold: 60, pollInterval: 10 } })
+
+    await fs.writeFile('/project/file.txt', 'part 1')
+    await settle()
+    await fs.appendFile('/project/file.txt', ' part 2')
+    await settle()
+    expect(events).toEqual([])
+
+    await new Promise(resolve => setTimeout(resolve, 150))
+    expect(events).toEqual([['add', '/project/file.txt']])
+  })
+
+  it('should not report a file removed before its write finished', async () => {
+    await fs.mkdir('/project')
+    const events = await watchTree('/project', { awaitWriteFinish: { stabilityThreshold: 60, pollInterval: 10 } })
+
+    await fs.writeFile('/project/file.txt', 'content')
+    await fs.unlink('/project/file.txt')
+    await new Promise(resolve => setTimeout(resolve, 150))
+
+    expect(events).toEqual([])
+  })
+
+  it('should list watched entries', async () => {
+    await fs.writeFile('/project/src/index.ts', 'code')
+    await fs.writeFile('/project/readme.md', 'docs')
+    await watchTree('/project')
+
+    const watched = watchers[0].getWatched()
+
+    expect(watched['/project'].sort()).toEqual(['readme.md', 'src'])
+    expect(watched['/project/src']).toEqual(['index.ts'])
+  })
+
+  it('should stop reporting after close', async () => {
+    await fs.mkdir('/project')
+    const events = await watchTree('/project')
+
+    await watchers[0].close()
+    await fs.writeFile('/project/file.txt', 'content')
+    await settle()
+
+    expect(events).toEqual([])
+  })
+})
+
+describe('watchFile()', () => {
+  let fs: OPFS
+
+  type Call = [curr: Stats, prev: Stats, changes?: DirectoryChanges]
+
+  // A few polls at the 10ms interval used below
+  const polls = () => new Promise(resolve => setTimeout(resolve, 60))
+
+  const watchFile = async (path: string, options = {}): Promise<Call[]> => {
+    const calls: Call[] = []
+    fs.watchFile(path, { interval: 10, ...options }, (curr, prev, changes) => calls.push([curr, prev, changes]))
+    await polls() // Let the first poll record the baseline
+    return calls
+  }
+
+  beforeEach(() => {
+    resetFileSystem()
+    fs = new OPFS({ useSync: true, verbose: false })
+  })
+
+  afterEach(() => {
+    fs.terminate()
+  })
+
+  it('should call the listener with current and previous stats', async () => {
+    await fs.writeFile('/file.txt', 'v1')
+    const calls = await watchFile('/file.txt')
+
+    await fs.writeFile('/file.txt', 'version 2')
+    await polls()
+
+    expect(calls).toHaveLength(1)
+    expect(calls[0][0].size).toBe(9)
+    expect(calls[0][1].size).toBe(2)
+  })
+
+  it('should not call the listener while nothing changes', async () => {
+    await fs.writeFile('/file.txt', 'content')
+    const calls = await watchFile('/file.txt')
+
+    await fs.readFile('/file.txt')
+    await polls()
+
+    expect(calls).toEqual([])
+  })
+
+  it('should report zeroed stats while the file is missing', async () => {
+    const calls = await watchFile('/file.txt')
+
+    await fs.writeFile('/file.txt', 'content')
+    await polls()
+    await fs.unlink('/file.txt')
+    await polls()
+
+    expect(calls).toHaveLength(2)
+    const [[created, missing], [removed]] = calls
+    expect(missing.isFile()).toBe(false)
+    expect(missing.mtimeMs).toBe(0)
+    expect(created.isFile()).toBe(true)
+    expect(removed.size).toBe(0)
+    expect(removed.mtime.getTime()).toBe(0)
+  })
+
+  it('should see metadata changes', async () => {
+    await fs.writeFile('/file.txt', 'content')
+    const calls = await watchFile('/file.txt')
+
+    await fs.chmod('/file.txt', 0o600)
+    await polls()
+
+    expect(calls).toHaveLength(1)
+    expect(calls[0][0].mode & 0o777).toBe(0o600)
+  })
+
+  it('should report added and removed directory entries', async () => {
+    await fs.writeFile('/dir/old.txt', 'old')
+    const calls = await watchFile('/dir', { entries: true })
+
+    await fs.writeFile('/dir/new.txt', 'new')
+    await fs.unlink('/dir/old.txt')
+    await polls()
+
+    expect(calls).toHaveLength(1)
+    expect(calls[0][2]).toEqual({ added: ['new.txt'], removed: ['old.txt'] })
+  })
+
+  it('should share one poller per path', async () => {
+    await fs.writeFile('/file.txt', 'v1')
+    const first = fs.watchFile('/file.txt', { interval: 10 }, () => {})
+    const second = fs.watchFile('/file.txt', () => {})
+
+    expect(second).toBe(first)
+    fs.unwatchFile('/file.txt')
+  })
+
+  it('should stop calling a listener after unwatchFile', async () => {
+    await fs.writeFile('/file.txt', 'v1')
+    const removed: Call[] = []
+    const onChange = (curr: Stats, prev: Stats) => removed.push([curr, prev])
+    fs.watchFile('/file.txt', { interval: 10 }, onChange)
+    const kept = await watchFile('/file.txt')
+
+    fs.unwatchFile('/file.txt', onChange)
+    await fs.writeFile('/file.txt', 'version 2')
+    await polls()
+    expect(removed).toEqual([])
+    expect(kept).toHaveLength(1)
+
+    fs.unwatchFile('/file.txt')
+    await fs.writeFile('/file.txt', 'version 3 is longer')
+    await polls()
+    expect(kept).toHaveLength(1)
+  })
+})
@@ -39,6 +39,18 @@ export default defineConfig([
     splitting: false,
     treeshake: true
   },
+  // Sync client (for workers that block on a sync channel)
+  {
+    entry: ['src/sync-client.ts'],
+    format: ['esm'],
+    dts: true,
+    clean: false,
+    sourcemap: true,
+    target: 'es2022',
+    outDir: 'dist',
+    splitting: false,
+    treeshake: true
+  },
   // Hybrid (routes read/write to different backends)
   {
     entry: ['src/opfs-hybrid.ts'],